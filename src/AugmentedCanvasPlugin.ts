@@ -1,6 +1,9 @@
 import {
+	Menu,
 	Notice,
 	Plugin,
+	TAbstractFile,
+	TFile,
 	TFolder,
 } from "obsidian";
 import {
@@ -13,12 +16,32 @@ import SystemPromptsModal from "./Modals/SystemPromptsModal";
 import { createFlashcards } from "./actions/contextMenu/flashcards";
 import { parseCsv } from "./utils/csvUtils";
 import { handleAddRelevantQuestions } from "./actions/commands/relevantQuestions";
+import { exportBranch, selectedExportNode } from "./actions/commands/exportBranch";
 import { initLogDebug } from "./logDebug";
 import FolderSuggestModal from "./Modals/FolderSuggestModal";
 import { insertSystemPrompt } from "./actions/commands/insertSystemPrompt";
 import { runPromptFolder } from "./actions/commands/runPromptFolder";
 import { getActiveCanvas } from "./utils";
 import { createCanvasMenuPatch } from "./actions/menuPatches/canvasMenuPatch";
+import {
+	activeGenerationCount,
+	stopAllGenerations,
+} from "./utils/generationControl";
+import { UsageLedger, initUsageLedger } from "./utils/usageLedger";
+import { PdfTextCache, initPdfCache } from "./obsidian/pdfReader";
+import { LinkCache, initLinkCache } from "./obsidian/linkReader";
+import {
+	DEFAULT_MARKDOWN_OPTIONS,
+	initMarkdownOptions,
+} from "./obsidian/markdownNormalizer";
+import {
+	Embedder,
+	VaultIndex,
+	initVaultIndex,
+} from "./obsidian/vaultIndex";
+import { readFileContent } from "./obsidian/fileUtil";
+import { getProviderConfig, isProviderReady } from "./openai/providers";
+import { getEmbeddings } from "./utils/chatgpt";
 
 // @ts-expect-error - CSV text import
 import promptsCsvText from "./data/prompts.csv.txt";
@@ -29,8 +52,54 @@ export default class AugmentedCanvasPlugin extends Plugin {
 
 	settings: AugmentedCanvasSettings;
 
+	usageLedger: UsageLedger;
+
+	vaultIndex: VaultIndex;
+
 	async onload() {
 		await this.loadSettings();
+
+		this.usageLedger = new UsageLedger(
+			this.app.vault.adapter,
+			`${this.manifest.dir}/usage.json`
+		);
+		await this.usageLedger.load();
+		initUsageLedger(this.usageLedger, this.app, this.settings);
+		initPdfCache(
+			new PdfTextCache(
+				this.app.vault.adapter,
+				`${this.manifest.dir}/pdf-cache`
+			)
+		);
+		const linkCache = new LinkCache(
+			this.app.vault.adapter,
+			`${this.manifest.dir}/link-cache.json`,
+			() => this.settings.linkCacheHours * 60 * 60 * 1000
+		);
+		await linkCache.load();
+		initLinkCache(linkCache);
+		initMarkdownOptions(() => ({
+			...DEFAULT_MARKDOWN_OPTIONS,
+			...this.settings.markdown,
+		}));
+		this.vaultIndex = new VaultIndex(
+			this.app.vault.adapter,
+			`${this.manifest.dir}/vault-index.json`,
+			{
+				list: () =>
+					this.app.vault
+						.getMarkdownFiles()
+						.map((file) => ({ path: file.path, mtime: file.stat.mtime })),
+				read: async (path) => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					return file instanceof TFile ? readFileContent(this.app, file) : "";
+				},
+			},
+			() => this.vaultEmbedder()
+		);
+		await this.vaultIndex.load();
+		initVaultIndex(this.vaultIndex);
+
 		this.addSettingTab(new SettingsTab(this.app, this));
 
 		this.app.workspace.onLayoutReady(() => {
@@ -39,6 +108,10 @@ export default class AugmentedCanvasPlugin extends Plugin {
 			this.patchCanvasMenu();
 			this.addCommands();
 			this.patchNoteContextMenu();
+			this.registerVaultIndexEvents();
+			if (this.settings.vaultIndex?.enabled) {
+				this.vaultIndex.sync();
+			}
 
 			if (this.settings.systemPrompts.length === 0) {
 				this.fetchSystemPrompts();
@@ -47,7 +120,8 @@ export default class AugmentedCanvasPlugin extends Plugin {
 	}
 
 	onunload() {
-		// Plugin cleanup if needed
+		stopAllGenerations();
+		this.vaultIndex?.cancel();
 	}
 
 	async loadSettings() {
@@ -98,25 +172,89 @@ export default class AugmentedCanvasPlugin extends Plugin {
 	}
 
 	/**
-	 * Add flashcards menu item to canvas node context menu
+	 * Add flashcards menu item to the context menus of a canvas node and of a
+	 * multi-selection
 	 */
 	patchNoteContextMenu() {
 		const settings = this.settings;
+		const addFlashcardsItem = (menu: Menu) => {
+			menu.addSeparator();
+			menu.addItem((item) => {
+				item.setTitle("创建闪卡")
+					.setIcon("lucide-wallet-cards")
+					.onClick(() => {
+						createFlashcards(this.app, settings);
+					});
+			});
+		};
 		// * no event name to add to Canvas context menu ("canvas-menu" does not exist)
 		this.registerEvent(
-			this.app.workspace.on("canvas:node-menu", (menu) => {
-				menu.addSeparator();
-				menu.addItem((item) => {
-					item.setTitle("创建闪卡")
-						.setIcon("lucide-wallet-cards")
-						.onClick(() => {
-							createFlashcards(this.app, settings);
-						});
-				});
+			this.app.workspace.on("canvas:node-menu", addFlashcardsItem)
+		);
+		this.registerEvent(
+			this.app.workspace.on("canvas:selection-menu", addFlashcardsItem)
+		);
+	}
+
+	/**
+	 * Embedding model of the vault index: the provider's, when it speaks the
+	 * OpenAI protocol and a model is set. Undefined ranks chunks with BM25.
+	 */
+	vaultEmbedder(): Embedder | undefined {
+		const model = this.settings.vaultIndex?.embeddingModel?.trim();
+		const provider = getProviderConfig(this.settings);
+		if (!model || provider.protocol !== "openai" || !isProviderReady(this.settings)) {
+			return undefined;
+		}
+
+		return {
+			model,
+			embed: (texts) => getEmbeddings(provider, texts, { model }),
+		};
+	}
+
+	/**
+	 * Keep the vault index up to date with the notes while it is enabled
+	 */
+	registerVaultIndexEvents() {
+		const indexed = (file: TAbstractFile): file is TFile =>
+			!!this.settings.vaultIndex?.enabled &&
+			file instanceof TFile &&
+			file.extension === "md";
+
+		this.registerEvent(
+			this.app.vault.on("create", (file) => {
+				if (indexed(file)) this.vaultIndex.schedule(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				if (indexed(file)) this.vaultIndex.schedule(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				if (indexed(file)) this.vaultIndex.remove(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				if (indexed(file)) this.vaultIndex.rename(oldPath, file.path);
 			})
 		);
 	}
 
+	/**
+	 * Index the notes changed since the last update
+	 */
+	async updateVaultIndex() {
+		new Notice("正在更新知识库索引...");
+		const count = await this.vaultIndex.sync();
+		new Notice(
+			`知识库索引已更新：重新索引 ${count} 篇笔记，共 ${this.vaultIndex.chunkCount} 个片段`
+		);
+	}
+
 	/**
 	 * Register plugin commands
 	 */
@@ -145,7 +283,8 @@ export default class AugmentedCanvasPlugin extends Plugin {
 								app,
 								this.settings,
 								systemPrompt,
-								folder
+								folder,
+								() => this.saveSettings()
 							);
 						}).open();
 					}
@@ -183,6 +322,55 @@ export default class AugmentedCanvasPlugin extends Plugin {
 				handleAddRelevantQuestions(app, this.settings);
 			},
 		});
+
+		this.addCommand({
+			id: "export-branch-to-markdown",
+			name: "导出对话分支为笔记",
+			checkCallback: (checking: boolean) => {
+				if (checking) {
+					return !!selectedExportNode(app);
+				}
+
+				exportBranch(app, this.settings, "branch");
+			},
+		});
+
+		this.addCommand({
+			id: "export-subtree-to-markdown",
+			name: "导出子树为笔记",
+			checkCallback: (checking: boolean) => {
+				if (checking) {
+					return !!selectedExportNode(app);
+				}
+
+				exportBranch(app, this.settings, "subtree");
+			},
+		});
+
+		this.addCommand({
+			id: "update-vault-index",
+			name: "更新知识库索引",
+			checkCallback: (checking: boolean) => {
+				if (checking) {
+					return !!this.settings.vaultIndex?.enabled;
+				}
+
+				this.updateVaultIndex();
+			},
+		});
+
+		this.addCommand({
+			id: "stop-all-generations",
+			name: "停止所有生成",
+			checkCallback: (checking: boolean) => {
+				if (checking) {
+					return activeGenerationCount() > 0;
+				}
+
+				const count = stopAllGenerations();
+				new Notice(`已停止 ${count} 个生成任务`);
+			},
+		});
 	}
 
 	async saveSettings() {
@@ -0,0 +1,185 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import {
+	CONTEXT_SOURCE_LABELS,
+	ContextMessage,
+	contextMessage,
+	contextTokens,
+	fitContextToBudget,
+	moveContextMessage,
+} from "../utils/contextReview";
+import { imageDataUrl } from "../obsidian/imageUtil";
+
+/**
+ * Show the messages of a request before it is sent.
+ * Messages can be edited, dropped, reordered and pinned; pinned messages are
+ * kept when the context is trimmed to the token budget on send.
+ */
+export class ContextReviewModal extends Modal {
+	context: ContextMessage[];
+	inputLimit: number;
+	onSubmit: (context: ContextMessage[] | null) => void;
+	submitted = false;
+	listEl: HTMLElement;
+	totalEl: HTMLElement;
+
+	constructor(
+		app: App,
+		context: ContextMessage[],
+		inputLimit: number,
+		onSubmit: (context: ContextMessage[] | null) => void
+	) {
+		super(app);
+		this.context = context.map((message) => ({ ...message }));
+		this.inputLimit = inputLimit;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass("augmented-canvas-context-review");
+		contentEl.createEl("h3", { text: "预览上下文" });
+		contentEl.createEl("p", {
+			text: "以下是将要发送的消息。超出 token 限额时，发送前会从最早的未固定消息开始删除。",
+		});
+
+		this.totalEl = contentEl.createEl("p");
+		this.listEl = contentEl.createDiv();
+		this.renderMessages();
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("取消").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("发送")
+					.setCta()
+					.onClick(() => this.submit())
+			);
+	}
+
+	submit() {
+		const { context, dropped } = fitContextToBudget(
+			this.context,
+			this.inputLimit
+		);
+		if (!context.length) {
+			new Notice("没有要发送的消息");
+			return;
+		}
+		if (dropped) {
+			new Notice(`超出 token 限额，已删除 ${dropped} 条未固定的消息`);
+		}
+
+		this.submitted = true;
+		this.onSubmit(context);
+		this.close();
+	}
+
+	renderTotal() {
+		const total = contextTokens(this.context);
+		this.totalEl.setText(
+			`${this.context.length} 条消息，共 ${total} / ${this.inputLimit} 个 token`
+		);
+		this.totalEl.toggleClass("mod-warning", total > this.inputLimit);
+	}
+
+	renderMessages() {
+		this.listEl.empty();
+		this.renderTotal();
+
+		this.context.forEach((message, index) => {
+			const itemEl = this.listEl.createDiv({
+				cls: "augmented-canvas-context-message",
+			});
+
+			const describe = () =>
+				message.truncatedFrom
+					? `${message.tokens} tokens · 已截断（原 ${message.truncatedFrom} 字符）`
+					: `${message.tokens} tokens`;
+
+			const setting = new Setting(itemEl)
+				.setName(
+					`${index + 1}. ${message.role} · ${CONTEXT_SOURCE_LABELS[message.source]}`
+				)
+				.setDesc(describe())
+				.addExtraButton((button) =>
+					button
+						.setIcon(message.pinned ? "pin-off" : "pin")
+						.setTooltip(message.pinned ? "取消固定" : "固定")
+						.onClick(() => {
+							message.pinned = !message.pinned;
+							this.renderMessages();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("上移")
+						.setDisabled(index === 0)
+						.onClick(() => this.move(index, -1))
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("下移")
+						.setDisabled(index === this.context.length - 1)
+						.onClick(() => this.move(index, 1))
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("删除")
+						.onClick(() => {
+							this.context.splice(index, 1);
+							this.renderMessages();
+						})
+				);
+
+			if (message.image) {
+				itemEl.createEl("img", {
+					cls: "augmented-canvas-context-image",
+					attr: { src: imageDataUrl(message.image), alt: message.content },
+				});
+			}
+
+			const textarea = itemEl.createEl("textarea", {
+				text: message.content,
+				attr: { rows: Math.min(8, message.content.split("\n").length + 1) },
+			});
+			textarea.addEventListener("input", () => {
+				// Update in place: re-rendering would move the focus out of the textarea
+				Object.assign(
+					message,
+					contextMessage({ ...message, content: textarea.value })
+				);
+				setting.setDesc(describe());
+				this.renderTotal();
+			});
+		});
+	}
+
+	move(index: number, offset: number) {
+		this.context = moveContextMessage(this.context, index, offset);
+		this.renderMessages();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) this.onSubmit(null);
+	}
+}
+
+/**
+ * Open the context review modal, resolving with the reviewed messages,
+ * or null when the request is cancelled
+ */
+export const reviewContext = (
+	app: App,
+	context: ContextMessage[],
+	inputLimit: number
+) =>
+	new Promise<ContextMessage[] | null>((resolve) =>
+		new ContextReviewModal(app, context, inputLimit, resolve).open()
+	);
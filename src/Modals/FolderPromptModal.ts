@@ -0,0 +1,251 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import {
+	FOLDER_PROMPT_MODE_LABELS,
+	FOLDER_SKIP_REASON_LABELS,
+	FolderDocument,
+	FolderPlan,
+	FolderPromptMode,
+	FolderPromptOptions,
+	FolderSkippedFile,
+	mapConcurrently,
+	parseGlobList,
+	planFolderRun,
+	selectFolderFiles,
+} from "../utils/folderPrompt";
+
+/**
+ * Rows listed in the preview, the totals count every file
+ */
+const MAX_PREVIEW_ROWS = 200;
+
+/**
+ * Files read at once: PDF and EPUB conversions are slow and memory hungry
+ */
+const PREVIEW_READ_CONCURRENCY = 4;
+
+export interface FolderPromptRequest {
+	folderPath: string;
+	promptName: string;
+	/**
+	 * Files of the folder, relative to it
+	 */
+	paths: string[];
+	options: FolderPromptOptions;
+	/**
+	 * Input tokens a request may use with these options
+	 */
+	budget: (options: FolderPromptOptions) => number;
+	readDocument: (path: string) => Promise<FolderDocument>;
+}
+
+/**
+ * Choose the files of a folder prompt and preview what will be sent:
+ * the files in each request with their tokens, and the files left out
+ */
+export class FolderPromptModal extends Modal {
+	request: FolderPromptRequest;
+	options: FolderPromptOptions;
+	onSubmit: (result: { options: FolderPromptOptions; plan: FolderPlan } | null) => void;
+	plan: FolderPlan | null = null;
+	submitted = false;
+	/**
+	 * Documents already read, by path
+	 */
+	documents = new Map<string, Promise<FolderDocument>>();
+	/**
+	 * Incremented on every refresh, so a slower earlier refresh does not win
+	 */
+	refreshId = 0;
+	summaryEl: HTMLElement;
+	listEl: HTMLElement;
+	runButton: ButtonComponent;
+
+	constructor(
+		app: App,
+		request: FolderPromptRequest,
+		onSubmit: (result: { options: FolderPromptOptions; plan: FolderPlan } | null) => void
+	) {
+		super(app);
+		this.request = request;
+		this.options = { ...request.options };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: "对文件夹运行系统提示词" });
+		contentEl.createEl("p", {
+			text: `文件夹：${this.request.folderPath || "/"} · 系统提示词：${this.request.promptName}`,
+		});
+
+		const globSetting = (
+			name: string,
+			desc: string,
+			key: "include" | "exclude"
+		) =>
+			new Setting(contentEl)
+				.setName(name)
+				.setDesc(desc)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder(key === "include" ? "**/*.md" : "archive/**")
+						.setValue(this.options[key].join("\n"))
+						.onChange((value) => this.update({ [key]: parseGlobList(value) }))
+				);
+		globSetting(
+			"包含",
+			"每行一个 glob，相对于所选文件夹，如 **/*.md、notes/*.{md,pdf}。留空读取所有文件。",
+			"include"
+		);
+		globSetting("排除", "每行一个 glob，匹配的文件不会读取。", "exclude");
+
+		new Setting(contentEl)
+			.setName("最多文件数")
+			.setDesc("0 表示不限制。")
+			.addText((text) =>
+				text
+					.setValue(this.options.maxFiles.toString())
+					.onChange((value) => {
+						const parsed = parseInt(value);
+						if (!isNaN(parsed) && parsed >= 0) this.update({ maxFiles: parsed });
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("每次请求最多 token")
+			.setDesc(`0 表示使用模型的输入限额（${this.request.budget({ ...this.options, maxTokens: 0 })}）。`)
+			.addText((text) =>
+				text
+					.setValue(this.options.maxTokens.toString())
+					.onChange((value) => {
+						const parsed = parseInt(value);
+						if (!isNaN(parsed) && parsed >= 0) this.update({ maxTokens: parsed });
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("模式")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(FOLDER_PROMPT_MODE_LABELS)
+					.setValue(this.options.mode)
+					.onChange((value: FolderPromptMode) => this.update({ mode: value }))
+			);
+
+		this.summaryEl = contentEl.createEl("p");
+		this.listEl = contentEl.createDiv({ cls: "augmented-canvas-folder-files" });
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("取消").onClick(() => this.close())
+			)
+			.addButton((button) => {
+				this.runButton = button
+					.setButtonText("运行")
+					.setCta()
+					.onClick(() => this.submit());
+			});
+
+		this.refresh();
+	}
+
+	update(changes: Partial<FolderPromptOptions>) {
+		this.options = { ...this.options, ...changes };
+		this.refresh();
+	}
+
+	readDocument(path: string) {
+		let document = this.documents.get(path);
+		if (!document) {
+			document = this.request.readDocument(path);
+			this.documents.set(path, document);
+			// A file that failed is read again on the next refresh
+			document.catch(() => this.documents.delete(path));
+		}
+		return document;
+	}
+
+	async refresh() {
+		const refreshId = ++this.refreshId;
+		this.plan = null;
+		this.runButton?.setDisabled(true);
+		this.summaryEl.setText("正在读取文件...");
+
+		const { selected, skipped } = selectFolderFiles(this.request.paths, this.options);
+		const unreadable: FolderSkippedFile[] = [];
+		const documents = await mapConcurrently(selected, PREVIEW_READ_CONCURRENCY, (path) =>
+			// A newer refresh reads the files it needs itself
+			refreshId !== this.refreshId
+				? Promise.resolve(null)
+				: this.readDocument(path).catch((error) => {
+					console.error(`Failed to read ${path}:`, error);
+					unreadable.push({ path, reason: "unreadable" });
+					return null;
+				})
+		);
+		if (refreshId !== this.refreshId) return;
+
+		const plan = planFolderRun(
+			documents.filter((document): document is FolderDocument => !!document),
+			this.options.mode,
+			this.request.budget(this.options)
+		);
+		plan.skipped = [...plan.skipped, ...unreadable, ...skipped];
+		this.plan = plan;
+		this.render(plan);
+	}
+
+	render(plan: FolderPlan) {
+		const files = plan.batches.flat();
+		const requests =
+			this.options.mode === "per-file"
+				? "，每个文件单独请求后汇总"
+				: this.options.mode === "map-reduce" && plan.batches.length > 1
+					? `，分 ${plan.batches.length} 批请求后汇总`
+					: "";
+		const skipped = plan.skipped.length ? `，跳过 ${plan.skipped.length} 个文件` : "";
+		this.summaryEl.setText(
+			`发送 ${files.length} 个文件，共 ${plan.tokens} 个 token${requests}${skipped}`
+		);
+		this.runButton?.setDisabled(!files.length);
+
+		this.listEl.empty();
+		const table = this.listEl.createEl("table", { cls: "augmented-canvas-usage-table" });
+		const header = table.createEl("tr");
+		["文件", "批次", "token"].forEach((text) => header.createEl("th", { text }));
+
+		const rows: [string, string, string][] = [
+			...plan.batches.flatMap((batch, index) =>
+				batch.map((document): [string, string, string] => [
+					document.path,
+					`${index + 1}`,
+					document.truncatedFrom ? `${document.tokens}（已截断）` : `${document.tokens}`,
+				])
+			),
+			...plan.skipped.map((file): [string, string, string] => [
+				file.path,
+				"-",
+				FOLDER_SKIP_REASON_LABELS[file.reason],
+			]),
+		];
+		rows.slice(0, MAX_PREVIEW_ROWS).forEach((cells) => {
+			const row = table.createEl("tr");
+			cells.forEach((text) => row.createEl("td", { text }));
+		});
+		if (rows.length > MAX_PREVIEW_ROWS) {
+			this.listEl.createEl("p", { text: `另有 ${rows.length - MAX_PREVIEW_ROWS} 个文件未列出` });
+		}
+	}
+
+	submit() {
+		if (!this.plan?.batches.length) return;
+		this.submitted = true;
+		this.onSubmit({ options: this.options, plan: this.plan });
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.submitted) this.onSubmit(null);
+	}
+}
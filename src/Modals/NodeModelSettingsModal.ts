@@ -0,0 +1,103 @@
+import { App, Modal, Setting } from "obsidian";
+import { AugmentedCanvasSettings, getModels } from "../settings/AugmentedCanvasSettings";
+import { ModelOverrides } from "../utils/modelOverrides";
+
+/**
+ * Edit the model / temperature / max tokens overrides of a canvas node.
+ * Empty fields inherit from ancestor nodes or the plugin settings.
+ */
+export class NodeModelSettingsModal extends Modal {
+	settings: AugmentedCanvasSettings;
+	overrides: ModelOverrides;
+	onSubmit: (overrides: ModelOverrides) => void;
+
+	constructor(
+		app: App,
+		settings: AugmentedCanvasSettings,
+		overrides: ModelOverrides,
+		onSubmit: (overrides: ModelOverrides) => void
+	) {
+		super(app);
+		this.settings = settings;
+		this.overrides = { ...overrides };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: "节点模型设置" });
+		contentEl.createEl("p", {
+			text: "应用于此节点及其后续分支。留空则继承祖先节点或插件设置。",
+		});
+
+		new Setting(contentEl)
+			.setName("模型")
+			.setDesc(`全局设置：${this.settings.apiModel}`)
+			.addText((text) => {
+				const listId = "augmented-canvas-node-models";
+				const datalist = contentEl.createEl("datalist", {
+					attr: { id: listId },
+				});
+				getModels(this.settings).forEach((model) =>
+					datalist.createEl("option", { value: model })
+				);
+				text.inputEl.setAttribute("list", listId);
+				text.setPlaceholder(this.settings.apiModel)
+					.setValue(this.overrides.model || "")
+					.onChange((value) => {
+						this.overrides.model = value.trim() || undefined;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("温度 (Temperature)")
+			.setDesc(`0-2。全局设置：${this.settings.temperature}`)
+			.addText((text) =>
+				text
+					.setPlaceholder(this.settings.temperature.toString())
+					.setValue(this.overrides.temperature?.toString() || "")
+					.onChange((value) => {
+						const parsed = parseFloat(value);
+						this.overrides.temperature =
+							parsed >= 0 && parsed <= 2 ? parsed : undefined;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("最大响应 Token 数")
+			.setDesc(
+				`全局设置：${this.settings.maxResponseTokens || "不限制"}`
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(this.settings.maxResponseTokens.toString())
+					.setValue(this.overrides.max_tokens?.toString() || "")
+					.onChange((value) => {
+						const parsed = parseInt(value);
+						this.overrides.max_tokens = parsed > 0 ? parsed : undefined;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("清除").onClick(() => {
+					this.onSubmit({});
+					this.close();
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("保存")
+					.setCta()
+					.onClick(() => {
+						this.onSubmit(this.overrides);
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -10,6 +10,7 @@ export const ItemView = jest.fn();
 export const Menu = jest.fn();
 export const MenuItem = jest.fn();
 export const TFile = jest.fn();
+export const TFolder = jest.fn();
 export const CanvasGroupNode = jest.fn();
 export const Plugin = jest.fn();
 export const PluginSettingTab = jest.fn();
@@ -19,3 +20,20 @@ export const Modal = jest.fn();
 export const MarkdownRenderer = jest.fn();
 export const Component = jest.fn();
 export const requestUrl = jest.fn();
+export const arrayBufferToBase64 = jest.fn((buffer: ArrayBuffer) =>
+	Buffer.from(buffer).toString("base64")
+);
+export const base64ToArrayBuffer = jest.fn((base64: string) => {
+	const buffer = Buffer.from(base64, "base64");
+	return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+});
+export const normalizePath = jest.fn((path: string) =>
+	path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "")
+);
+// Plain text of the HTML: enough to check what a converter passes on
+export const htmlToMarkdown = jest.fn((html: string | Node) =>
+	(typeof html === "string"
+		? html.replace(/<[^>]+>/g, "")
+		: html.textContent || ""
+	).trim()
+);
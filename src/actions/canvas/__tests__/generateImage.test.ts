@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 生成图片测试
+ *
+ * - 图片接口地址的解析（独立地址 / 复用当前服务商）
+ * - 由提示词生成文件名
+ */
+
+import { imageFileName } from "../generateImage";
+import { getImageProviderConfig } from "../../../openai/providers";
+import { AugmentedCanvasSettings, DEFAULT_SETTINGS } from "../../../settings/AugmentedCanvasSettings";
+
+const settingsWith = (overrides: Partial<AugmentedCanvasSettings>): AugmentedCanvasSettings => ({
+	...DEFAULT_SETTINGS,
+	...overrides,
+});
+
+describe("getImageProviderConfig", () => {
+	it("reuses an OpenAI-protocol chat provider and its key", () => {
+		const provider = getImageProviderConfig(settingsWith({ providerId: "openai", apiKey: "sk-chat" }));
+
+		expect(provider).toMatchObject({ baseURL: "https://api.openai.com/v1", apiKey: "sk-chat", authStyle: "bearer" });
+	});
+
+	it("needs an image endpoint when the chat provider has its own protocol", () => {
+		expect(getImageProviderConfig(settingsWith({ providerId: "anthropic", apiKey: "key" }))).toBeUndefined();
+
+		const provider = getImageProviderConfig(
+			settingsWith({ providerId: "anthropic", apiKey: "key", imageBaseUrl: " https://api.openai.com/v1 ", imageApiKey: "sk-image" })
+		);
+		expect(provider).toMatchObject({
+			protocol: "openai",
+			baseURL: "https://api.openai.com/v1",
+			apiKey: "sk-image",
+			authStyle: "bearer",
+		});
+	});
+
+	it("sends no key to a local endpoint when none is set", () => {
+		const provider = getImageProviderConfig(
+			settingsWith({ providerId: "azure", apiKey: "", imageBaseUrl: "http://localhost:7860/v1" })
+		);
+
+		expect(provider?.authStyle).toBe("none");
+		expect(provider?.defaultQuery).toBeUndefined();
+	});
+});
+
+describe("imageFileName", () => {
+	const date = new Date("2026-03-04T05:06:07Z");
+
+	it("starts with the prompt, without characters file systems reject", () => {
+		expect(imageFileName('A cat: "Tom" / on a [roof]?\nAt night', date)).toBe(
+			"A cat Tom on a roof At night 20260304050607"
+		);
+	});
+
+	it("keeps file names short", () => {
+		expect(imageFileName("word ".repeat(50), date)).toBe(`${"word ".repeat(8).trim()} 20260304050607`);
+		expect(imageFileName("???", date)).toBe("image 20260304050607");
+	});
+});
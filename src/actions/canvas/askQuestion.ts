@@ -2,8 +2,12 @@ import { App, Notice } from "obsidian";
 import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
 import { CanvasNode } from "../../obsidian/canvas-internal";
 import { noteGenerator } from "../canvasNodeMenuActions/noteGenerator";
-import { getResponse } from "../../utils/chatgpt";
+import { getStructuredResponse } from "../../utils/chatgpt";
+import { JSONSchema } from "../../utils/structuredOutput";
+import { createErrorNode } from "../../obsidian/canvas-patches";
+import { getProviderConfig } from "../../openai/providers";
 import { isGroup, readGroupContent, getGroupLabel } from "../../utils/groupUtils";
+import { getNodeModelConfig } from "../../utils/modelOverrides";
 
 const SYSTEM_PROMPT_QUESTIONS = `
 You must respond in this JSON format: {
@@ -12,6 +16,12 @@ You must respond in this JSON format: {
 The questions must be asked in the same language the user used, default to English.
 `.trim();
 
+const QUESTIONS_SCHEMA: JSONSchema = {
+	type: "object",
+	properties: { questions: { type: "array", items: { type: "string" }, minItems: 1 } },
+	required: ["questions"],
+};
+
 export const handleCallGPT_Question = async (
 	app: App,
 	settings: AugmentedCanvasSettings,
@@ -61,22 +71,28 @@ export const handleCallGPT_Questions = async (
 	node: CanvasNode
 ) => {
 	const { buildMessages } = noteGenerator(app, settings);
+	const modelConfig = await getNodeModelConfig(settings, node);
 	const { messages } = await buildMessages(node, {
 		systemPrompt: SYSTEM_PROMPT_QUESTIONS,
+		modelConfig,
 	});
 	if (messages.length <= 1) return;
 
-	const gptResponse = await getResponse(
-		settings.apiKey,
-		messages,
-		{
-			model: settings.apiModel,
-			max_tokens: settings.maxResponseTokens || undefined,
-			temperature: settings.temperature,
-			isJSON: true,
-		}
-	);
-
-	return gptResponse.questions;
+	try {
+		const { questions } = await getStructuredResponse<{ questions: string[] }>(
+			getProviderConfig(settings),
+			messages,
+			QUESTIONS_SCHEMA,
+			{
+				...modelConfig,
+				action: "ask-question",
+			}
+		);
+		return questions;
+	} catch (error) {
+		console.error("Failed to generate questions:", error);
+		new Notice(`生成追问失败: ${error?.message || error}`);
+		createErrorNode(node.canvas, "生成追问失败", error, node, settings);
+	}
 };
 
@@ -2,15 +2,24 @@ import { App, ItemView, Notice, setIcon, setTooltip } from "obsidian";
 import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
 import { CanvasNode } from "../../obsidian/canvas-internal";
 import { CanvasView, addEdge } from "../../obsidian/canvas-patches";
-import { noteGenerator } from "../canvasNodeMenuActions/noteGenerator";
+import { getTokenLimit, noteGenerator } from "../canvasNodeMenuActions/noteGenerator";
 import { streamResponse } from "../../utils/chatgpt";
+import {
+	getProviderConfig,
+	isProviderReady,
+	providerSetupNotice,
+} from "../../openai/providers";
 import { IncrementalMarkdownParser } from "../../utils/groupGenerator";
-import { isGroup, buildGroupContext } from "../../utils/groupUtils";
+import { isGroup, buildGroupContext, getNodesInGroup } from "../../utils/groupUtils";
 import { randomHexString } from "../../utils";
 import { IncrementalXMLParser } from "../../utils/incrementalXMLParser";
 import { StreamingNodeCreator, EdgeDirection } from "../../utils/streamingNodeCreator";
 import { analyzeBestDirection, calculatePositionInDirection, getLayoutPreferences } from "../../utils/spatialAnalyzer";
 import { logDebug } from "../../logDebug";
+import { getNodeModelConfig } from "../../utils/modelOverrides";
+import { Generation, startGeneration } from "../../utils/generationControl";
+import { contextTokens, toChatMessages } from "../../utils/contextReview";
+import { reviewContext } from "../../Modals/ContextReviewModal";
 
 /**
  * System prompt for Smart Expand - XML Format (PRD v2.0)
@@ -205,8 +214,8 @@ export async function generateGroupWithAI(
 	userQuestion?: string
 ) {
 	// Validate API key
-	if (!settings.apiKey) {
-		new Notice("Please set your DeepSeek API key in the plugin settings");
+	if (!isProviderReady(settings)) {
+		new Notice(providerSetupNotice(settings));
 		return;
 	}
 
@@ -243,6 +252,8 @@ export async function generateGroupWithAI(
 	await canvas.requestSave();
 	await sleep(200);
 
+	let generation: Generation | undefined;
+
 	try {
 		// Build context from node and ancestors
 		const { buildMessages } = noteGenerator(app, settings, node);
@@ -261,11 +272,24 @@ export async function generateGroupWithAI(
 		// Use XML format (PRD v2.0)
 		const systemPrompt = SYSTEM_PROMPT_SMART_EXPAND_XML ;
 
-		const { messages, tokenCount } = await buildMessages(node, {
+		const modelConfig = await getNodeModelConfig(settings, node);
+		let { context } = await buildMessages(node, {
 			systemPrompt: systemPrompt,
 			prompt: finalPrompt,
+			modelConfig,
 		});
 
+		if (settings.reviewContext) {
+			const reviewed = await reviewContext(
+				app,
+				context,
+				getTokenLimit(settings, modelConfig)
+			);
+			if (!reviewed) return;
+			context = reviewed;
+		}
+		const messages = toChatMessages(context);
+
 		// Calculate group position using spatial analysis
 		const preferences = getLayoutPreferences(settings);
 		const directionScores = analyzeBestDirection(canvas, node, preferences);
@@ -361,7 +385,7 @@ export async function generateGroupWithAI(
 		await canvas.requestFrame();
 
 		new Notice(
-			`Sending ${messages.length} notes with ${tokenCount} tokens to generate group...`
+			`Sending ${messages.length} notes with ${contextTokens(context)} tokens to generate group...`
 		);
 
 		// Initialize incremental parsers and node creator
@@ -380,14 +404,12 @@ export async function generateGroupWithAI(
 		let lastNodeUpdate = Date.now();
 		let mdNodeIndex = 0;
 
+		generation = startGeneration(groupNode);
+
 		await streamResponse(
-			settings.apiKey,
+			getProviderConfig(settings),
 			messages,
-			{
-				model: settings.apiModel,
-				max_tokens: settings.maxResponseTokens || undefined,
-				temperature: settings.temperature,
-			},
+			{ ...modelConfig, signal: generation.signal, action: "generate-group" },
 			async (chunk: string | null, error?: Error) => {
 				if (error) {
 					throw error;
@@ -469,6 +491,17 @@ export async function generateGroupWithAI(
 			}
 		);
 
+		generation.finish();
+
+		if (generation.signal.aborted && settings.abortBehavior === "remove") {
+			// Removing the group also removes the edge from the source node
+			getNodesInGroup(groupNode, canvas).forEach((n) => canvas.removeNode(n));
+			canvas.removeNode(groupNode);
+			new Notice("已停止生成");
+			await canvas.requestSave();
+			return;
+		}
+
 		// Stream completed - handle remaining content
 		await sleep(200);
 
@@ -526,7 +559,6 @@ export async function generateGroupWithAI(
 		// Final update of group bounds to ensure all nodes are included
 		if (groupNode) {
 			// Force a final bounds update for the pre-created group
-			const { getNodesInGroup } = await import("../../utils/groupUtils");
 			const nodesInGroup = getNodesInGroup(groupNode, canvas);
 			if (nodesInGroup.length > 0) {
 				// Update bounds one more time to ensure everything fits
@@ -551,7 +583,11 @@ export async function generateGroupWithAI(
 		// Success notification
 		const totalNodes = nodeCreator.getCreatedNodeCount();
 		const edgeMsg = edgeCount > 0 ? ` and ${edgeCount} connection${edgeCount > 1 ? "s" : ""}` : "";
-		new Notice(`✓ Created ${totalNodes} node${totalNodes > 1 ? "s" : ""}${edgeMsg} with organic growth!`);
+		if (generation.signal.aborted) {
+			new Notice(`已停止生成，保留了 ${totalNodes} 个节点`);
+		} else {
+			new Notice(`✓ Created ${totalNodes} node${totalNodes > 1 ? "s" : ""}${edgeMsg} with organic growth!`);
+		}
 
 		await canvas.requestSave();
 
@@ -563,6 +599,8 @@ export async function generateGroupWithAI(
 		const errorMessage = error?.message || error?.toString() || "Unknown error";
 		console.error("Group generation error:", error);
 		new Notice(`Error generating group: ${errorMessage}`);
+	} finally {
+		generation?.finish();
 	}
 }
 
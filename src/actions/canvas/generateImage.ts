@@ -0,0 +1,145 @@
+import { App, Notice, TFile, normalizePath, setIcon, setTooltip } from "obsidian";
+import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
+import { CanvasNode } from "../../obsidian/canvas-internal";
+import { createNode } from "../../obsidian/canvas-patches";
+import { readNodeContent } from "../../obsidian/fileUtil";
+import { imageExtension } from "../../obsidian/imageUtil";
+import { getImageProviderConfig } from "../../openai/providers";
+import { generateImage } from "../../utils/chatgpt";
+import { startGeneration } from "../../utils/generationControl";
+import { parseOverrideHeader } from "../../utils/modelOverrides";
+import { getActiveCanvas, getImageSaveFolderPath } from "../../utils";
+
+/**
+ * Color of generated nodes: 6 == purple
+ */
+const assistantColor = "6";
+
+/**
+ * File name from the start of the prompt, without characters file systems reject
+ */
+export function imageFileName(prompt: string, date = new Date()) {
+	const words = prompt
+		.replace(/[\\/:*?"<>|#^[\]\r\n]+/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 40)
+		.trim();
+	const stamp = date.toISOString().slice(0, 19).replace(/[-:T]/g, "");
+	return `${words || "image"} ${stamp}`;
+}
+
+/**
+ * Save an image in the image folder under a free name
+ */
+async function saveImage(
+	app: App,
+	settings: AugmentedCanvasSettings,
+	prompt: string,
+	data: ArrayBuffer
+): Promise<TFile> {
+	const folder = await getImageSaveFolderPath(app, settings);
+	if (folder && !app.vault.getAbstractFileByPath(folder)) {
+		await app.vault.createFolder(folder);
+	}
+
+	const base = normalizePath(
+		folder ? `${folder}/${imageFileName(prompt)}` : imageFileName(prompt)
+	);
+	const extension = imageExtension(data);
+	let path = `${base}.${extension}`;
+	for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+		path = `${base} ${i}.${extension}`;
+	}
+
+	return app.vault.createBinary(path, data);
+}
+
+/**
+ * Generate an image from the node text and add it as a file node connected to the node
+ */
+export async function generateImageNode(
+	app: App,
+	settings: AugmentedCanvasSettings,
+	node: CanvasNode
+) {
+	const provider = getImageProviderConfig(settings);
+	if (!provider) {
+		new Notice("请在插件设置中设置图片生成接口地址");
+		return;
+	}
+
+	// 模型覆盖头部只用于配置，不作为提示词
+	const prompt = parseOverrideHeader(
+		(await readNodeContent(node))?.trim() || ""
+	).body.trim();
+	if (!prompt) {
+		new Notice("所选卡片中没有可用作提示词的文本");
+		return;
+	}
+
+	const canvas = node.canvas;
+	const placeholder = createNode(
+		canvas,
+		{
+			text: `\`\`\`正在生成图片 (${settings.imageModel})...\`\`\``,
+			size: { height: 60 },
+		},
+		node,
+		{ color: assistantColor },
+		undefined,
+		settings
+	);
+	const generation = startGeneration(placeholder);
+
+	try {
+		const data = await generateImage(provider, prompt, {
+			model: settings.imageModel,
+			size: settings.imageSize,
+			signal: generation.signal,
+		});
+		const file = await saveImage(app, settings, prompt, data);
+
+		canvas.removeNode(placeholder);
+		createNode(
+			canvas,
+			{ type: "file", file },
+			node,
+			{ color: assistantColor },
+			undefined,
+			settings
+		);
+		new Notice(`图片已保存到 ${file.path}`);
+	} catch (error: any) {
+		canvas.removeNode(placeholder);
+		if (generation.signal.aborted) {
+			new Notice("已停止生成");
+		} else {
+			console.error("Image generation error:", error);
+			new Notice(`生成图片出错: ${error?.message || error}`);
+		}
+	} finally {
+		generation.finish();
+	}
+
+	await canvas.requestSave();
+}
+
+export const addGenerateImageButton = (
+	app: App,
+	settings: AugmentedCanvasSettings,
+	menuEl: HTMLElement
+) => {
+	const buttonEl_GenerateImage = createEl("button", "clickable-icon gpt-menu-item");
+	setTooltip(buttonEl_GenerateImage, "生成图片", { placement: "top" });
+	setIcon(buttonEl_GenerateImage, "lucide-image-plus");
+	menuEl.appendChild(buttonEl_GenerateImage);
+
+	buttonEl_GenerateImage.addEventListener("click", async (e) => {
+		e.stopPropagation();
+		const canvas = getActiveCanvas(app);
+		const node = canvas && (Array.from(canvas.selection)[0] as CanvasNode);
+		if (!node) return;
+		await generateImageNode(app, settings, node);
+	});
+};
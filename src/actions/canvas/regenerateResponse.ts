@@ -5,10 +5,17 @@ import { noteGenerator } from "../canvasNodeMenuActions/noteGenerator";
 import { Canvas, CanvasNode } from "../../obsidian/canvas-internal";
 import { getNodesInGroup } from "../../utils/groupUtils";
 import { streamResponse } from "../../utils/chatgpt";
+import {
+	getProviderConfig,
+	isProviderReady,
+	providerSetupNotice,
+} from "../../openai/providers";
 import { IncrementalXMLParser } from "../../utils/incrementalXMLParser";
 import { StreamingNodeCreator, EdgeDirection } from "../../utils/streamingNodeCreator";
 import { ChatMessage } from "../../utils/groupGeneration/groupStreamManager";
 import { logDebug } from "../../logDebug";
+import { getNodeModelConfig } from "../../utils/modelOverrides";
+import { startGeneration } from "../../utils/generationControl";
 
 /**
  * 重新生成的系统提示 - XML 格式
@@ -125,8 +132,8 @@ export async function startRegeneration(
 	callbacks?: RegenerationCallbacks
 ): Promise<void> {
 	// 检查 API 密钥
-	if (!settings.apiKey) {
-		const error = new Error("请在插件设置中设置 DeepSeek API 密钥");
+	if (!isProviderReady(settings)) {
+		const error = new Error(providerSetupNotice(settings));
 		callbacks?.onError?.(error);
 		new Notice(error.message);
 		return;
@@ -232,17 +239,17 @@ export async function startRegeneration(
 	let lastNodeUpdate = Date.now();
 	let nodeCount = 0;
 
+	// 模型配置：源节点或最近祖先节点上的覆盖优先于全局设置
+	const modelConfig = await getNodeModelConfig(settings, fromNode);
+	const generation = startGeneration(groupNode);
+
 	try {
 		// 阶段 7: 流式生成（完全复用 generateGroup.ts 的逻辑）
 		// Requirements: 1.1, 1.2 - 使用相同的流式处理逻辑
 		await streamResponse(
-			settings.apiKey,
+			getProviderConfig(settings),
 			messagesWithSystemPrompt as any,
-			{
-				model: settings.apiModel,
-				max_tokens: settings.maxResponseTokens || undefined,
-				temperature: settings.temperature,
-			},
+			{ ...modelConfig, signal: generation.signal, action: "regenerate" },
 			async (chunk: string | null, error?: Error) => {
 				// 处理错误
 				if (error) {
@@ -316,6 +323,17 @@ export async function startRegeneration(
 			}
 		);
 
+		generation.finish();
+
+		// 用户停止生成且选择删除：清除已生成的部分节点（原始内容此前已删除）
+		if (generation.signal.aborted && settings.abortBehavior === "remove") {
+			getNodesInGroup(groupNode, canvas).forEach((n) => canvas.removeNode(n));
+			new Notice("已停止生成");
+			callbacks?.onComplete?.();
+			await canvas.requestSave();
+			return;
+		}
+
 		// 阶段 8: 流完成后的处理（与 generateGroup.ts 相同）
 		await sleep(200);
 
@@ -375,7 +393,11 @@ export async function startRegeneration(
 		// 成功通知
 		const totalNodes = nodeCreator.getCreatedNodeCount();
 		const edgeMsg = edgeCount > 0 ? ` 和 ${edgeCount} 条连接` : "";
-		new Notice(`✓ Group 重新生成完成，创建了 ${totalNodes} 个节点${edgeMsg}`);
+		new Notice(
+			generation.signal.aborted
+				? `已停止生成，保留了 ${totalNodes} 个节点`
+				: `✓ Group 重新生成完成，创建了 ${totalNodes} 个节点${edgeMsg}`
+		);
 
 		// 触发 onComplete 回调
 		// Requirements: 6.4 - 重新生成成功完成时调用 onComplete 回调
@@ -398,6 +420,8 @@ export async function startRegeneration(
 		// 触发 onError 回调
 		// Requirements: 6.5 - 发生错误时调用 onError 回调
 		callbacks?.onError?.(error instanceof Error ? error : new Error(errorMessage));
+	} finally {
+		generation.finish();
 	}
 }
 
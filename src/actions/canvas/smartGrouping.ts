@@ -10,6 +10,12 @@ import { CanvasNode, Canvas } from "../../obsidian/canvas-internal";
 import { CanvasView } from "../../obsidian/canvas-patches";
 import { readNodeContent } from "../../obsidian/fileUtil";
 import { streamResponse } from "../../utils/chatgpt";
+import { startGeneration } from "../../utils/generationControl";
+import {
+	getProviderConfig,
+	isProviderReady,
+	providerSetupNotice,
+} from "../../openai/providers";
 import { parseXML, isXMLFormat } from "../../utils/xmlParser";
 import { GroupWithMembersXML } from "../../types/xml.d";
 import { randomHexString } from "../../utils";
@@ -72,8 +78,8 @@ export async function smartGroupExistingNodes(
 	userInstruction: string
 ): Promise<void> {
 	// Validate API key
-	if (!settings.apiKey) {
-		new Notice("请在插件设置中设置 DeepSeek API 密钥");
+	if (!isProviderReady(settings)) {
+		new Notice(providerSetupNotice(settings));
 		return;
 	}
 
@@ -123,26 +129,39 @@ Organize these nodes into logical groups using <group> and <member> tags.`;
 		new Notice(`Analyzing ${selectedNodes.length} nodes to create groups...`);
 
 		// Stream AI response
+		// Nothing is drawn until the response is complete: the stop button goes on the first selected node
 		let accumulatedResponse = "";
+		const generation = startGeneration(selectedNodes[0]);
 
-		await streamResponse(
-			settings.apiKey,
-			messages,
-			{
-				model: settings.apiModel,
-				max_tokens: settings.maxResponseTokens || 2000,
-				temperature: settings.temperature,
-			},
-			(chunk: string | null, error?: Error) => {
-				if (error) {
-					throw error;
+		try {
+			await streamResponse(
+				getProviderConfig(settings),
+				messages,
+				{
+					model: settings.apiModel,
+					max_tokens: settings.maxResponseTokens || 2000,
+					temperature: settings.temperature,
+					signal: generation.signal,
+					action: "smart-grouping",
+				},
+				(chunk: string | null, error?: Error) => {
+					if (error) {
+						throw error;
+					}
+
+					if (chunk) {
+						accumulatedResponse += chunk;
+					}
 				}
+			);
+		} finally {
+			generation.finish();
+		}
 
-				if (chunk) {
-					accumulatedResponse += chunk;
-				}
-			}
-		);
+		if (generation.signal.aborted) {
+			new Notice("已停止生成");
+			return;
+		}
 
 		// Parse XML response
 		if (!isXMLFormat(accumulatedResponse)) {
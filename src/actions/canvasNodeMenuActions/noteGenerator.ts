@@ -1,4 +1,3 @@
-import { getEncoding } from "js-tiktoken";
 import { App, ItemView, Notice } from "obsidian";
 import { CanvasNode } from "../../obsidian/canvas-internal";
 import {
@@ -9,11 +8,55 @@ import {
 import {
 	AugmentedCanvasSettings,
 } from "../../settings/AugmentedCanvasSettings";
-import { visitNodeAndAncestors } from "../../obsidian/canvasUtil";
-import { readNodeContent } from "../../obsidian/fileUtil";
-import { streamResponse } from "../../utils/chatgpt";
-import { CHAT_MODELS, chatModelByName } from "../../openai/models";
+import {
+	DEFAULT_CONTEXT_SOURCES,
+	nodeNeighbors,
+	visitNodeAndAncestors,
+} from "../../obsidian/canvasUtil";
+import {
+	NodeContentReader,
+	nodeContentReader,
+	readLinkedNotes,
+} from "../../obsidian/fileUtil";
+import {
+	DEFAULT_VAULT_INDEX_OPTIONS,
+	formatChunk,
+	retrieveVaultChunks,
+} from "../../obsidian/vaultIndex";
+import {
+	imageAltText,
+	imageFileOfNode,
+	readImage,
+} from "../../obsidian/imageUtil";
+import { getResponse, streamResponse } from "../../utils/chatgpt";
+import {
+	getProviderConfig,
+	isProviderReady,
+	providerName,
+	providerSetupNotice,
+} from "../../openai/providers";
+import { chatModelByName } from "../../openai/models";
+import { estimateTokens, truncateToTokens } from "../../openai/usage";
+import { startGeneration } from "../../utils/generationControl";
 import { isGroup } from "../../utils/groupUtils";
+import {
+	ContextMessage,
+	contextMessage,
+	contextTokens,
+	toChatMessages,
+} from "../../utils/contextReview";
+import { reviewContext } from "../../Modals/ContextReviewModal";
+import {
+	ContextCandidate,
+	formatTranscript,
+	isNodePinned,
+	selectContext,
+} from "../../utils/contextStrategies";
+import {
+	RequestModelConfig,
+	getNodeModelConfig,
+	parseOverrideHeader,
+} from "../../utils/modelOverrides";
 // 新架构模块导入
 import { ChatMessage } from "../../utils/groupGeneration/groupStreamManager";
 // 导入新的 startRegeneration 函数
@@ -30,6 +73,19 @@ const assistantColor = "6";
  */
 const placeholderNoteHeight = 60;
 
+/**
+ * Largest summary of the ancestors left out of the context
+ */
+const SUMMARY_MAX_TOKENS = 1000;
+
+const SYSTEM_PROMPT_SUMMARIZE_CONTEXT = `
+Summarize the following conversation notes so they can replace them as context for a later question.
+Keep facts, decisions, names, numbers and open questions; drop pleasantries and repetition.
+Write the summary in the language of the notes.
+`.trim();
+
+const SUMMARY_MESSAGE_PREFIX = "Summary of earlier notes:";
+
 export const NOTE_MIN_HEIGHT = 400;
 export const NOTE_INCR_HEIGHT_STEP = 150;
 
@@ -45,8 +101,8 @@ export function noteGenerator(
 ) {
 	const canCallAI = () => {
 		// return true;
-		if (!settings.apiKey) {
-			new Notice("请在插件设置中设置 DeepSeek API 密钥");
+		if (!isProviderReady(settings)) {
+			new Notice(providerSetupNotice(settings));
 			return false;
 		}
 
@@ -63,12 +119,12 @@ export function noteGenerator(
 	const isSystemPromptNode = (text: string) =>
 		text.trim().startsWith("系统提示词");
 
-	const getSystemPrompt = async (node: CanvasNode) => {
+	const getSystemPrompt = async (node: CanvasNode, readText: NodeContentReader) => {
 		// TODO
 		let foundPrompt: string | null = null;
 
 		await visitNodeAndAncestors(node, async (n: CanvasNode) => {
-			const text = await readNodeContent(n);
+			const text = await readText(n);
 			if (text && isSystemPromptNode(text)) {
 				foundPrompt = text.replace("系统提示词", "").trim();
 				return false;
@@ -80,109 +136,300 @@ export function noteGenerator(
 		return foundPrompt || settings.systemPrompt;
 	};
 
+	/**
+	 * Text of the node and its ancestors up to `maxDepth`, nearest first,
+	 * then its neighbors and linked notes from the enabled context sources,
+	 * then pinned nodes of the canvas.
+	 * Image file nodes are read as images for vision models, as their caption otherwise.
+	 */
+	const collectCandidates = async (
+		node: CanvasNode,
+		vision: boolean,
+		readText: NodeContentReader
+	) => {
+		const candidates: ContextCandidate[] = [];
+		const visited = new Set<string>();
+		const sources = { ...DEFAULT_CONTEXT_SOURCES, ...settings.contextSources };
+		// Text nodes whose wikilinks are read
+		const linking: { text: string; depth: number }[] = [];
+
+		const readCandidate = async (
+			n: CanvasNode,
+			depth: number,
+			edgeLabel?: string,
+			source: ContextCandidate["source"] = "node"
+		) => {
+			visited.add(n.id);
+			const data = n.getData();
+			const role = data.chat_role === "assistant" ? "assistant" : "user";
+
+			const imageFile = imageFileOfNode(n);
+			if (imageFile) {
+				candidates.push({
+					nodeId: n.id,
+					role,
+					text: imageAltText(imageFile),
+					edgeLabel,
+					depth,
+					pinned: isNodePinned(n),
+					source,
+					// Chat APIs only take images in user messages
+					image:
+						vision && role === "user"
+							? await readImage(app, imageFile)
+							: undefined,
+				});
+				return;
+			}
+
+			// 模型覆盖头部只用于配置，不发送给 AI
+			const text = parseOverrideHeader(
+				(await readText(n))?.trim() || ""
+			).body.trim();
+			if (!text || isSystemPromptNode(text)) return;
+
+			candidates.push({
+				nodeId: n.id,
+				role,
+				text,
+				edgeLabel,
+				depth,
+				pinned: isNodePinned(n),
+				source,
+				path: data.type === "file" ? data.file : undefined,
+			});
+			if (sources.wikilinks && data.type === "text") {
+				linking.push({ text, depth });
+			}
+		};
+
+		await visitNodeAndAncestors(
+			node,
+			async (n: CanvasNode, depth: number, edgeLabel?: string) => {
+				if (settings.maxDepth && depth > settings.maxDepth) return false;
+				await readCandidate(n, depth, edgeLabel);
+				return true;
+			}
+		);
+
+		for (const neighbor of nodeNeighbors(node, sources)) {
+			if (!visited.has(neighbor.id)) {
+				await readCandidate(neighbor, 1, undefined, "related");
+			}
+		}
+
+		const sourcePath = app.workspace.getActiveFile()?.path || "";
+		const linked = new Set<string>();
+		for (const { text, depth } of linking) {
+			for (const note of await readLinkedNotes(app, text, sourcePath)) {
+				if (linked.has(note.link)) continue;
+				linked.add(note.link);
+				candidates.push({
+					role: "user",
+					text: note.content,
+					depth: depth + 1,
+					pinned: false,
+					source: "link",
+					path: note.path,
+				});
+			}
+		}
+
+		for (const n of node.canvas?.nodes?.values() || []) {
+			if (!visited.has(n.id) && isNodePinned(n)) {
+				await readCandidate(n, Infinity);
+			}
+		}
+
+		return candidates;
+	};
+
+	/**
+	 * Chunks of the vault's notes most relevant to the query, when the vault
+	 * index is enabled. Notes already in the context are left out. Added after
+	 * the other candidates, the nearest strategy only gives them the budget the
+	 * canvas leaves. Being the farthest, they are sent first, before the ancestors.
+	 */
+	const retrieveCandidates = async (
+		query: string,
+		candidates: ContextCandidate[]
+	): Promise<ContextCandidate[]> => {
+		const options = { ...DEFAULT_VAULT_INDEX_OPTIONS, ...settings.vaultIndex };
+		if (!options.enabled) return [];
+
+		const exclude = new Set(
+			candidates.flatMap((candidate) => (candidate.path ? [candidate.path] : []))
+		);
+		return (await retrieveVaultChunks(query, options.topK, exclude)).map((chunk) => ({
+			role: "user",
+			text: formatChunk(chunk.path, chunk),
+			depth: Infinity,
+			pinned: false,
+			source: "vault",
+		}));
+	};
+
+	/**
+	 * Summarize ancestors left out of the context, with the summary model.
+	 * Returns nothing when the request fails: the ancestors are then just left out.
+	 */
+	const summarizeCandidates = async (
+		candidates: ContextCandidate[],
+		requestConfig: RequestModelConfig,
+		maxTokens: number
+	) => {
+		if (!candidates.length || maxTokens <= 0) return;
+
+		const model = settings.contextSummaryModel?.trim() || requestConfig.model;
+		const transcript = truncateToTokens(
+			formatTranscript(candidates),
+			getTokenLimit(settings, { model, max_tokens: maxTokens }) -
+				estimateTokens(SYSTEM_PROMPT_SUMMARIZE_CONTEXT)
+		);
+
+		try {
+			const summary: string = await getResponse(
+				getProviderConfig(settings),
+				[
+					{ role: "system", content: SYSTEM_PROMPT_SUMMARIZE_CONTEXT },
+					{ role: "user", content: transcript },
+				],
+				{
+					model,
+					max_tokens: maxTokens,
+					temperature: 0,
+					action: "summarize-context",
+				}
+			);
+			return summary?.trim();
+		} catch (error: any) {
+			console.error("Failed to summarize the context:", error);
+			new Notice(
+				`较早的笔记摘要失败，已省略 ${candidates.length} 条笔记: ${error?.message || error}`
+			);
+		}
+	};
+
 	const buildMessages = async (
 		node: CanvasNode,
 		{
 			systemPrompt,
 			prompt,
+			modelConfig,
+			readText = nodeContentReader(),
 		}: {
 			systemPrompt?: string;
 			prompt?: string;
+			/**
+			 * Model the messages are sent to, for the token budget.
+			 * Resolved from the node overrides when omitted.
+			 */
+			modelConfig?: RequestModelConfig;
+			/**
+			 * Reader of the node texts, shared with the other reads of the request
+			 */
+			readText?: NodeContentReader;
 		} = {}
 	) => {
 		// return { messages: [], tokenCount: 0 };
 
-		// 使用通用编码来计算 token 数（与具体模型无关）
-		const encoding = getEncoding("cl100k_base");
-
-		const messages: any[] = [];
-		let tokenCount = 0;
+		const requestConfig =
+			modelConfig || (await getNodeModelConfig(settings, node));
+		const inputLimit = getTokenLimit(settings, requestConfig);
 
 		// 说明：这里不单独检查 system prompt 是否超过上下文窗口，正常使用下不会这么写
-		const systemPrompt2 = systemPrompt || (await getSystemPrompt(node));
-		if (systemPrompt2) {
-			tokenCount += encoding.encode(systemPrompt2).length;
-		}
-
-		const visit = async (
-			node: CanvasNode,
-			depth: number,
-			edgeLabel?: string
-		) => {
-			if (settings.maxDepth && depth > settings.maxDepth) return false;
-
-			const nodeData = node.getData();
-			let nodeText = (await readNodeContent(node))?.trim() || "";
-			const inputLimit = getTokenLimit(settings);
-
-			let shouldContinue = true;
-
-			if (nodeText) {
-				if (isSystemPromptNode(nodeText)) return true;
-
-				const nodeTokens = encoding.encode(nodeText);
-				let keptNodeTokens: number;
+		const systemPrompt2 = systemPrompt || (await getSystemPrompt(node, readText));
 
-				if (tokenCount + nodeTokens.length > inputLimit) {
-					// 将会超过模型允许的最大输入 token 数
-
-					shouldContinue = false;
+		const context: ContextMessage[] = [];
+		if (systemPrompt2)
+			context.push(
+				contextMessage({
+					role: "system",
+					content: systemPrompt2,
+					source: "system",
+					pinned: true,
+				})
+			);
 
-					// 预留 1 个 token 的安全余量，避免边界情况报错
-					const keepTokens = nodeTokens.slice(
-						0,
-						inputLimit - tokenCount - 1
-					);
-					const truncateTextTo = encoding.decode(keepTokens).length;
-					logDebug(
-						`Truncating node text from ${nodeText.length} to ${truncateTextTo} characters`
-					);
-					new Notice(
-						`节点文本从 ${nodeText.length} 截断至 ${truncateTextTo} 字符`
-					);
-					nodeText = nodeText.slice(0, truncateTextTo);
-					keptNodeTokens = keepTokens.length;
-				} else {
-					keptNodeTokens = nodeTokens.length;
-				}
+		const vision = !!chatModelByName(requestConfig.model, settings).vision;
+		const candidates = await collectCandidates(node, vision, readText);
+		const budget = inputLimit - contextTokens(context) - estimateTokens(prompt || "");
+		const strategy = settings.contextStrategy || "nearest";
+		const query = prompt || candidates.find((c) => c.depth === 0)?.text || "";
+		candidates.push(...(await retrieveCandidates(query, candidates)));
 
-				tokenCount += keptNodeTokens;
+		let selection = selectContext(candidates, budget, {
+			strategy: strategy === "relevance" ? "relevance" : "nearest",
+			query,
+		});
 
-				const role: any =
-					nodeData.chat_role === "assistant" ? "assistant" : "user";
+		if (strategy === "summarize" && selection.overflow.length) {
+			// 为摘要预留空间，放不下的祖先节点整体进入摘要
+			const summaryTokens = Math.min(
+				SUMMARY_MAX_TOKENS,
+				Math.floor(budget / 4)
+			);
+			selection = selectContext(candidates, budget - summaryTokens, {
+				truncate: false,
+			});
+			const summary = await summarizeCandidates(
+				selection.overflow,
+				requestConfig,
+				summaryTokens
+			);
+			if (summary)
+				context.push(
+					contextMessage({
+						role: "user",
+						content: `${SUMMARY_MESSAGE_PREFIX}\n\n${summary}`,
+						source: "summary",
+					})
+				);
+		}
 
-				if (edgeLabel) {
-					messages.unshift({
-						content: edgeLabel,
+		for (const candidate of selection.selected) {
+			if (candidate.truncatedFrom) {
+				logDebug(
+					`Truncating node text from ${candidate.truncatedFrom} to ${candidate.text.length} characters`
+				);
+				new Notice(
+					`节点文本从 ${candidate.truncatedFrom} 截断至 ${candidate.text.length} 字符`
+				);
+			}
+			context.push({
+				content: candidate.text,
+				role: candidate.role,
+				source: candidate.source || "node",
+				nodeId: candidate.nodeId,
+				tokens: candidate.tokens,
+				truncatedFrom: candidate.truncatedFrom,
+				pinned: candidate.pinned || undefined,
+				image: candidate.image,
+			});
+			if (candidate.edgeLabel) {
+				context.push(
+					contextMessage({
+						content: candidate.edgeLabel,
 						role: "user",
-					});
-				}
-				messages.unshift({
-					content: nodeText,
-					role,
-				});
+						source: "edge",
+					})
+				);
 			}
+		}
 
-			return shouldContinue;
-		};
-
-		await visitNodeAndAncestors(node, visit);
-
-		// if (messages.length) {
-		if (systemPrompt2)
-			messages.unshift({
-				role: "system",
-				content: systemPrompt2,
-			});
-		// }
+		const tokenCount = contextTokens(context);
 
 		if (prompt)
-			messages.push({
-				role: "user",
-				content: prompt,
-			});
+			context.push(
+				contextMessage({
+					role: "user",
+					content: prompt,
+					source: "prompt",
+					pinned: true,
+				})
+			);
 
-		return { messages, tokenCount };
+		return { messages: toChatMessages(context), context, tokenCount };
 	};
 
 	const generateNote = async (question?: string, edgeLabel?: string) => {
@@ -216,14 +463,19 @@ export function noteGenerator(
 			await canvas.requestSave();
 			await sleep(200);
 
-			const nodeContent = await readNodeContent(node);
+			// Each node is read once, e.g. a link node fetched once
+			const readText = nodeContentReader();
+			const nodeContent = await readText(node);
 
-			const { messages, tokenCount } = await buildMessages(node, {
+			const modelConfig = await getNodeModelConfig(settings, node);
+			let { context } = await buildMessages(node, {
 				prompt: question,
+				modelConfig,
+				readText,
 			});
 
 			// If no messages, try to use node content directly or use a default prompt
-			if (!messages.length) {
+			if (!context.length) {
 				const nodeText = nodeContent?.trim() || "";
 				if (!nodeText && !question) {
 					new Notice("所选笔记中未找到内容。请添加一些内容或提出问题。");
@@ -231,24 +483,57 @@ export function noteGenerator(
 				}
 				// If there's a question but no node content, use the question as the message
 				if (question) {
-					messages.push({
-						role: "user",
-						content: question,
-					});
+					context.push(
+						contextMessage({
+							role: "user",
+							content: question,
+							source: "prompt",
+						})
+					);
 				} else if (nodeText) {
-					messages.push({
-						role: "user",
-						content: nodeText,
-					});
+					context.push(
+						contextMessage({
+							role: "user",
+							content: nodeText,
+							source: "node",
+							nodeId: node.id,
+						})
+					);
 				}
 			}
 
+			// Regenerating a group passes the edge label on its own
+			const regeneratesGroup = !!toNode && isGroup(toNode);
+			// Add edge label to messages if provided (Requirement 5.3)
+			if (edgeLabel && !regeneratesGroup) {
+				context.push(
+					contextMessage({
+						role: "user",
+						content: edgeLabel,
+						source: "edge",
+					})
+				);
+			}
+
+			if (settings.reviewContext) {
+				const reviewed = await reviewContext(
+					app,
+					context,
+					getTokenLimit(settings, modelConfig)
+				);
+				if (!reviewed) return;
+				context = reviewed;
+			}
+			const messages = toChatMessages(context);
+
 			let created: CanvasNode;
+			// 重新生成已有节点时保存原文本，停止后可以恢复
+			let previousText: string | undefined;
 			if (!toNode) {
 				created = createNode(
 					canvas,
 					{
-						text: `\`\`\`正在调用 AI (${settings.apiModel})...\`\`\``,
+						text: `\`\`\`正在调用 AI (${modelConfig.model})...\`\`\``,
 						size: { height: placeholderNoteHeight },
 					},
 					node,
@@ -262,12 +547,12 @@ export function noteGenerator(
 			} else {
 				// 检测目标是否为组节点 - 路由到 startRegeneration 函数
 				// Requirements: 1.1 - 统一流式处理管道
-				if (isGroup(toNode)) {
+				if (regeneratesGroup) {
 					// 转换消息格式为 ChatMessage[]
 					// Requirements: 5.2 - 边缘标签包含在 AI 消息中
 					const chatMessages: ChatMessage[] = messages.map(m => ({
 						role: m.role,
-						content: m.content,
+						content: m.content || "",
 					}));
 
 					// 定义生命周期回调（用于调试和 UI 更新）
@@ -308,35 +593,24 @@ export function noteGenerator(
 
 				// Non-group node: use existing setText() logic
 				created = toNode;
+				previousText = created.text;
 				created.setText(
-					`\`\`\`正在调用 AI (${settings.apiModel})...\`\`\``
+					`\`\`\`正在调用 AI (${modelConfig.model})...\`\`\``
 				);
 			}
 
 			new Notice(
-				`正在向 DeepSeek AI 发送 ${messages.length} 条笔记（共 ${tokenCount} 个 token）`
+				`正在向 ${providerName(settings)} 发送 ${messages.length} 条笔记（共 ${contextTokens(context)} 个 token）`
 			);
 
-			// Add edge label to messages if provided (Requirement 5.3)
-			const messagesWithEdgeLabel = [...messages];
-			if (edgeLabel) {
-				messagesWithEdgeLabel.push({
-					role: "user",
-					content: edgeLabel,
-				});
-			}
+			const generation = startGeneration(created);
+			let firstDelta = true;
 
 			try {
-				let firstDelta = true;
-
 				await streamResponse(
-					settings.apiKey,
-					messagesWithEdgeLabel,
-					{
-						model: settings.apiModel,
-						max_tokens: settings.maxResponseTokens || undefined,
-						temperature: settings.temperature,
-					},
+					getProviderConfig(settings),
+					messages,
+					{ ...modelConfig, signal: generation.signal, action: "ask-ai" },
 					(chunk: string | null, error?: Error) => {
 						// Handle errors
 						if (error) {
@@ -405,12 +679,31 @@ export function noteGenerator(
 				);
 			} catch (error: any) {
 				const errorMessage = error?.message || error?.toString() || "Unknown error";
-				console.error("DeepSeek AI Error:", error);
-				logDebug("DeepSeek AI Error: " + errorMessage);
-				new Notice(`调用 DeepSeek AI 出错: ${errorMessage}`);
-				if (!toNode && created) {
-					canvas.removeNode(created);
+				console.error("AI Error:", error);
+				logDebug("AI Error: " + errorMessage);
+				new Notice(`调用 ${providerName(settings)} 出错: ${errorMessage}`);
+				// 已收到的部分内容保留在节点中，只回滚占位文本
+				if (firstDelta) {
+					if (toNode) {
+						created.setText(previousText || "");
+					} else if (created) {
+						canvas.removeNode(created);
+					}
 				}
+			} finally {
+				generation.finish();
+			}
+
+			if (generation.signal.aborted) {
+				// 未收到任何内容时只剩占位文本，始终回滚
+				if (settings.abortBehavior === "remove" || firstDelta) {
+					if (toNode) {
+						created.setText(previousText || "");
+					} else {
+						canvas.removeNode(created);
+					}
+				}
+				new Notice("已停止生成");
 			}
 
 			await canvas.requestSave();
@@ -421,13 +714,24 @@ export function noteGenerator(
 	return { generateNote, buildMessages };
 }
 
-export function getTokenLimit(settings: AugmentedCanvasSettings) {
-	const model =
-		chatModelByName(settings.apiModel) || CHAT_MODELS.DEEPSEEK_CHAT;
+/**
+ * Input token budget: the model's context window minus the room kept for
+ * the response, capped by the "max input tokens" setting
+ */
+export function getTokenLimit(
+	settings: AugmentedCanvasSettings,
+	{
+		model = settings.apiModel,
+		max_tokens = settings.maxResponseTokens,
+	}: Partial<RequestModelConfig> = {}
+) {
+	const modelInfo = chatModelByName(model, settings);
+	const reservedForResponse =
+		max_tokens || modelInfo.maxOutputTokens || 0;
+	const contextLimit = Math.max(modelInfo.tokenLimit - reservedForResponse, 1);
 	const tokenLimit = settings.maxInputTokens
-		? Math.min(settings.maxInputTokens, model.tokenLimit)
-		: model.tokenLimit;
+		? Math.min(settings.maxInputTokens, contextLimit)
+		: contextLimit;
 
-	// console.log({ settings, tokenLimit });
 	return tokenLimit;
 }
@@ -0,0 +1,152 @@
+import { App, Notice, normalizePath } from "obsidian";
+import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
+import { CanvasNode } from "../../obsidian/canvas-internal";
+import { visitNodeAndAncestors } from "../../obsidian/canvasUtil";
+import { readNodeContent } from "../../obsidian/fileUtil";
+import { getActiveCanvas } from "../../utils";
+import { isGroup } from "../../utils/groupUtils";
+import { parseOverrideHeader } from "../../utils/modelOverrides";
+import {
+	DEFAULT_BRANCH_EXPORT_OPTIONS,
+	ExportScope,
+	ExportedNode,
+	ExportedTree,
+	ExportedTurn,
+	branchToMarkdown,
+	exportFileName,
+	subtreeToMarkdown,
+	textTitle,
+} from "../../utils/branchExport";
+
+/**
+ * The one selected node that is not a group
+ */
+export const selectedExportNode = (app: App) => {
+	const canvas = getActiveCanvas(app);
+	if (canvas?.selection.size !== 1) return undefined;
+	const node = Array.from(canvas.selection)[0] as CanvasNode;
+	return isGroup(node) ? undefined : node;
+};
+
+/**
+ * Content of a node as written in the note: files embedded, links as links,
+ * without the model override header
+ */
+const exportedNode = async (node: CanvasNode): Promise<ExportedNode> => {
+	const data = node.getData();
+	const text =
+		data.type === "file"
+			? `![[${data.file}${data.subpath || ""}]]`
+			: data.type === "link"
+				? `[${data.url}](${data.url})`
+				: parseOverrideHeader((await readNodeContent(node)) || "").body;
+	return {
+		text,
+		role: data.chat_role === "assistant" ? "assistant" : "user",
+		color: data.color,
+	};
+};
+
+/**
+ * The node and its ancestors, oldest first. Each turn keeps the label of the
+ * edge to the turn after it.
+ */
+const readBranch = async (node: CanvasNode) => {
+	const turns: (ExportedTurn & { depth: number })[] = [];
+	await visitNodeAndAncestors(
+		node,
+		async (n: CanvasNode, depth: number, edgeLabel?: string) => {
+			if (!isGroup(n)) {
+				turns.push({ ...(await exportedNode(n)), edgeLabel, depth });
+			}
+			return true;
+		}
+	);
+	// Stable sort: ancestors at the same depth keep their left-to-right order
+	return turns.sort((a, b) => b.depth - a.depth);
+};
+
+/**
+ * The node and every node below it, children ordered top to bottom, then
+ * left to right. A node reached twice is exported under its first parent.
+ */
+const readSubtree = async (
+	node: CanvasNode,
+	visited = new Set<string>(),
+	edgeLabel?: string
+): Promise<ExportedTree> => {
+	visited.add(node.id);
+	const children = node.canvas
+		.getEdgesForNode(node)
+		.filter((edge) => edge.from.node.id === node.id && !visited.has(edge.to.node.id))
+		.sort((a, b) => a.to.node.y - b.to.node.y || a.to.node.x - b.to.node.x);
+
+	const tree: ExportedTree = { ...(await exportedNode(node)), edgeLabel, children: [] };
+	for (const edge of children) {
+		if (visited.has(edge.to.node.id) || isGroup(edge.to.node)) continue;
+		// @ts-expect-error - edge.label 是内部属性
+		tree.children.push(await readSubtree(edge.to.node, visited, edge.label));
+	}
+	return tree;
+};
+
+/**
+ * First path of the folder that no file uses yet
+ */
+const availablePath = (app: App, folder: string, name: string) => {
+	const prefix = folder && folder !== "/" ? `${folder}/` : "";
+	let path = normalizePath(`${prefix}${name}.md`);
+	for (let index = 1; app.vault.getAbstractFileByPath(path); index++) {
+		path = normalizePath(`${prefix}${name} ${index}.md`);
+	}
+	return path;
+};
+
+/**
+ * Write the conversation leading to the selected node, or everything below
+ * it, to a new note and open it
+ */
+export const exportBranch = async (
+	app: App,
+	settings: AugmentedCanvasSettings,
+	scope: ExportScope
+) => {
+	const node = selectedExportNode(app);
+	if (!node) {
+		new Notice("请选择一张卡片");
+		return;
+	}
+
+	const options = { ...DEFAULT_BRANCH_EXPORT_OPTIONS, ...settings.branchExport };
+	let markdown: string;
+	let title: string;
+	if (scope === "branch") {
+		const turns = await readBranch(node);
+		markdown = branchToMarkdown(turns, options);
+		title = textTitle(turns[0]?.text || "");
+	} else {
+		const tree = await readSubtree(node);
+		markdown = subtreeToMarkdown(tree, options);
+		title = textTitle(tree.text);
+	}
+
+	const folder = normalizePath(
+		options.folder.trim() || app.workspace.getActiveFile()?.parent?.path || "/"
+	);
+	try {
+		if (folder !== "/" && !app.vault.getAbstractFileByPath(folder)) {
+			await app.vault.createFolder(folder);
+		}
+		const path = availablePath(
+			app,
+			folder,
+			exportFileName(title || app.workspace.getActiveFile()?.basename || "")
+		);
+		const file = await app.vault.create(path, markdown);
+		new Notice(`已导出到 "${path}"`);
+		await app.workspace.getLeaf("tab").openFile(file);
+	} catch (error) {
+		console.error("Failed to export the canvas branch:", error);
+		new Notice(`导出失败: ${error?.message || error}`);
+	}
+};
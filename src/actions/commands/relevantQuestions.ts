@@ -1,57 +1,373 @@
-import { App, Notice } from "obsidian";
+import { App, Notice, TFile } from "obsidian";
 import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
-import { getFilesContent } from "../../obsidian/fileUtil";
-import { getResponse } from "../../utils/chatgpt";
-import { createCanvasGroup } from "../../utils";
+import { readFileContent, readNodeContent } from "../../obsidian/fileUtil";
+import { getStructuredResponse } from "../../utils/chatgpt";
+import { getProviderConfig } from "../../openai/providers";
+import { canvasNodeIsNote, getActiveCanvas, randomHexString } from "../../utils";
+import { Canvas, CanvasNode } from "../../obsidian/canvas-internal";
+import { createErrorNode, determineEdgeSides } from "../../obsidian/canvas-patches";
+import { JSONSchema } from "../../utils/structuredOutput";
+import { bm25Scores } from "../../utils/textRelevance";
+import { getGroupLabel, isGroup, readGroupContent } from "../../utils/groupUtils";
+import {
+	Rect,
+	analyzeBestDirection,
+	calculatePositionInDirection,
+	getLayoutPreferences,
+} from "../../utils/spatialAnalyzer";
+import {
+	DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+	QuestionSource,
+	RelevantQuestion,
+	RelevantQuestionsOptions,
+	formatQuestionSources,
+	matchQuestionSources,
+	questionsGroupLayout,
+} from "../../utils/relevantQuestions";
+import {
+	DEFAULT_VAULT_INDEX_OPTIONS,
+	formatChunk,
+	retrieveVaultChunks,
+} from "../../obsidian/vaultIndex";
 
-const RELEVANT_QUESTION_SYSTEM_PROMPT = `
-There must be 6 questions.
+const relevantQuestionsPrompt = (count: number) =>
+	`
+There must be ${count} questions.
 
 You must respond in this JSON format: {
-	"questions": The questions
+	"questions": {
+		"question": The question,
+		"sources": The headings of the sources the question comes from, as written in the user input
+	}[]
 }
 
 You must respond in the language the user used.
 `.trim();
 
+const RELEVANT_QUESTIONS_SCHEMA: JSONSchema = {
+	type: "object",
+	properties: {
+		questions: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					question: { type: "string" },
+					sources: { type: "array", items: { type: "string" } },
+				},
+				required: ["question"],
+			},
+			minItems: 1,
+		},
+	},
+	required: ["questions"],
+};
+
+/**
+ * Selected nodes without the selected edges
+ */
+const selectedNodes = (canvas: Canvas) =>
+	(Array.from(canvas.selection) as CanvasNode[]).filter(canvasNodeIsNote);
+
+/**
+ * Selected nodes, or every node when none is selected
+ */
+const canvasNodes = (canvas: Canvas) => {
+	const selection = selectedNodes(canvas);
+	return selection.length ? selection : (Array.from(canvas.nodes.values()) as CanvasNode[]);
+};
+
+/**
+ * Text of the selected nodes, or of every node when none is selected
+ */
+const canvasText = (canvas: Canvas) =>
+	canvasNodes(canvas)
+		.map((node) => {
+			const data = node.getData();
+			return data.type === "text" ? data.text : data.file || data.label || "";
+		})
+		.filter(Boolean)
+		.join("\n\n");
+
+const noteSources = async (app: App, files: TFile[]): Promise<QuestionSource[]> =>
+	Promise.all(
+		files.map(async (file) => ({
+			title: file.path,
+			text: await readFileContent(app, file),
+			path: file.path,
+		}))
+	);
+
+const byModificationTime = (files: TFile[]) =>
+	files.sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+/**
+ * Notes read to search without the vault index, the most recently modified
+ */
+const MAX_SEARCHED_NOTES = 500;
+
+/**
+ * Nodes of the canvas, titled with their note, group label or position
+ */
+const canvasSources = async (canvas: Canvas): Promise<QuestionSource[]> => {
+	const sources: QuestionSource[] = [];
+	for (const node of canvasNodes(canvas)) {
+		const data = node.getData();
+		const text = isGroup(node)
+			? await readGroupContent(node)
+			: await readNodeContent(node);
+		if (!text?.trim()) continue;
+		sources.push({
+			title:
+				data.type === "file"
+					? data.file
+					: isGroup(node)
+						? getGroupLabel(node)
+						: `Card ${sources.length + 1}`,
+			text,
+			path: data.type === "file" ? data.file : undefined,
+			nodeId: node.id,
+		});
+	}
+	return sources;
+};
+
+/**
+ * Notes matching the query: the chunks ranked by the vault index when it is
+ * enabled, otherwise the `MAX_SEARCHED_NOTES` most recent notes ranked with BM25
+ */
+const searchSources = async (
+	app: App,
+	settings: AugmentedCanvasSettings,
+	query: string,
+	limit: number
+): Promise<QuestionSource[]> => {
+	const index = { ...DEFAULT_VAULT_INDEX_OPTIONS, ...settings.vaultIndex };
+	if (index.enabled) {
+		const chunks = await retrieveVaultChunks(query, Math.max(index.topK, limit));
+		const byPath = new Map<string, string[]>();
+		chunks.forEach((chunk) =>
+			byPath.set(chunk.path, [...(byPath.get(chunk.path) || []), formatChunk(chunk.path, chunk)])
+		);
+		return Array.from(byPath.entries())
+			.slice(0, limit)
+			.map(([path, texts]) => ({ title: path, text: texts.join("\n\n"), path }));
+	}
+
+	const files = byModificationTime(app.vault.getMarkdownFiles()).slice(0, MAX_SEARCHED_NOTES);
+	const contents = await Promise.all(files.map((file) => app.vault.cachedRead(file)));
+	const scores = bm25Scores(
+		query,
+		files.map((file, index) => `${file.path}\n${contents[index]}`)
+	);
+	const matches = files
+		.map((file, index) => ({ file, score: scores[index] }))
+		.filter((match) => match.score > 0)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+		.map((match) => match.file);
+	return noteSources(app, matches);
+};
+
+/**
+ * Notes or nodes the questions are asked about
+ */
+const readSources = async (
+	app: App,
+	settings: AugmentedCanvasSettings,
+	options: RelevantQuestionsOptions
+): Promise<QuestionSource[]> => {
+	const canvas = getActiveCanvas(app);
+	const limit = settings.insertRelevantQuestionsFilesCount;
+
+	switch (options.source) {
+	case "canvas":
+		return canvas ? canvasSources(canvas) : [];
+	case "folder": {
+		const folder = app.workspace.getActiveFile()?.parent?.path || "/";
+		const files = app.vault
+			.getMarkdownFiles()
+			.filter((file) => folder === "/" || file.path.startsWith(`${folder}/`));
+		return noteSources(app, byModificationTime(files).slice(0, limit));
+	}
+	case "search": {
+		const query = options.query.trim() || (canvas ? canvasText(canvas) : "");
+		return query ? searchSources(app, settings, query, limit) : [];
+	}
+	default:
+		return noteSources(
+			app,
+			byModificationTime(app.vault.getMarkdownFiles()).slice(0, limit)
+		);
+	}
+};
+
 export const handleAddRelevantQuestions = async (
 	app: App,
 	settings: AugmentedCanvasSettings
 ) => {
-	new Notice("正在生成相关问题...");
+	const canvas = getActiveCanvas(app);
+	if (!canvas) return;
 
-	const files = await app.vault.getMarkdownFiles();
+	const options = {
+		...DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+		...settings.relevantQuestions,
+	};
+	// Nodes the questions are placed next to, before reading changes anything
+	const selection = selectedNodes(canvas);
+	const sources = await readSources(app, settings, options);
+	if (!sources.length) {
+		new Notice("没有找到可用于生成相关问题的笔记");
+		return;
+	}
 
-	const sortedFiles = files.sort((a, b) => b.stat.mtime - a.stat.mtime);
-
-	const actualFiles = sortedFiles.slice(
-		0,
-		settings.insertRelevantQuestionsFilesCount
-	);
-	console.log({ actualFiles });
-
-	const filesContent = await getFilesContent(app, actualFiles);
+	new Notice("正在生成相关问题...");
 
-	const gptResponse = await getResponse(
-		settings.apiKey,
-		[
-			{
-				role: "system",
-				content: `
+	let questions: RelevantQuestion[];
+	try {
+		({ questions } = await getStructuredResponse<{ questions: RelevantQuestion[] }>(
+			getProviderConfig(settings),
+			[
+				{
+					role: "system",
+					content: `
 ${settings.relevantQuestionsSystemPrompt}
-${RELEVANT_QUESTION_SYSTEM_PROMPT}
+${relevantQuestionsPrompt(options.count)}
 `,
-			},
+				},
+				{
+					role: "user",
+					content: formatQuestionSources(sources),
+				},
+			],
+			RELEVANT_QUESTIONS_SCHEMA,
 			{
-				role: "user",
-				content: filesContent,
-			},
-		],
-		{ isJSON: true }
-	);
-	// console.log({ gptResponse });
+				model: settings.apiModel,
+				max_tokens: settings.maxResponseTokens || undefined,
+				temperature: settings.temperature,
+				action: "relevant-questions",
+			}
+		));
+	} catch (error) {
+		console.error("Failed to generate relevant questions:", error);
+		new Notice(`相关问题生成失败: ${error?.message || error}`);
+		createErrorNode(canvas, "相关问题生成失败", error);
+		return;
+	}
 
-	await createCanvasGroup(app, "相关问题", gptResponse.questions);
+	placeQuestions(canvas, selection, questions.slice(0, options.count), sources, settings);
 
 	new Notice("相关问题生成成功。");
 };
+
+/**
+ * Rectangle around the nodes
+ */
+const boundingRect = (nodes: Rect[]): Rect => {
+	const x = Math.min(...nodes.map((node) => node.x));
+	const y = Math.min(...nodes.map((node) => node.y));
+	return {
+		x,
+		y,
+		width: Math.max(...nodes.map((node) => node.x + node.width)) - x,
+		height: Math.max(...nodes.map((node) => node.y + node.height)) - y,
+	};
+};
+
+/**
+ * Add the questions as a group next to the selection, on the side with the
+ * most room, or in the middle of the view without a selection. Each question
+ * is linked to the nodes of the notes it comes from; the cited notes not on
+ * the canvas are added to the group as file nodes.
+ */
+const placeQuestions = (
+	canvas: Canvas,
+	selection: CanvasNode[],
+	questions: RelevantQuestion[],
+	sources: QuestionSource[],
+	settings: AugmentedCanvasSettings
+) => {
+	const data = canvas.getData();
+	const cited = questions.map((question) => matchQuestionSources(question, sources));
+
+	// Node of each cited source: the node it was read from, the file node of
+	// its note, or a new file node in the group
+	const sourceNodes = new Map<QuestionSource, string>();
+	const added: QuestionSource[] = [];
+	for (const source of new Set(cited.flat())) {
+		const existing =
+			source.nodeId ||
+			data.nodes.find((node) => node.type === "file" && node.file === source.path)?.id;
+		if (existing) {
+			sourceNodes.set(source, existing);
+		} else if (source.path) {
+			sourceNodes.set(source, randomHexString(16));
+			added.push(source);
+		}
+	}
+
+	const layout = questionsGroupLayout(questions.length, added.length, {
+		padding: settings.groupPadding,
+		gap: settings.groupNodeSpacing,
+	});
+	const size = { width: layout.width, height: layout.height };
+
+	let position: { x: number; y: number };
+	if (selection.length) {
+		const anchor = {
+			id: "",
+			...boundingRect(selection),
+		} as CanvasNode;
+		const preferences = getLayoutPreferences(settings);
+		const [best] = analyzeBestDirection(canvas, anchor, preferences);
+		position = calculatePositionInDirection(
+			anchor,
+			best.direction,
+			size,
+			preferences.minNodeSpacing
+		);
+	} else {
+		position = {
+			// @ts-expect-error - canvas.x 是内部属性
+			x: canvas.x - size.width / 2,
+			// @ts-expect-error - canvas.y 是内部属性
+			y: canvas.y - size.height / 2,
+		};
+	}
+
+	const rects = new Map<string, Rect>(
+		data.nodes.map((node) => [node.id, node] as [string, Rect])
+	);
+	const nodes: object[] = [];
+	added.forEach((source, index) => {
+		const rect = layout.sources[index];
+		const id = sourceNodes.get(source)!;
+		const node = { ...rect, x: position.x + rect.x, y: position.y + rect.y };
+		rects.set(id, node);
+		nodes.push({ id, type: "file", file: source.path, ...node });
+	});
+
+	const edges: object[] = [];
+	questions.forEach((question, index) => {
+		const rect = layout.questions[index];
+		const id = randomHexString(16);
+		const node = { ...rect, x: position.x + rect.x, y: position.y + rect.y };
+		nodes.push({ id, type: "text", text: question.question, ...node });
+
+		for (const source of cited[index]) {
+			const from = sourceNodes.get(source);
+			const fromRect = from && rects.get(from);
+			if (!fromRect) continue;
+			const { fromSide, toSide } = determineEdgeSides(fromRect, node);
+			edges.push({ id: randomHexString(16), fromNode: from, fromSide, toNode: id, toSide });
+		}
+	});
+
+	const group = { id: randomHexString(16), type: "group", label: "相关问题", ...position, ...size };
+	canvas.importData({
+		// Groups go before their nodes so they are drawn behind them
+		nodes: [...data.nodes, group, ...nodes],
+		edges: [...data.edges, ...edges],
+	});
+	canvas.requestSave();
+};
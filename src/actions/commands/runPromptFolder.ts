@@ -1,27 +1,129 @@
-import { App, Notice, TFolder } from "obsidian";
+import { App, Notice, TFile, TFolder } from "obsidian";
 import { ChatCompletionMessageParam } from "openai/resources";
-import { calcHeight, createNode } from "src/obsidian/canvas-patches";
+import { addEdge, calcHeight, createNode } from "src/obsidian/canvas-patches";
 import {
 	AugmentedCanvasSettings,
 	SystemPrompt,
 } from "src/settings/AugmentedCanvasSettings";
-import { getActiveCanvas } from "src/utils";
-import { streamResponse } from "src/utils/chatgpt";
+import { getActiveCanvas, randomHexString } from "src/utils";
+import { getResponse, streamResponse } from "src/utils/chatgpt";
+import { getProviderConfig, providerName } from "src/openai/providers";
 import {
 	NOTE_INCR_HEIGHT_STEP,
 	NOTE_MIN_HEIGHT,
+	getTokenLimit,
 } from "../canvasNodeMenuActions/noteGenerator";
-import { readFolderMarkdownContent } from "src/obsidian/fileUtil";
+import { cachedReadFile, listFolderFiles } from "src/obsidian/fileUtil";
+import { startGeneration } from "src/utils/generationControl";
+import { estimateTokens } from "src/openai/usage";
+import {
+	DEFAULT_FOLDER_PROMPT_OPTIONS,
+	FolderDocument,
+	FolderPlan,
+	FolderPromptOptions,
+	folderDocument,
+	formatDocuments,
+	mapMessages,
+	reduceMessages,
+} from "src/utils/folderPrompt";
+import { FolderPromptModal } from "src/Modals/FolderPromptModal";
+import {
+	FolderResultsLayout,
+	RESULT_NODE_WIDTH,
+	SYNTHESIS_NODE_WIDTH,
+} from "src/utils/folderResultsLayout";
+import { createConfigFromSettings } from "src/utils/groupGeneration/config";
+import { Canvas, CanvasNode } from "src/obsidian/canvas-internal";
+import { BudgetExceededError } from "src/utils/usageLedger";
+
+/**
+ * Room left in each request for the instructions added to the system prompt
+ * in map-reduce runs
+ */
+const PROMPT_OVERHEAD_TOKENS = 100;
+
+/**
+ * Input tokens left for the files of one request
+ */
+const folderBudget = (
+	settings: AugmentedCanvasSettings,
+	systemPrompt: SystemPrompt,
+	options: FolderPromptOptions
+) => {
+	const limit = getTokenLimit(settings);
+	const maxTokens = options.maxTokens ? Math.min(options.maxTokens, limit) : limit;
+	return Math.max(
+		maxTokens - estimateTokens(systemPrompt.prompt) - PROMPT_OVERHEAD_TOKENS,
+		1
+	);
+};
 
+/**
+ * Preview the files of a folder prompt, then run it.
+ * The options chosen in the preview are kept for the next run.
+ */
 export const runPromptFolder = async (
 	app: App,
 	settings: AugmentedCanvasSettings,
 	systemPrompt: SystemPrompt,
-	folder: TFolder
+	folder: TFolder,
+	saveSettings: () => Promise<void>
+) => {
+	const files = listFolderFiles(folder);
+	if (!files.length) {
+		new Notice("文件夹中没有文件");
+		return;
+	}
+
+	const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+	const byPath = new Map(files.map((file) => [file.path.slice(prefix.length), file]));
+	const listed = new Set(files.map((file) => file.path));
+
+	new FolderPromptModal(
+		app,
+		{
+			folderPath: folder.path,
+			promptName: systemPrompt.act,
+			paths: Array.from(byPath.keys()),
+			options: { ...DEFAULT_FOLDER_PROMPT_OPTIONS, ...settings.folderPrompt },
+			budget: (options) => folderBudget(settings, systemPrompt, options),
+			readDocument: async (path) => {
+				const file = byPath.get(path)!;
+				return folderDocument(file.path, await cachedReadFile(app, file, listed));
+			},
+		},
+		async (result) => {
+			if (!result) return;
+			settings.folderPrompt = result.options;
+			await saveSettings();
+			await runFolderPlan(app, settings, systemPrompt, result.plan, result.options);
+		}
+	).open();
+};
+
+const runFolderPlan = async (
+	app: App,
+	settings: AugmentedCanvasSettings,
+	systemPrompt: SystemPrompt,
+	plan: FolderPlan,
+	options: FolderPromptOptions
 ) => {
 	const canvas = getActiveCanvas(app);
 	if (!canvas) return;
 
+	// 每个文件一个结果节点时，结果放在 Group 中，汇总节点在其右侧
+	const layout =
+		options.mode === "per-file"
+			? new FolderResultsLayout(
+				// @ts-expect-error - canvas.x is not in the typings
+				canvas.x - RESULT_NODE_WIDTH - settings.gridNodeWidth,
+				// @ts-expect-error - canvas.y is not in the typings
+				canvas.y - 300,
+				createConfigFromSettings(settings)
+			)
+			: undefined;
+	const group = layout && (await createResultsGroup(canvas, layout, plan));
+
 	// 结果节点的初始宽高
 	const NODE_WIDTH = 800;
 	const NODE_HEIGHT = 300;
@@ -46,30 +148,127 @@ export const runPromptFolder = async (
 		focus: false,
 	});
 	// canvas.menu.menuEl.append(new MenuItem())
+	if (layout) {
+		created.moveAndResize({
+			...layout.synthesisPosition(),
+			width: SYNTHESIS_NODE_WIDTH,
+			height: created.height,
+		});
+	}
 
-	// 读取目标文件夹下所有 Markdown 内容，拼接为一个大输入
-	const folderContentText = await readFolderMarkdownContent(app, folder);
-
-	// 构建系统提示 + 用户输入（文件夹内容）消息
-	const messages: ChatCompletionMessageParam[] = [
-		{
-			role: "system",
-			content: systemPrompt.prompt,
-		},
-		{
-			role: "user",
-			content: folderContentText,
-		},
-	];
+	const setPlaceholder = (placeholder: string) => {
+		created.setText(placeholder);
+		created.moveAndResize({
+			height: calcHeight({ text: placeholder }),
+			width: created.width,
+			x: created.x,
+			y: created.y,
+		});
+	};
 
+	const generation = startGeneration(created);
 	let firstDelta = true;
+	// Row of the file being analyzed, removed when the run fails or stops
+	let row: ReturnType<typeof addResultRow> | undefined;
+	// Rows of the files analyzed, failed ones included
+	const rows: ReturnType<typeof addResultRow>[] = [];
+	/**
+	 * After a stop or an error ending the run: drop the row in progress, then
+	 * the rows already created as the abort setting says, and the group
+	 * once it has no rows
+	 */
+	const cleanUpRows = () => {
+		row?.remove();
+		if (!group) return;
+		if (settings.abortBehavior === "remove") {
+			rows.forEach((done) => done.remove());
+			rows.length = 0;
+		}
+		if (!rows.length) canvas.removeNode(group);
+	};
 	try {
+		let messages: ChatCompletionMessageParam[];
+		if (plan.batches.length === 1 && !layout) {
+			// 构建系统提示 + 用户输入（文件夹内容）消息
+			messages = [
+				{
+					role: "system",
+					content: systemPrompt.prompt,
+				},
+				{
+					role: "user",
+					content: formatDocuments(plan.batches[0]),
+				},
+			];
+		} else {
+			// 分批处理，每批的回答最后汇总为一个回答
+			const answers: string[] = [];
+			// Files of the answers, in per-file runs
+			const answered: string[] = [];
+			for (const [index, batch] of plan.batches.entries()) {
+				const progress = layout
+					? `正在分析第 ${index + 1}/${plan.batches.length} 个文件`
+					: `正在处理第 ${index + 1}/${plan.batches.length} 批文件`;
+				setPlaceholder(`\`\`\`${progress} (${settings.apiModel})...\`\`\``);
+				row =
+					layout && group
+						? addResultRow(app, canvas, layout, group, created, batch[0], index)
+						: undefined;
+				let answer: string;
+				try {
+					answer = await getResponse(
+						getProviderConfig(settings),
+						mapMessages(systemPrompt.prompt, batch, index, plan.batches.length),
+						{
+							model: settings.apiModel,
+							max_tokens: settings.maxResponseTokens || undefined,
+							signal: generation.signal,
+							action: "folder-prompt",
+						}
+					);
+				} catch (error) {
+					// 单个文件失败时标记该行并继续，停止生成和超出预算时结束整个任务
+					if (
+						!row ||
+						generation.signal.aborted ||
+						error instanceof BudgetExceededError
+					) {
+						throw error;
+					}
+					console.error(`Failed to analyze ${batch[0].path}:`, error);
+					row.fail(error?.message || String(error));
+					rows.push(row);
+					row = undefined;
+					continue;
+				}
+				answers.push(answer?.trim() || "");
+				answered.push(batch[0].path);
+				if (row) {
+					row.finish(answers[answers.length - 1]);
+					rows.push(row);
+					row = undefined;
+				}
+			}
+			if (!answers.length) {
+				throw new Error("所有文件都分析失败");
+			}
+			setPlaceholder(`\`\`\`正在汇总 ${answers.length} 批结果 (${settings.apiModel})...\`\`\``);
+			messages = reduceMessages(
+				systemPrompt.prompt,
+				answers,
+				folderBudget(settings, systemPrompt, options),
+				layout ? answered : []
+			);
+		}
+
 		await streamResponse(
-			settings.apiKey,
+			getProviderConfig(settings),
 			messages,
 			{
 				model: settings.apiModel,
 				max_tokens: settings.maxResponseTokens || undefined,
+				signal: generation.signal,
+				action: "folder-prompt",
 			},
 			(chunk: string | null, error?: Error) => {
 				// Handle errors
@@ -111,11 +310,133 @@ export const runPromptFolder = async (
 			}
 		);
 	} catch (error: any) {
+		cleanUpRows();
+		if (generation.signal.aborted) {
+			canvas.removeNode(created);
+			new Notice("已停止生成");
+			canvas.requestSave();
+			return;
+		}
 		const errorMessage = error?.message || error?.toString() || "Unknown error";
-		new Notice(`Error calling DeepSeek AI: ${errorMessage}`);
-		canvas.removeNode(created);
+		new Notice(`Error calling ${providerName(settings)}: ${errorMessage}`);
+		// 保留已收到的部分内容，只删除仍是占位文本的节点
+		if (firstDelta) {
+			canvas.removeNode(created);
+			return;
+		}
+		canvas.requestSave();
 		return;
+	} finally {
+		generation.finish();
+	}
+
+	if (generation.signal.aborted) {
+		// 未收到任何内容时只剩占位文本，始终删除
+		if (settings.abortBehavior === "remove" || firstDelta) {
+			canvas.removeNode(created);
+		}
+		cleanUpRows();
+		new Notice("已停止生成");
 	}
 
 	canvas.requestSave();
 };
+
+/**
+ * Group holding the per-file results, labelled with the number of files
+ */
+const createResultsGroup = async (
+	canvas: Canvas,
+	layout: FolderResultsLayout,
+	plan: FolderPlan
+) => {
+	const id = randomHexString(16);
+	const data = canvas.getData();
+	canvas.importData({
+		nodes: [
+			...data.nodes,
+			{
+				id,
+				type: "group",
+				label: `${plan.batches.length} 个文件的分析结果`,
+				...layout.groupBounds(),
+			},
+		],
+		edges: data.edges,
+	});
+	await canvas.requestFrame();
+	return canvas.nodes.get(id);
+};
+
+/**
+ * Add the row of a file: its file node connected to a result node, itself
+ * connected to the synthesis node. `finish` fills the result and lays out the row.
+ */
+const addResultRow = (
+	app: App,
+	canvas: Canvas,
+	layout: FolderResultsLayout,
+	group: CanvasNode,
+	synthesis: CanvasNode,
+	document: FolderDocument,
+	row: number
+) => {
+	const placeholder = "```正在分析...```";
+	const position = layout.rowPosition(row);
+	const placeholderHeight = calcHeight({ text: placeholder });
+
+	const file = app.vault.getAbstractFileByPath(document.path);
+	const source =
+		file instanceof TFile
+			? createNode(canvas, { type: "file", file })
+			: createNode(canvas, { text: `[[${document.path}]]` });
+	const result = createNode(canvas, { text: placeholder });
+	source.moveAndResize({
+		...position.source,
+		width: layout.config.nodeWidth,
+		height: placeholderHeight,
+	});
+	result.moveAndResize({
+		...position.result,
+		width: RESULT_NODE_WIDTH,
+		height: placeholderHeight,
+	});
+
+	const connect = (from: CanvasNode, to: CanvasNode) =>
+		addEdge(
+			canvas,
+			randomHexString(16),
+			{ fromOrTo: "from", side: "right", node: from },
+			{ fromOrTo: "to", side: "left", node: to },
+			undefined,
+			{ isGenerated: true }
+		);
+	connect(source, result);
+	connect(result, synthesis);
+
+	const finish = (answer: string) => {
+		result.setText(answer);
+		const boxes = layout.addRow(
+			row,
+			Math.max(calcHeight({ text: answer }), NOTE_MIN_HEIGHT / 2)
+		);
+		source.moveAndResize(boxes.source);
+		result.moveAndResize(boxes.result);
+		group.moveAndResize(layout.groupBounds());
+	};
+
+	return {
+		remove: () => {
+			canvas.removeNode(source);
+			canvas.removeNode(result);
+		},
+		finish,
+		/**
+		 * Show the error in the result node, left out of the synthesis
+		 */
+		fail: (message: string) => {
+			result.setData({ ...result.getData(), color: "1" });
+			finish(`> [!error] 分析失败\n> ${message}`);
+		},
+	};
+};
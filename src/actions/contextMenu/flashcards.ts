@@ -1,9 +1,30 @@
-import { App, Notice } from "obsidian";
-import { CanvasNode } from "../../obsidian/canvas-internal";
-import { getActiveCanvas } from "../../utils";
+import { App, Notice, TFile, normalizePath } from "obsidian";
+import { Canvas, CanvasNode } from "../../obsidian/canvas-internal";
+import { calcHeight, createErrorNode } from "../../obsidian/canvas-patches";
+import { canvasNodeIsNote, getActiveCanvas, randomHexString } from "../../utils";
 import { readNodeContent } from "../../obsidian/fileUtil";
 import { AugmentedCanvasSettings } from "../../settings/AugmentedCanvasSettings";
-import { getResponse } from "../../utils/chatgpt";
+import { getStructuredResponse } from "../../utils/chatgpt";
+import { JSONSchema } from "../../utils/structuredOutput";
+import { getProviderConfig } from "../../openai/providers";
+import { estimateTokens } from "../../openai/usage";
+import { getGroupLabel, isGroup, readGroupContent } from "../../utils/groupUtils";
+import { getTokenLimit } from "../canvasNodeMenuActions/noteGenerator";
+import {
+	DEFAULT_FLASHCARD_OPTIONS,
+	FLASHCARD_TYPE_INSTRUCTIONS,
+	Flashcard,
+	FlashcardType,
+	appendFlashcards,
+	flashcardBatches,
+	flashcardFileExtension,
+	flashcardFileName,
+	flashcardSides,
+	formatFlashcards,
+	newFlashcards,
+	parseFlashcardFile,
+	parseFlashcards,
+} from "../../utils/flashcardFormats";
 
 const FLASHCARDS_SYSTEM_PROMPT = `
 You must respond in this JSON format: {
@@ -17,6 +38,61 @@ You must respond in this JSON format: {
 You must respond in the language the user used, default to english.
 `.trim();
 
+const FLASHCARDS_SCHEMA: JSONSchema = {
+	type: "object",
+	properties: {
+		filename: { type: "string" },
+		flashcards: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { front: { type: "string" }, back: { type: "string" } },
+				required: ["front", "back"],
+			},
+		},
+	},
+	required: ["flashcards"],
+};
+
+/**
+ * Room left in each request for the JSON of the answer format
+ */
+const PROMPT_OVERHEAD_TOKENS = 100;
+
+/**
+ * Width of the question and answer nodes placed on the canvas
+ */
+const CARD_NODE_WIDTH = 400;
+
+/**
+ * Text of the selected nodes, groups read with all their nodes
+ */
+const readSelection = async (nodes: CanvasNode[]) => {
+	const texts: string[] = [];
+	for (const node of nodes) {
+		const text = isGroup(node)
+			? await readGroupContent(node)
+			: await readNodeContent(node);
+		if (text?.trim()) texts.push(text.trim());
+	}
+	return texts;
+};
+
+/**
+ * Name of the deck file, stable across runs so new cards are appended to it:
+ * the label of a selected group, the canvas name for several nodes.
+ * Empty for one node, which is named by the model.
+ */
+const deckTitle = (app: App, nodes: CanvasNode[]) => {
+	if (nodes.length === 1) return isGroup(nodes[0]) ? getGroupLabel(nodes[0]) : "";
+	return app.workspace.getActiveFile()?.basename || "";
+};
+
+/**
+ * Create flashcards from the selected nodes and groups, in requests that fit
+ * the token budget. Cards already in the deck file are left out, the others
+ * are appended to it.
+ */
 export const createFlashcards = async (
 	app: App,
 	settings: AugmentedCanvasSettings
@@ -24,53 +100,169 @@ export const createFlashcards = async (
 	const canvas = getActiveCanvas(app);
 	if (!canvas) return;
 
+	// Edges of the selection have no text or position
+	const nodes = (Array.from(canvas.selection) as CanvasNode[]).filter(canvasNodeIsNote);
+	const texts = await readSelection(nodes);
+	if (!texts.length) {
+		new Notice("所选卡片中没有可用于生成闪卡的内容");
+		return;
+	}
+
 	new Notice("Flashcard file being created...");
 
-	const node = <CanvasNode>Array.from(canvas.selection)?.first()!;
-	const nodeText = (await readNodeContent(node))?.trim() || "";
+	const options = { ...DEFAULT_FLASHCARD_OPTIONS, ...settings.flashcards };
+	const systemPrompt = `${FLASHCARDS_SYSTEM_PROMPT}
 
-	const gptResponse = await getResponse(
-		settings.apiKey,
-		[
-			{
-				role: "system",
-				content: `${FLASHCARDS_SYSTEM_PROMPT}
+${settings.flashcardsSystemPrompt}
 
-${settings.flashcardsSystemPrompt}`,
-			},
-			{
-				role: "user",
-				content: nodeText,
-			},
-		],
-		{
-			model: settings.apiModel,
-			max_tokens: settings.maxResponseTokens || undefined,
-			temperature: settings.temperature,
-			isJSON: true,
-		}
+${FLASHCARD_TYPE_INSTRUCTIONS[options.type]}`.trim();
+	const budget = Math.max(
+		getTokenLimit(settings) - estimateTokens(systemPrompt) - PROMPT_OVERHEAD_TOKENS,
+		1
 	);
+	const batches = flashcardBatches(texts, budget);
 
-	const content = `
-${gptResponse.flashcards
-		.map(
-			(flashcard: { front: string; back: string }) =>
-				`${flashcard.front}::${flashcard.back}`
-		)
-		.join("\n\n")}
-`.trim();
-
-	const FLASHCARDS_PATH = "Home/Flashcards";
+	const cards: Flashcard[] = [];
+	let title = deckTitle(app, nodes);
 	try {
-		await app.vault.createFolder(
-			`${FLASHCARDS_PATH}/${gptResponse.filename}`
+		for (const [index, batch] of batches.entries()) {
+			if (batches.length > 1) {
+				new Notice(`正在生成闪卡 (${index + 1}/${batches.length})...`);
+			}
+			const gptResponse = await getStructuredResponse<{
+				filename?: string;
+				flashcards: Flashcard[];
+			}>(
+				getProviderConfig(settings),
+				[
+					{
+						role: "system",
+						content: systemPrompt,
+					},
+					{
+						role: "user",
+						content: batch,
+					},
+				],
+				FLASHCARDS_SCHEMA,
+				{
+					model: settings.apiModel,
+					max_tokens: settings.maxResponseTokens || undefined,
+					temperature: settings.temperature,
+					action: "flashcards",
+				}
+			);
+			title = title || gptResponse.filename || "";
+			cards.push(...parseFlashcards(gptResponse));
+		}
+	} catch (error: any) {
+		console.error("Failed to create flashcards:", error);
+		new Notice(`闪卡生成失败: ${error?.message || error}`);
+		createErrorNode(
+			canvas,
+			"闪卡生成失败",
+			error,
+			nodes.length === 1 ? nodes[0] : undefined,
+			settings
 		);
-	} catch {}
-	await app.vault.create(
-		`${FLASHCARDS_PATH}/${gptResponse.filename}/${gptResponse.filename}.md`,
-		content
+		return;
+	}
+
+	const folder = normalizePath(options.folder.trim() || DEFAULT_FLASHCARD_OPTIONS.folder);
+	if (!app.vault.getAbstractFileByPath(folder)) {
+		await app.vault.createFolder(folder);
+	}
+	const name = flashcardFileName(title);
+	const path = `${folder}/${name}.${flashcardFileExtension(options.format)}`;
+	const existing = app.vault.getAbstractFileByPath(path);
+
+	let added: Flashcard[];
+	if (existing instanceof TFile) {
+		const content = await app.vault.read(existing);
+		added = newFlashcards(cards, parseFlashcardFile(content, options.format));
+		if (added.length) {
+			await app.vault.modify(existing, appendFlashcards(content, added, options));
+		}
+	} else {
+		added = newFlashcards(cards, []);
+		await app.vault.create(path, formatFlashcards(added, options));
+	}
+
+	if (!added.length) {
+		new Notice(`"${path}" 中已包含所有生成的闪卡`);
+		return;
+	}
+	new Notice(
+		existing
+			? `已向 "${path}" 添加 ${added.length} 张新闪卡（跳过 ${cards.length - added.length} 张重复闪卡）`
+			: `Flashcard file "${path}" created successfully`
 	);
 
-	new Notice(`Flashcard file "${gptResponse.filename}" created successfully`);
+	if (options.placeOnCanvas) {
+		placeFlashcards(canvas, nodes, added, options.type, name, settings);
+	}
 };
 
+/**
+ * Add the cards right of the selection as a group of question → answer node pairs
+ */
+const placeFlashcards = (
+	canvas: Canvas,
+	selection: CanvasNode[],
+	cards: Flashcard[],
+	type: FlashcardType,
+	label: string,
+	settings: AugmentedCanvasSettings
+) => {
+	const padding = settings.groupPadding;
+	const gap = settings.groupNodeSpacing;
+	const x = Math.max(...selection.map((node) => node.x + node.width)) + gap * 2;
+	const y = Math.min(...selection.map((node) => node.y));
+	const nodes: object[] = [];
+	const edges: object[] = [];
+
+	let top = y + padding;
+	for (const card of cards) {
+		const { question, answer } = flashcardSides(card, type);
+		const height = Math.max(calcHeight({ text: question }), calcHeight({ text: answer }));
+		const questionId = randomHexString(16);
+		const answerId = randomHexString(16);
+		nodes.push(
+			{ id: questionId, type: "text", text: question, x: x + padding, y: top, width: CARD_NODE_WIDTH, height },
+			{
+				id: answerId,
+				type: "text",
+				text: answer,
+				x: x + padding + CARD_NODE_WIDTH + gap,
+				y: top,
+				width: CARD_NODE_WIDTH,
+				height,
+			}
+		);
+		edges.push({
+			id: randomHexString(16),
+			fromNode: questionId,
+			fromSide: "right",
+			toNode: answerId,
+			toSide: "left",
+		});
+		top += height + gap;
+	}
+
+	const group = {
+		id: randomHexString(16),
+		type: "group",
+		label,
+		x,
+		y,
+		width: padding * 2 + CARD_NODE_WIDTH * 2 + gap,
+		height: top - gap + padding - y,
+	};
+	const data = canvas.getData();
+	canvas.importData({
+		// Groups go before their nodes so they are drawn behind them
+		nodes: [...data.nodes, group, ...nodes],
+		edges: [...data.edges, ...edges],
+	});
+	canvas.requestSave();
+};
@@ -9,8 +9,12 @@ import { handleCallGPT_Question } from "../canvas/askQuestion";
 import { CustomQuestionModal } from "../../Modals/CustomQuestionModal";
 import { handlePatchNoteMenu } from "../menuPatches/noteMenuPatch";
 import { addGenerateGroupButton } from "../canvas/generateGroup";
+import { addGenerateImageButton } from "../canvas/generateImage";
 import { smartConnectNodes } from "../canvas/smartConnect";
 import { smartGroupExistingNodes } from "../canvas/smartGrouping";
+import { NodeModelSettingsModal } from "../../Modals/NodeModelSettingsModal";
+import { MODEL_OVERRIDES_KEY, nodeOverrides, setNodeOverrides } from "../../utils/modelOverrides";
+import { isNodePinned, setNodePinned } from "../../utils/contextStrategies";
 
 /**
  * Check if already patched to avoid duplicate menu items
@@ -40,7 +44,7 @@ const addEdgeMenuItems = (
 };
 
 /**
- * Add node menu items (Ask AI, Ask Question, Generate Group, AI Questions)
+ * Add node menu items (Ask AI, Ask Question, Generate Group, Generate Image, AI Questions)
  * For single node selection
  */
 const addNodeMenuItems = (
@@ -78,6 +82,40 @@ const addNodeMenuItems = (
 	// Add "Generate Group with AI" button
 	addGenerateGroupButton(app, settings, menuEl);
 
+	// Add "Generate image" button
+	addGenerateImageButton(app, settings, menuEl);
+
+	// Add "Model settings" button (per-node model / temperature overrides)
+	const selectedNode = Array.from(canvas.selection).first() as CanvasNode;
+	const buttonEl_ModelSettings = createEl("button", "clickable-icon gpt-menu-item");
+	setTooltip(buttonEl_ModelSettings, "节点模型设置", { placement: "top" });
+	setIcon(buttonEl_ModelSettings, "lucide-sliders-horizontal");
+	buttonEl_ModelSettings.toggleClass("is-active", !!selectedNode.unknownData[MODEL_OVERRIDES_KEY]);
+	menuEl.appendChild(buttonEl_ModelSettings);
+	buttonEl_ModelSettings.addEventListener("click", () => {
+		new NodeModelSettingsModal(
+			app,
+			settings,
+			nodeOverrides(selectedNode),
+			(overrides) => setNodeOverrides(selectedNode, overrides)
+		).open();
+	});
+
+	// Add "Pin to context" button (always sent with requests on this canvas)
+	const buttonEl_PinContext = createEl("button", "clickable-icon gpt-menu-item");
+	const updatePinButton = () => {
+		const pinned = isNodePinned(selectedNode);
+		setTooltip(buttonEl_PinContext, pinned ? "取消固定到上下文" : "固定到上下文", { placement: "top" });
+		buttonEl_PinContext.toggleClass("is-active", pinned);
+	};
+	setIcon(buttonEl_PinContext, "lucide-pin");
+	updatePinButton();
+	menuEl.appendChild(buttonEl_PinContext);
+	buttonEl_PinContext.addEventListener("click", async () => {
+		await setNodePinned(selectedNode, !isNodePinned(selectedNode));
+		updatePinButton();
+	});
+
 	// Add "AI generated questions" button
 	const buttonEl_AIQuestions = createEl("button", "clickable-icon gpt-menu-item");
 	setTooltip(buttonEl_AIQuestions, "AI 生成相关问题", { placement: "top" });
@@ -57,7 +57,10 @@ export const handlePatchNoteMenu = async (
 		if (node.unknownData.questions) return;
 
 		const questions = await handleCallGPT_Questions(app, settings, node);
-		if (!questions) return;
+		if (!questions) {
+			menu.hide();
+			return;
+		}
 		node.unknownData.questions = questions;
 
 		menu.hide();
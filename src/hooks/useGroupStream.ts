@@ -62,6 +62,7 @@ import {
 } from "../utils/groupGeneration/types";
 import { CanvasRenderer } from "../utils/groupGeneration/canvasRenderer";
 import { createConfigFromSettings } from "../utils/groupGeneration/config";
+import { getProviderConfig } from "../openai/providers";
 // 注意：streamResponse 需要在运行时通过选项传入，或者使用默认实现
 // 这样可以避免在测试环境中导入 OpenAI 依赖
 // import { streamResponse } from "../utils/chatgpt";
@@ -259,18 +260,20 @@ class GroupStreamState {
 		return async (
 			apiKey: string,
 			messages: ChatMessage[],
-			config: { max_tokens?: number; model?: string; temperature?: number },
+			config: { max_tokens?: number; model?: string; temperature?: number; signal?: AbortSignal },
 			callback: (chunk: string | null, error?: Error) => void
 		): Promise<void> => {
 			// 动态导入以避免测试环境中的 OpenAI 依赖问题
 			const { streamResponse } = await import("../utils/chatgpt");
 			await streamResponse(
-				apiKey,
+				{ ...getProviderConfig(this.settings), apiKey },
 				messages as any, // ChatCompletionMessageParam 兼容
 				{
 					model: config.model,
 					max_tokens: config.max_tokens,
 					temperature: config.temperature,
+					signal: config.signal,
+					action: "generate-group",
 				},
 				callback
 			);
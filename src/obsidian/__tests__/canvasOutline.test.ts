@@ -0,0 +1,180 @@
+/**
+ * 白板大纲测试
+ *
+ * - 分组转为标题，连线转为 "A --标签--> B"
+ * - 互相引用的白板不会无限递归，嵌套深度有上限
+ */
+
+import { App, TFile } from "obsidian";
+import { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import { canvasToOutline, outlineNodeTitle } from "../canvasOutline";
+import { cachedReadFile, readCanvasOutline } from "../fileUtil";
+
+const text = (id: string, x: number, y: number, body: string): AllCanvasNodeData => ({
+	id,
+	type: "text",
+	text: body,
+	x,
+	y,
+	width: 200,
+	height: 100,
+});
+
+const group = (
+	id: string,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	label?: string
+): AllCanvasNodeData => ({ id, type: "group", label, x, y, width, height });
+
+const fileNode = (id: string, y: number, file: string): AllCanvasNodeData => ({
+	id,
+	type: "file",
+	file,
+	x: 0,
+	y,
+	width: 200,
+	height: 100,
+});
+
+const readText = async (node: AllCanvasNodeData) =>
+	node.type === "text" ? node.text : undefined;
+
+describe("canvasToOutline", () => {
+	it("writes groups as headings holding their nodes in reading order", async () => {
+		const data: CanvasData = {
+			nodes: [
+				group("plan", 0, 0, 1000, 1000, "Plan"),
+				group("risks", 500, 500, 400, 400, "Risks"),
+				text("goal", 0, 2000, "Loose note"),
+				text("second", 300, 100, "Second step"),
+				text("first", 50, 100, "First step"),
+				text("risk", 550, 550, "Budget overrun"),
+			],
+			edges: [],
+		};
+
+		expect(await canvasToOutline(data, readText)).toBe(
+			[
+				"Loose note",
+				"## Plan",
+				"First step",
+				"Second step",
+				"### Risks",
+				"Budget overrun",
+			].join("\n\n")
+		);
+	});
+
+	it("lists edges with their labels and directions", async () => {
+		const data: CanvasData = {
+			nodes: [
+				text("a", 0, 0, "# Cause\nDetails"),
+				text("b", 0, 200, "Effect"),
+				group("g", 500, 0, 300, 300),
+			],
+			edges: [
+				{ id: "e1", fromNode: "a", fromSide: "bottom", toNode: "b", toSide: "top", label: "leads to" },
+				{ id: "e2", fromNode: "b", fromSide: "right", toNode: "g", toSide: "left", toEnd: "none" },
+				{ id: "e3", fromNode: "a", fromSide: "right", toNode: "g", toSide: "left", fromEnd: "arrow" },
+				{ id: "e4", fromNode: "a", fromSide: "right", toNode: "gone", toSide: "left" },
+			],
+		};
+
+		const outline = await canvasToOutline(data, readText);
+
+		expect(outline).toContain(
+			["## Connections", "- Cause --leads to--> Effect\n- Effect -- Group\n- Cause <--> Group"].join(
+				"\n\n"
+			)
+		);
+	});
+
+	it("names nodes briefly", () => {
+		expect(outlineNodeTitle(fileNode("f", 0, "notes/Paper.pdf"))).toBe("Paper.pdf");
+		expect(outlineNodeTitle(text("t", 0, 0, "x".repeat(60)))).toBe(`${"x".repeat(39)}…`);
+	});
+});
+
+describe("readCanvasOutline", () => {
+	const createApp = (files: Record<string, string>) => {
+		const tfiles = new Map(
+			Object.keys(files).map((path) => {
+				const name = path.split("/").pop()!;
+				const file = Object.assign(new (TFile as unknown as jest.Mock)(), {
+					path,
+					name,
+					basename: name.replace(/\.[^.]+$/, ""),
+					extension: name.split(".").pop(),
+				});
+				return [path, file];
+			})
+		);
+		return {
+			vault: {
+				getAbstractFileByPath: (path: string) => tfiles.get(path) || null,
+				cachedRead: async (file: TFile) => files[file.path],
+				read: async (file: TFile) => files[file.path],
+			},
+			metadataCache: { getFileCache: () => null },
+			file: (path: string) => tfiles.get(path) as TFile,
+		};
+	};
+
+	const canvas = (nodes: AllCanvasNodeData[]) => JSON.stringify({ nodes, edges: [] });
+
+	it("expands nested canvases once and names canvases embedding each other", async () => {
+		const app = createApp({
+			"a.canvas": canvas([text("t", 0, 0, "In A"), fileNode("f", 200, "b.canvas")]),
+			"b.canvas": canvas([text("t", 0, 0, "In B"), fileNode("f", 200, "a.canvas")]),
+		});
+
+		const outline = await readCanvasOutline(app as unknown as App, app.file("a.canvas"));
+
+		expect(outline).toBe(
+			["In A", "## b", "In B", "[[a.canvas]] (already included above)"].join("\n\n")
+		);
+	});
+
+	it("stops expanding at the depth limit", async () => {
+		const app = createApp({
+			"1.canvas": canvas([fileNode("f", 0, "2.canvas")]),
+			"2.canvas": canvas([fileNode("f", 0, "3.canvas")]),
+			"3.canvas": canvas([fileNode("f", 0, "4.canvas")]),
+			"4.canvas": canvas([text("t", 0, 0, "Too deep")]),
+		});
+
+		const outline = await cachedReadFile(app as unknown as App, app.file("1.canvas"));
+
+		expect(outline).toContain("[[4.canvas]] (nested too deep to expand)");
+		expect(outline).not.toContain("Too deep");
+	});
+
+	it("only names files sent on their own", async () => {
+		const app = createApp({
+			"board.canvas": canvas([fileNode("f", 0, "Note.md")]),
+			"Note.md": "Note body",
+		});
+
+		expect(
+			await cachedReadFile(
+				app as unknown as App,
+				app.file("board.canvas"),
+				new Set(["board.canvas", "Note.md"])
+			)
+		).toBe("[[Note.md]] (sent separately)");
+	});
+
+	it("reads embedded notes", async () => {
+		const app = createApp({
+			"board.canvas": canvas([fileNode("f", 0, "Note.md")]),
+			"Note.md": "Note body",
+		});
+
+		expect(await readCanvasOutline(app as unknown as App, app.file("board.canvas"))).toBe(
+			"Note body"
+		);
+	});
+});
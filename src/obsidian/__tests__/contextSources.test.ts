@@ -0,0 +1,122 @@
+/**
+ * 上下文来源测试
+ *
+ * - 同组节点、指向的节点、无方向连线的节点
+ * - [[双链]] 解析与链接笔记读取
+ * - 同一请求内每个节点只读取一次
+ */
+
+import { App, TFile } from "obsidian";
+import { CanvasNode } from "../canvas-internal";
+import { DEFAULT_CONTEXT_SOURCES, nodeNeighbors, parentGroup } from "../canvasUtil";
+import { nodeContentReader, parseWikilinks, readLinkedNotes } from "../fileUtil";
+
+type Spec = { id: string; x: number; y: number; width?: number; height?: number; type?: string };
+
+/**
+ * Canvas with the given nodes and edges `[from, to, toEnd?]`
+ */
+function createCanvas(specs: Spec[], edges: [string, string, ("none" | "arrow")?][]) {
+	const nodes = new Map<string, CanvasNode>();
+	const canvas = {
+		nodes,
+		getData: () => ({ nodes: specs, edges: [] }),
+		getEdgesForNode: (node: CanvasNode) =>
+			edges
+				.filter(([from, to]) => from === node.id || to === node.id)
+				.map(([from, to, toEnd]) => ({
+					from: { node: nodes.get(from) },
+					to: { node: nodes.get(to) },
+					getData: () => ({ toEnd }),
+				})),
+	};
+
+	for (const spec of specs) {
+		const data = { width: 100, height: 50, type: "text", ...spec };
+		nodes.set(spec.id, {
+			...data,
+			canvas,
+			getData: () => data,
+		} as unknown as CanvasNode);
+	}
+	return nodes;
+}
+
+const ids = (nodes: CanvasNode[]) => nodes.map((node) => node.id).sort();
+
+describe("nodeNeighbors", () => {
+	const nodes = createCanvas(
+		[
+			{ id: "outer", x: 0, y: 0, width: 2000, height: 2000, type: "group" },
+			{ id: "inner", x: 0, y: 0, width: 500, height: 500, type: "group" },
+			{ id: "a", x: 10, y: 10 },
+			{ id: "b", x: 200, y: 10 },
+			{ id: "c", x: 1000, y: 1000 },
+			{ id: "parent", x: 3000, y: 0 },
+			{ id: "child", x: 3000, y: 300 },
+			{ id: "peer", x: 3000, y: 600 },
+		],
+		[
+			["parent", "a"],
+			["a", "child"],
+			["a", "peer", "none"],
+		]
+	);
+	const a = nodes.get("a")!;
+
+	it("reads nothing by default", () => {
+		expect(nodeNeighbors(a, DEFAULT_CONTEXT_SOURCES)).toEqual([]);
+	});
+
+	it("splits edges leaving the node by their arrow", () => {
+		expect(ids(nodeNeighbors(a, { ...DEFAULT_CONTEXT_SOURCES, outgoing: true }))).toEqual(["child"]);
+		expect(ids(nodeNeighbors(a, { ...DEFAULT_CONTEXT_SOURCES, undirected: true }))).toEqual(["peer"]);
+	});
+
+	it("reads the other nodes of the innermost group", () => {
+		expect(parentGroup(a)?.id).toBe("inner");
+		expect(ids(nodeNeighbors(a, { ...DEFAULT_CONTEXT_SOURCES, group: true }))).toEqual(["b"]);
+	});
+});
+
+describe("wikilinks", () => {
+	it("parses targets, headings and aliases", () => {
+		expect(
+			parseWikilinks("See [[Plan]], ![[Plan#Budget|the budget]], [[#Local]] and [[Plan]] again")
+		).toEqual([
+			{ path: "Plan", subpath: undefined },
+			{ path: "Plan", subpath: "#Budget" },
+		]);
+	});
+
+	it("reads linked Markdown notes, skipping unresolved links", async () => {
+		const note = Object.assign(new (TFile as unknown as jest.Mock)(), {
+			path: "notes/Plan.md",
+			basename: "Plan",
+			extension: "md",
+		});
+		const app = {
+			vault: { read: jest.fn(async () => "Budget: 3000") },
+			metadataCache: {
+				getFirstLinkpathDest: jest.fn((path: string) => (path === "Plan" ? note : null)),
+				getFileCache: jest.fn(() => null),
+			},
+		} as unknown as App;
+
+		const notes = await readLinkedNotes(app, "[[Plan]] and [[Missing]]", "board.canvas");
+
+		expect(notes).toEqual([{ link: "notes/Plan.md", path: "notes/Plan.md", content: "## Plan\nBudget: 3000" }]);
+		expect(app.metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith("Plan", "board.canvas");
+	});
+});
+
+describe("nodeContentReader", () => {
+	it("reads each node once", async () => {
+		const node = { id: "a", getData: jest.fn(() => ({ type: "text", text: "Hello" })) };
+		const readText = nodeContentReader();
+
+		expect(await readText(node as unknown as CanvasNode)).toBe("Hello");
+		expect(await readText(node as unknown as CanvasNode)).toBe("Hello");
+		expect(node.getData).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * 文件转换测试
+ *
+ * 使用 fixtures 目录中的小文件验证 EPUB、DOCX、HTML、CSV 和 JSON 转 Markdown
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+	csvToMarkdown,
+	docxToMarkdown,
+	epubToMarkdown,
+	htmlFileToMarkdown,
+	jsonToMarkdown,
+	parseCsvRows,
+} from "../fileConverters";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name));
+
+const binaryFixture = (name: string) => {
+	const buffer = fixture(name);
+	return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+};
+
+describe("epubToMarkdown", () => {
+	it("reads the chapters in spine order", () => {
+		const markdown = epubToMarkdown(binaryFixture("sample.epub"));
+
+		expect(markdown.startsWith("# Tiny Book")).toBe(true);
+		expect(markdown).toContain("It was a bright cold day.");
+		expect(markdown).toContain("第二章的内容。");
+		expect(markdown.indexOf("Chapter One")).toBeLessThan(markdown.indexOf("Chapter Two"));
+		expect(markdown).not.toContain("p{}");
+	});
+
+	it("rejects other zip files", () => {
+		expect(() => epubToMarkdown(binaryFixture("sample.docx"))).toThrow("Not an EPUB file");
+	});
+});
+
+describe("docxToMarkdown", () => {
+	it("keeps headings, list items and tables", () => {
+		expect(docxToMarkdown(binaryFixture("sample.docx"))).toBe(
+			[
+				"# Quarterly Report",
+				"## Summary",
+				"Revenue grew\t by 12%.",
+				"- First point",
+				"- Second point",
+				"| Region | Sales |\n| --- | --- |\n| East | 1\\|200 |",
+			].join("\n\n")
+		);
+	});
+});
+
+describe("htmlFileToMarkdown", () => {
+	it("keeps the article of a clipped page, titled", () => {
+		const markdown = htmlFileToMarkdown(fixture("sample.html").toString());
+
+		expect(markdown.startsWith("# Clipped Page\n\n")).toBe(true);
+		expect(markdown).toContain("Boil water and steep for three minutes.");
+		expect(markdown).not.toMatch(/tracking|Home \| About|Copyright|font-family/);
+	});
+
+	it("drops page chrome when there is no article", () => {
+		const markdown = htmlFileToMarkdown(
+			"<body><header>Menu</header><p>Body text</p><footer>Legal</footer></body>"
+		);
+
+		expect(markdown).toBe("Body text");
+	});
+});
+
+describe("csvToMarkdown", () => {
+	it("parses quoted fields with delimiters, quotes and line breaks", () => {
+		expect(parseCsvRows(fixture("sample.csv").toString())).toEqual([
+			["name", "notes", "score"],
+			["Alice", 'likes "tea", coffee', "9"],
+			["Bob", "line one\nline two", "7"],
+		]);
+	});
+
+	it("renders a Markdown table", () => {
+		expect(csvToMarkdown(fixture("sample.csv").toString())).toBe(
+			[
+				"| name | notes | score |",
+				"| --- | --- | --- |",
+				'| Alice | likes "tea", coffee | 9 |',
+				"| Bob | line one<br>line two | 7 |",
+			].join("\n")
+		);
+	});
+
+	it("reads TSV and pads short rows", () => {
+		expect(csvToMarkdown("\uFEFFa\tb\n1", "\t")).toBe("| a | b |\n| --- | --- |\n| 1 |  |");
+	});
+});
+
+describe("jsonToMarkdown", () => {
+	it("pretty-prints JSON in a code block", () => {
+		const markdown = jsonToMarkdown(fixture("sample.json").toString());
+
+		expect(markdown).toBe(
+			"```json\n" +
+				JSON.stringify({ name: "Tiny", tags: ["a", "b"], nested: { ok: true } }, null, 2) +
+				"\n```"
+		);
+	});
+
+	it("keeps invalid JSON as is", () => {
+		jest.spyOn(console, "debug").mockImplementation(() => undefined);
+		expect(jsonToMarkdown("{ oops ")).toBe("```json\n{ oops\n```");
+	});
+});
@@ -0,0 +1,138 @@
+/**
+ * 图片节点测试
+ *
+ * - 从 PNG、JPEG、GIF、WebP 文件头读取尺寸
+ * - 图片 token 估算
+ * - 读取图片文件节点
+ * - 生成图片的文件扩展名
+ */
+
+import { App, TFile } from "obsidian";
+import { CanvasNode } from "../canvas-internal";
+import {
+	imageAltText,
+	imageDataUrl,
+	imageDimensions,
+	imageExtension,
+	imageFileOfNode,
+	readImage,
+} from "../imageUtil";
+import { estimateImageTokens } from "../../openai/usage";
+
+const bytes = (...parts: (number[] | string)[]) =>
+	new Uint8Array(
+		parts.flatMap((part) =>
+			typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : part
+		)
+	).buffer;
+
+const uint32 = (n: number) => [n >>> 24, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+const uint16 = (n: number) => [n >> 8, n & 255];
+const le16 = (n: number) => [n & 255, n >> 8];
+
+const PNG = bytes([0x89], "PNG\r\n\x1a\n", uint32(13), "IHDR", uint32(1200), uint32(800), [8, 6, 0, 0, 0]);
+
+const JPEG = bytes(
+	[0xff, 0xd8],
+	// APP0 segment, skipped
+	[0xff, 0xe0], uint16(16), "JFIF\0", Array(9).fill(0),
+	// Baseline start of frame: precision, height, width
+	[0xff, 0xc0], uint16(17), [8], uint16(480), uint16(640), Array(10).fill(0)
+);
+
+const GIF = bytes("GIF89a", le16(320), le16(200), Array(8).fill(0));
+
+const WEBP_LOSSY = bytes(
+	"RIFF", [0, 0, 0, 0], "WEBP", "VP8 ", [0, 0, 0, 0],
+	[0, 0, 0], [0x9d, 0x01, 0x2a], le16(400), le16(300)
+);
+
+const WEBP_EXTENDED = bytes(
+	"RIFF", [0, 0, 0, 0], "WEBP", "VP8X", [10, 0, 0, 0],
+	[0, 0, 0, 0], [0xff, 0x0f, 0], [0x37, 0x04, 0]
+);
+
+describe("imageDimensions", () => {
+	it("reads the size from the header", () => {
+		expect(imageDimensions(PNG)).toEqual({ width: 1200, height: 800 });
+		expect(imageDimensions(JPEG)).toEqual({ width: 640, height: 480 });
+		expect(imageDimensions(GIF)).toEqual({ width: 320, height: 200 });
+		expect(imageDimensions(WEBP_LOSSY)).toEqual({ width: 400, height: 300 });
+		expect(imageDimensions(WEBP_EXTENDED)).toEqual({ width: 4096, height: 1080 });
+	});
+
+	it("gives up on other files", () => {
+		expect(imageDimensions(bytes("%PDF-1.7 not an image at all"))).toBeUndefined();
+		expect(imageDimensions(bytes([0xff, 0xd8, 0xff]))).toBeUndefined();
+	});
+});
+
+describe("imageExtension", () => {
+	it("names generated files after their format", () => {
+		expect(imageExtension(PNG)).toBe("png");
+		expect(imageExtension(JPEG)).toBe("jpg");
+		expect(imageExtension(GIF)).toBe("gif");
+		expect(imageExtension(WEBP_LOSSY)).toBe("webp");
+		expect(imageExtension(bytes("unknown"))).toBe("png");
+	});
+});
+
+describe("estimateImageTokens", () => {
+	it("counts 512 px tiles after scaling", () => {
+		// 1024×1024 → 768×768: 4 tiles
+		expect(estimateImageTokens(1024, 1024)).toBe(85 + 170 * 4);
+		// Small images are not scaled up: 1 tile
+		expect(estimateImageTokens(300, 200)).toBe(85 + 170);
+		// 4096×8192 → 1024×2048 → 768×1536: 2×3 tiles
+		expect(estimateImageTokens(4096, 8192)).toBe(85 + 170 * 6);
+	});
+
+	it("assumes four tiles when the size is unknown", () => {
+		expect(estimateImageTokens()).toBe(estimateImageTokens(1024, 1024));
+	});
+});
+
+describe("reading image nodes", () => {
+	const file = Object.assign(new (TFile as unknown as jest.Mock)(), {
+		path: "assets/Diagram.PNG",
+		name: "Diagram.PNG",
+		extension: "PNG",
+	});
+	const app = {
+		vault: {
+			getAbstractFileByPath: jest.fn(() => file),
+			readBinary: jest.fn(async () => PNG),
+		},
+	} as unknown as App;
+
+	const fileNode = (type = "file") =>
+		({ app, getData: () => ({ type, file: file.path }) } as unknown as CanvasNode);
+
+	it("finds the image of file nodes only", () => {
+		expect(imageFileOfNode(fileNode())).toBe(file);
+		expect(imageFileOfNode(fileNode("text"))).toBeUndefined();
+		expect(imageAltText(file)).toBe("Image: assets/Diagram.PNG");
+	});
+
+	it("reads the file as base64 with its size and token cost", async () => {
+		const image = await readImage(app, file);
+
+		expect(image).toMatchObject({
+			path: "assets/Diagram.PNG",
+			mimeType: "image/png",
+			width: 1200,
+			height: 800,
+			tokens: estimateImageTokens(1200, 800),
+		});
+		expect(imageDataUrl(image!)).toBe(
+			`data:image/png;base64,${Buffer.from(PNG).toString("base64")}`
+		);
+	});
+
+	it("returns nothing when the file cannot be read", async () => {
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		(app.vault.readBinary as jest.Mock).mockRejectedValueOnce(new Error("gone"));
+
+		expect(await readImage(app, file)).toBeUndefined();
+	});
+});
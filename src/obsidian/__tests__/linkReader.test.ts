@@ -0,0 +1,179 @@
+/**
+ * 网页链接读取测试
+ *
+ * 使用本地 HTTP 服务器提供 HTML、纯文本和 JSON 页面，验证转换、缓存与过期
+ */
+
+import { createServer, get, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { Notice, requestUrl } from "obsidian";
+import {
+	LinkCache,
+	fetchLinkMarkdown,
+	initLinkCache,
+	readLinkContent,
+} from "../linkReader";
+
+const ARTICLE_PAGE = `<!doctype html>
+<html><head><title>Tea Guide</title><script>track()</script></head>
+<body>
+	<nav>Home | About</nav>
+	<article><h2>Steeping</h2><p>Steep green tea for two minutes.</p></article>
+	<footer>Copyright 2024</footer>
+</body></html>`;
+
+const pages: Record<string, { status: number; type?: string; body: string }> = {
+	"/article": { status: 200, type: "text/html; charset=utf-8", body: ARTICLE_PAGE },
+	"/notes.txt": { status: 200, type: "text/plain", body: "  plain notes \n" },
+	"/data": { status: 200, type: "application/json", body: '{"a":1}' },
+	"/image": { status: 200, type: "image/png", body: "PNG" },
+};
+
+let server: Server;
+let baseUrl: string;
+let requests: string[];
+
+/**
+ * requestUrl backed by a real HTTP request, like Obsidian does outside the browser sandbox
+ */
+const httpRequestUrl = ({ url }: { url: string }) =>
+	new Promise((resolve, reject) => {
+		get(url, (response) => {
+			let text = "";
+			response.setEncoding("utf8");
+			response.on("data", (chunk) => (text += chunk));
+			response.on("end", () =>
+				resolve({
+					status: response.statusCode,
+					headers: response.headers as IncomingHttpHeaders,
+					text,
+				})
+			);
+		}).on("error", reject);
+	});
+
+beforeAll(async () => {
+	server = createServer((request, response) => {
+		requests.push(request.url || "");
+		const page = pages[request.url || ""];
+		if (!page) {
+			response.writeHead(404, { "Content-Type": "text/html" });
+			response.end("<p>Not found</p>");
+			return;
+		}
+		response.writeHead(page.status, page.type ? { "Content-Type": page.type } : {});
+		response.end(page.body);
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+	requests = [];
+	(requestUrl as jest.Mock).mockImplementation(httpRequestUrl);
+	(Notice as unknown as jest.Mock).mockClear();
+	initLinkCache(null);
+});
+
+const memoryAdapter = (files: Record<string, string> = {}) => ({
+	files,
+	exists: async (path: string) => path in files,
+	read: async (path: string) => files[path],
+	write: async (path: string, data: string) => {
+		files[path] = data;
+	},
+});
+
+describe("fetchLinkMarkdown", () => {
+	it("keeps the article of an HTML page without scripts and page chrome", async () => {
+		const markdown = await fetchLinkMarkdown(`${baseUrl}/article`);
+
+		expect(markdown.startsWith("# Tea Guide\n\n")).toBe(true);
+		expect(markdown).toContain("Steep green tea for two minutes.");
+		expect(markdown).not.toMatch(/track\(\)|Home \| About|Copyright/);
+	});
+
+	it("returns plain text trimmed and JSON in a code block", async () => {
+		expect(await fetchLinkMarkdown(`${baseUrl}/notes.txt`)).toBe("plain notes");
+		expect(await fetchLinkMarkdown(`${baseUrl}/data`)).toBe(
+			'```json\n{\n  "a": 1\n}\n```'
+		);
+	});
+
+	it("rejects error statuses and binary content", async () => {
+		await expect(fetchLinkMarkdown(`${baseUrl}/missing`)).rejects.toThrow("HTTP 404");
+		await expect(fetchLinkMarkdown(`${baseUrl}/image`)).rejects.toThrow(
+			"Unsupported content type: image/png"
+		);
+	});
+});
+
+describe("LinkCache", () => {
+	const HOUR = 3600000;
+
+	it("returns pages until they expire", async () => {
+		const cache = new LinkCache(memoryAdapter(), "cache.json", () => HOUR);
+		await cache.set("https://a", "A", 0);
+
+		expect(cache.get("https://a", HOUR)).toBe("A");
+		expect(cache.get("https://a", HOUR + 1)).toBeUndefined();
+		expect(cache.get("https://b", 0)).toBeUndefined();
+	});
+
+	it("is disabled by a TTL of 0", async () => {
+		const adapter = memoryAdapter();
+		const cache = new LinkCache(adapter, "cache.json", () => 0);
+		await cache.set("https://a", "A", 0);
+
+		expect(cache.get("https://a", 0)).toBeUndefined();
+		expect(adapter.files).toEqual({});
+	});
+
+	it("persists pages and drops the oldest beyond the limit", async () => {
+		const adapter = memoryAdapter();
+		const cache = new LinkCache(adapter, "cache.json", () => HOUR);
+		for (let i = 0; i <= 200; i++) {
+			await cache.set(`https://page/${i}`, `${i}`, i);
+		}
+
+		const reloaded = new LinkCache(adapter, "cache.json", () => HOUR);
+		await reloaded.load();
+		expect(Object.keys(reloaded.pages)).toHaveLength(200);
+		expect(reloaded.get("https://page/0", 200)).toBeUndefined();
+		expect(reloaded.get("https://page/200", 200)).toBe("200");
+	});
+
+	it("starts empty when the file is corrupt", async () => {
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const cache = new LinkCache(
+			memoryAdapter({ "cache.json": "{ oops" }),
+			"cache.json",
+			() => HOUR
+		);
+		await cache.load();
+
+		expect(cache.pages).toEqual({});
+	});
+});
+
+describe("readLinkContent", () => {
+	it("labels the content with its source and fetches it once while cached", async () => {
+		initLinkCache(new LinkCache(memoryAdapter(), "cache.json", () => 3600000));
+		const url = `${baseUrl}/notes.txt`;
+
+		expect(await readLinkContent(url)).toBe(`Source: ${url}\n\nplain notes`);
+		expect(await readLinkContent(url)).toBe(`Source: ${url}\n\nplain notes`);
+		expect(requests).toEqual(["/notes.txt"]);
+	});
+
+	it("is empty with a notice when the page cannot be fetched", async () => {
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+		expect(await readLinkContent(`${baseUrl}/missing`)).toBe("");
+		expect(Notice).toHaveBeenCalledTimes(1);
+	});
+});
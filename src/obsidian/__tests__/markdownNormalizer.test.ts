@@ -0,0 +1,171 @@
+/**
+ * Markdown 规范化测试
+ *
+ * - Front matter 移除、简化或保留
+ * - 注释与 Templater 命令移除，代码块保持不变
+ * - ![[嵌入]] 按层数展开，循环嵌入保留为链接
+ * - Dataview 查询替换为结果
+ */
+
+import { App, TFile } from "obsidian";
+import {
+	DEFAULT_MARKDOWN_OPTIONS,
+	MarkdownOptions,
+	initMarkdownOptions,
+	normalizeMarkdown,
+	splitFrontMatter,
+	summarizeFrontMatter,
+} from "../markdownNormalizer";
+import { readFileContent } from "../fileUtil";
+
+const NOTE = `---
+tags: [idea, draft]
+aliases:
+status:
+---
+# Title
+
+Visible %%hidden%% text.
+%%
+block comment
+%%
+Created <% tp.date.now() %>.
+
+\`\`\`js
+const s = "%% kept %%";
+\`\`\`
+`;
+
+const options = (overrides: Partial<MarkdownOptions> = {}) => ({
+	...DEFAULT_MARKDOWN_OPTIONS,
+	...overrides,
+});
+
+describe("front matter", () => {
+	it("splits the YAML block from the body", () => {
+		expect(splitFrontMatter("---\na: 1\n---\nBody")).toEqual({
+			frontMatter: "a: 1",
+			body: "Body",
+		});
+		expect(splitFrontMatter("Body\n---\n")).toEqual({ frontMatter: undefined, body: "Body\n---\n" });
+	});
+
+	it("summarizes the parsed properties without empty ones", () => {
+		expect(
+			summarizeFrontMatter("", {
+				tags: ["idea", "draft"],
+				aliases: null,
+				position: { start: 0 },
+			})
+		).toBe("Properties:\n- tags: idea, draft");
+		expect(summarizeFrontMatter("a: 1\n\nb: 2")).toBe("Properties:\na: 1\nb: 2");
+	});
+});
+
+describe("normalizeMarkdown", () => {
+	it("removes comments and Templater commands outside code blocks", async () => {
+		const text = await normalizeMarkdown(NOTE, { options: options({ frontMatter: "remove" }) });
+
+		expect(text).toBe(
+			'# Title\n\nVisible  text.\n\nCreated .\n\n```js\nconst s = "%% kept %%";\n```'
+		);
+	});
+
+	it("keeps comments and Templater commands in inline code", async () => {
+		const text = await normalizeMarkdown(
+			"Use `<% tp.date.now() %>` or ``%%``, %% hidden %% then `%%` alone.",
+			{ options: options() }
+		);
+
+		expect(text).toBe("Use `<% tp.date.now() %>` or ``%%``,  then `%%` alone.");
+	});
+
+	it("leaves embeds in inline code as written", async () => {
+		const text = await normalizeMarkdown("`![[A]]` ![[B]]", {
+			options: options(),
+			readEmbed: async (link) => `<${link}>`,
+		});
+
+		expect(text).toBe("`![[A]]` <B>");
+	});
+
+	it("handles the front matter per the option", async () => {
+		const properties = { tags: ["idea", "draft"], aliases: null, status: null };
+
+		const summarized = await normalizeMarkdown(NOTE, { options: options(), properties });
+		expect(summarized.startsWith("Properties:\n- tags: idea, draft\n\n# Title")).toBe(true);
+
+		const kept = await normalizeMarkdown(NOTE, { options: options({ frontMatter: "keep" }) });
+		expect(kept.startsWith("---\ntags: [idea, draft]\naliases:\nstatus:\n---\n# Title")).toBe(true);
+	});
+
+	it("renders Dataview blocks and keeps those that fail", async () => {
+		const text = "```dataview\nLIST FROM #idea\n```\n\n```dataview\nbroken\n```";
+		const queryDataview = async (query: string) =>
+			query.startsWith("LIST") ? "- [[One]]\n- [[Two]]" : undefined;
+
+		expect(await normalizeMarkdown(text, { options: options(), queryDataview })).toBe(
+			"- [[One]]\n- [[Two]]\n\n```dataview\nbroken\n```"
+		);
+		expect(
+			await normalizeMarkdown(text, {
+				options: options({ renderDataview: false }),
+				queryDataview,
+			})
+		).toBe(text);
+	});
+});
+
+describe("readFileContent", () => {
+	const createApp = (files: Record<string, string>) => {
+		const tfiles = new Map(
+			Object.keys(files).map((path) => {
+				const file = Object.assign(new (TFile as unknown as jest.Mock)(), {
+					path,
+					basename: path.replace(/\.md$/, ""),
+					extension: "md",
+				});
+				return [path, file];
+			})
+		);
+		return {
+			vault: { read: async (file: TFile) => files[file.path] },
+			metadataCache: {
+				getFileCache: () => null,
+				getFirstLinkpathDest: (link: string) => tfiles.get(`${link}.md`) || null,
+			},
+			file: (path: string) => tfiles.get(path) as TFile,
+		};
+	};
+
+	afterEach(() => initMarkdownOptions(null));
+
+	it("expands embeds up to the configured depth", async () => {
+		const app = createApp({
+			"A.md": "A starts\n\n![[B]]",
+			"B.md": "B starts\n\n![[C|alias]]",
+			"C.md": "C body",
+		});
+
+		expect(await readFileContent(app as unknown as App, app.file("A.md"))).toBe(
+			"A starts\n\nB starts\n\n![[C|alias]]"
+		);
+
+		initMarkdownOptions(() => options({ embedDepth: 2 }));
+		expect(await readFileContent(app as unknown as App, app.file("A.md"))).toBe(
+			"A starts\n\nB starts\n\nC body"
+		);
+	});
+
+	it("keeps embeds that would loop as links", async () => {
+		initMarkdownOptions(() => options({ embedDepth: 5 }));
+		const app = createApp({
+			"A.md": "A\n\n![[B]]",
+			"B.md": "B\n\n![[A]]",
+		});
+
+		expect(await readFileContent(app as unknown as App, app.file("A.md"))).toBe(
+			"A\n\nB\n\n![[A]]"
+		);
+	});
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * PDF 文本提取测试
+ *
+ * - 根据 pdf.js 文本位置重建标题、段落、列表和表格
+ * - #page=3-7 页码范围
+ * - 按文件哈希缓存提取结果
+ */
+
+import {
+	PdfTextCache,
+	PdfTextItem,
+	hashBuffer,
+	parsePageRange,
+	textItemsToMarkdown,
+} from "../pdfReader";
+
+/**
+ * Text item at (x, y), the width estimated from the font size
+ */
+const item = (str: string, x: number, y: number, size = 10): PdfTextItem => ({
+	str,
+	transform: [size, 0, 0, size, x, y],
+	width: str.length * size * 0.5,
+	height: size,
+});
+
+describe("textItemsToMarkdown", () => {
+	it("joins wrapped lines into paragraphs and marks larger text as headings", () => {
+		const markdown = textItemsToMarkdown([
+			item("Introduction", 50, 700, 20),
+			item("Large language models are", 50, 670),
+			item("trained on text.", 50, 658),
+			item("A second paragraph starts", 50, 630),
+			item("after a gap.", 50, 618),
+		]);
+
+		expect(markdown).toBe(
+			[
+				"# Introduction",
+				"Large language models are trained on text.",
+				"A second paragraph starts after a gap.",
+			].join("\n\n")
+		);
+	});
+
+	it("rejoins hyphenated words and CJK text without spaces", () => {
+		expect(
+			textItemsToMarkdown([
+				item("An exam-", 50, 700),
+				item("ple sentence.", 50, 688),
+				item("中文段落的", 50, 660),
+				item("第二行。", 50, 648),
+			])
+		).toBe("An example sentence.\n\n中文段落的第二行。");
+	});
+
+	it("keeps bullets and numbered items on their own lines", () => {
+		expect(
+			textItemsToMarkdown([
+				item("• First point", 50, 700),
+				item("1. Second point", 50, 688),
+				item("- Third point", 50, 676),
+			])
+		).toBe("- First point\n\n1. Second point\n\n- Third point");
+	});
+
+	it("turns lines with aligned gaps into a table", () => {
+		const markdown = textItemsToMarkdown([
+			item("Results", 50, 720),
+			item("Region", 50, 700),
+			item("Sales", 200, 700),
+			item("East", 50, 688),
+			item("1200", 200, 688),
+		]);
+
+		expect(markdown).toBe(
+			"Results\n\n| Region | Sales |\n| --- | --- |\n| East | 1200 |"
+		);
+	});
+
+	it("merges runs of the same line", () => {
+		expect(
+			textItemsToMarkdown([item("Hello", 50, 700), item("world", 80, 700.5)])
+		).toBe("Hello world");
+	});
+});
+
+describe("parsePageRange", () => {
+	it("selects single pages, ranges and lists", () => {
+		expect(parsePageRange("#page=3", 10)).toEqual([3]);
+		expect(parsePageRange("#page=3-7", 10)).toEqual([3, 4, 5, 6, 7]);
+		expect(parsePageRange("#page=1,4-5,4", 10)).toEqual([1, 4, 5]);
+		expect(parsePageRange("#page=8-", 10)).toEqual([8, 9, 10]);
+	});
+
+	it("clamps to the page count and falls back to every page", () => {
+		expect(parsePageRange("#page=2-99", 3)).toEqual([2, 3]);
+		expect(parsePageRange("#page=50", 3)).toEqual([1, 2, 3]);
+		expect(parsePageRange(undefined, 2)).toEqual([1, 2]);
+		expect(parsePageRange("#Heading", 2)).toEqual([1, 2]);
+	});
+});
+
+describe("PdfTextCache", () => {
+	const createAdapter = () => {
+		const files = new Map<string, string>();
+		return {
+			files,
+			exists: jest.fn(async (path: string) => files.has(path)),
+			read: jest.fn(async (path: string) => files.get(path)!),
+			write: jest.fn(async (path: string, data: string) => {
+				files.set(path, data);
+			}),
+			mkdir: jest.fn(async (path: string) => {
+				files.set(path, "");
+			}),
+		};
+	};
+
+	it("persists pages by hash and reads them back", async () => {
+		const adapter = createAdapter();
+		await new PdfTextCache(adapter, "plugin/pdf-cache").set("abc", ["p1", "p2"]);
+
+		expect(adapter.mkdir).toHaveBeenCalledWith("plugin/pdf-cache");
+		expect(adapter.files.has("plugin/pdf-cache/abc.json")).toBe(true);
+
+		const cache = new PdfTextCache(adapter, "plugin/pdf-cache");
+		expect(await cache.get("abc")).toEqual(["p1", "p2"]);
+		expect(await cache.get("missing")).toBeUndefined();
+	});
+
+	it("serves recent files from memory", async () => {
+		const adapter = createAdapter();
+		const cache = new PdfTextCache(adapter, "cache", 1);
+		await cache.set("a", ["A"]);
+		await cache.set("b", ["B"]);
+		adapter.read.mockClear();
+
+		await cache.get("b");
+		expect(adapter.read).not.toHaveBeenCalled();
+		await cache.get("a");
+		expect(adapter.read).toHaveBeenCalledWith("cache/a.json");
+	});
+
+	it("ignores unreadable cache files", async () => {
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const adapter = createAdapter();
+		adapter.files.set("cache/bad.json", "{ oops");
+
+		expect(await new PdfTextCache(adapter, "cache").get("bad")).toBeUndefined();
+	});
+});
+
+describe("hashBuffer", () => {
+	it("hashes the content", async () => {
+		const bytes = (text: string) => new TextEncoder().encode(text).buffer;
+
+		expect(await hashBuffer(bytes("abc"))).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+		);
+		expect(await hashBuffer(bytes("abd"))).not.toBe(await hashBuffer(bytes("abc")));
+	});
+});
@@ -0,0 +1,251 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 知识库索引测试
+ *
+ * - 笔记按标题和段落切分为片段
+ * - 只重新索引修改过的笔记，更换向量模型时重新向量化所有片段
+ * - 有向量时按余弦相似度检索，无向量或向量化失败时使用 BM25
+ * - 向量化失败时保留已有向量，编辑笔记时暂停重试且只提示一次
+ */
+
+import { Notice } from "obsidian";
+import { Embedder, VaultIndex, chunkMarkdown, cosineSimilarity } from "../vaultIndex";
+
+const createAdapter = () => {
+	const files = new Map<string, string>();
+	return {
+		files,
+		exists: async (path: string) => files.has(path),
+		read: async (path: string) => files.get(path)!,
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+	};
+};
+
+const createNotes = (notes: Record<string, string>) => {
+	const mtimes: Record<string, number> = {};
+	Object.keys(notes).forEach((path) => (mtimes[path] = 1));
+	const reads: string[] = [];
+	return {
+		notes,
+		mtimes,
+		reads,
+		list: () => Object.keys(notes).map((path) => ({ path, mtime: mtimes[path] })),
+		read: async (path: string) => {
+			reads.push(path);
+			return notes[path];
+		},
+	};
+};
+
+// 词袋向量：每个维度对应一个关键词
+const WORDS = ["cat", "dog", "tax", "garden"];
+const createEmbedder = (model = "test-embedding"): Embedder & { calls: string[][] } => {
+	const calls: string[][] = [];
+	return {
+		model,
+		calls,
+		embed: async (texts) => {
+			calls.push(texts);
+			return texts.map((text) =>
+				WORDS.map((word) => (text.toLowerCase().includes(word) ? 1 : 0))
+			);
+		},
+	};
+};
+
+describe("chunkMarkdown", () => {
+	it("starts a chunk at each heading and keeps the heading path", () => {
+		const chunks = chunkMarkdown(
+			"Intro\n\n# Pets\n\n## Cats\nCats sleep.\n\nCats purr.\n\n## Dogs\nDogs bark.\n\n# Money"
+		);
+
+		expect(chunks).toEqual([
+			{ heading: "", text: "Intro" },
+			{ heading: "Pets › Cats", text: "Cats sleep.\n\nCats purr." },
+			{ heading: "Pets › Dogs", text: "Dogs bark." },
+		]);
+	});
+
+	it("splits long notes by paragraphs and cuts paragraphs too large alone", () => {
+		const paragraph = "word ".repeat(30).trim();
+		const chunks = chunkMarkdown(`${paragraph}\n\n${paragraph}\n\n${"x ".repeat(100)}`, 40);
+
+		expect(chunks[0].text).toBe(paragraph);
+		expect(chunks[1].text).toBe(paragraph);
+		expect(chunks.length).toBeGreaterThan(3);
+		expect(chunks.slice(2).map((chunk) => chunk.text).join(" ")).toBe("x ".repeat(100).trim());
+	});
+});
+
+describe("cosineSimilarity", () => {
+	it("compares directions and is 0 for empty vectors", () => {
+		expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe("VaultIndex", () => {
+	const vault = () =>
+		createNotes({
+			"pets.md": "# Cats\nMy cat sleeps all day.\n\n# Dogs\nThe dog barks at night.",
+			"money.md": "Tax return due in April.",
+			"home.md": "Planting tomatoes in the garden.",
+		});
+
+	it("ranks chunks with BM25 without an embedding model", async () => {
+		const index = new VaultIndex(createAdapter(), "index.json", vault(), () => undefined);
+		await index.sync();
+
+		const [best] = await index.search("when is the tax return due?", 2);
+
+		expect(best.path).toBe("money.md");
+		expect(await index.search("dog barks", 1)).toEqual([
+			expect.objectContaining({ path: "pets.md", heading: "Dogs" }),
+		]);
+	});
+
+	it("ranks chunks by similarity of their embeddings", async () => {
+		const embedder = createEmbedder();
+		const index = new VaultIndex(createAdapter(), "index.json", vault(), () => embedder);
+		await index.sync();
+
+		// "gardening" 与片段中的 "garden" 不是同一个词，BM25 找不到，向量相近
+		const results = await index.search("Gardening tips?", 1);
+
+		expect(index.model).toBe("test-embedding");
+		expect(results.map((result) => result.path)).toEqual(["home.md"]);
+	});
+
+	it("only indexes changed notes, and embeds every chunk again when the model changes", async () => {
+		const notes = vault();
+		let embedder = createEmbedder();
+		const index = new VaultIndex(createAdapter(), "index.json", notes, () => embedder);
+
+		expect(await index.sync()).toBe(3);
+		notes.notes["money.md"] = "Tax and more tax.";
+		notes.mtimes["money.md"] = 2;
+		delete notes.notes["home.md"];
+		notes.reads.length = 0;
+
+		expect(await index.sync()).toBe(1);
+		expect(notes.reads).toEqual(["money.md"]);
+		expect(Object.keys(index.notes).sort()).toEqual(["money.md", "pets.md"]);
+
+		embedder = createEmbedder("other-model");
+		notes.reads.length = 0;
+		expect(await index.sync()).toBe(0);
+		expect(notes.reads).toEqual([]);
+		expect(embedder.calls.flat()).toHaveLength(index.chunkCount);
+		expect(index.model).toBe("other-model");
+	});
+
+	it("keeps the chunks and falls back to BM25 when embedding fails", async () => {
+		const embedder: Embedder = {
+			model: "test-embedding",
+			embed: async () => {
+				throw new Error("offline");
+			},
+		};
+		const errors = jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const index = new VaultIndex(createAdapter(), "index.json", vault(), () => embedder);
+
+		await index.sync();
+		const results = await index.search("tax", 1);
+		errors.mockRestore();
+
+		expect(index.model).toBe("test-embedding");
+		expect(results.map((result) => result.path)).toEqual(["money.md"]);
+	});
+
+	it("keeps the vectors of the batches embedded before a failure", async () => {
+		const notes = createNotes({});
+		for (let i = 0; i < 70; i++) notes.notes[`note-${i}.md`] = `cat ${i}`;
+		Object.keys(notes.notes).forEach((path) => (notes.mtimes[path] = 1));
+		const embedder = createEmbedder();
+		const embed = embedder.embed;
+		let fail = true;
+		embedder.embed = async (texts) => {
+			if (fail && embedder.calls.length) throw new Error("rate limited");
+			return embed(texts);
+		};
+		const errors = jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const index = new VaultIndex(createAdapter(), "index.json", notes, () => embedder);
+
+		await index.sync();
+		fail = false;
+		embedder.calls.length = 0;
+		await index.sync();
+		errors.mockRestore();
+
+		// 64 个片段在第一批中已向量化，只补齐剩下的 6 个
+		expect(embedder.calls.map((batch) => batch.length)).toEqual([6]);
+		expect((await index.search("cat", 1))[0].score).toBeCloseTo(1);
+	});
+
+	it("does not embed again on each edit after a failure and notifies once", async () => {
+		const notes = vault();
+		let calls = 0;
+		const embedder: Embedder = {
+			model: "test-embedding",
+			embed: async () => {
+				calls++;
+				throw new Error("offline");
+			},
+		};
+		const errors = jest.spyOn(console, "error").mockImplementation(() => undefined);
+		(Notice as unknown as jest.Mock).mockClear();
+		const index = new VaultIndex(createAdapter(), "index.json", notes, () => embedder);
+
+		await index.sync();
+		notes.mtimes["money.md"] = 2;
+		notes.reads.length = 0;
+		index.schedule("money.md");
+		await index.flush();
+		await index.sync();
+		errors.mockRestore();
+
+		// 编辑后只重新切分该笔记；同步时重试，但不再提示
+		expect(notes.reads).toEqual(["money.md"]);
+		expect(calls).toBe(2);
+		expect(Notice).toHaveBeenCalledTimes(1);
+	});
+
+	it("saves the chunks with their vectors and loads them back", async () => {
+		const adapter = createAdapter();
+		const embedder = createEmbedder();
+		await new VaultIndex(adapter, "index.json", vault(), () => embedder).sync();
+
+		const loaded = new VaultIndex(adapter, "index.json", vault(), () => embedder);
+		await loaded.load();
+		embedder.calls.length = 0;
+
+		expect(await loaded.sync()).toBe(0);
+		expect((await loaded.search("cat", 1))[0].heading).toBe("Cats");
+		// 只对问题向量化，笔记的向量从文件读取
+		expect(embedder.calls).toEqual([["cat"]]);
+	});
+
+	it("indexes scheduled notes once they are flushed", async () => {
+		const notes = vault();
+		const index = new VaultIndex(createAdapter(), "index.json", notes, () => undefined);
+		await index.sync();
+		notes.notes["new.md"] = "A brand new note about dogs.";
+		notes.mtimes["new.md"] = 1;
+
+		index.schedule("new.md");
+		await index.flush();
+
+		expect(index.notes["new.md"].chunks[0].text).toBe("A brand new note about dogs.");
+		index.rename("new.md", "renamed.md");
+		index.cancel();
+		expect(index.notes["renamed.md"]).toBeDefined();
+		await index.remove("renamed.md");
+		expect(index.notes["renamed.md"]).toBeUndefined();
+	});
+});
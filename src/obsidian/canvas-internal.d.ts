@@ -1,5 +1,5 @@
 import { App, TFile } from "obsidian";
-import { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
 
 export interface CanvasNode {
 	id: string;
@@ -52,6 +52,7 @@ export interface CanvasEdge {
 	to: {
 		node: CanvasNode;
 	};
+	getData?(): CanvasEdgeData;
 }
 
 export interface Canvas {
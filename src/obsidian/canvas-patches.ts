@@ -8,6 +8,7 @@ import {
 	getLayoutPreferences
 } from "../utils/spatialAnalyzer";
 import { AugmentedCanvasSettings } from "../settings/AugmentedCanvasSettings";
+import { errorNodeText } from "../utils/structuredOutput";
 
 export interface CanvasEdgeIntermediate {
 	fromOrTo: string;
@@ -75,9 +76,9 @@ const DEFAULT_NODE_HEIGHT = DEFAULT_NODE_WIDTH * (1024 / 1792) + 20;
 /**
  * Determine optimal edge connection sides based on node positions
  */
-function determineEdgeSides(
-	fromNode: CanvasNode,
-	toNode: CanvasNode
+export function determineEdgeSides(
+	fromNode: Pick<CanvasNode, "x" | "y" | "width" | "height">,
+	toNode: Pick<CanvasNode, "x" | "y" | "width" | "height">
 ): { fromSide: string; toSide: string } {
 	const fromCenterX = fromNode.x + fromNode.width / 2;
 	const fromCenterY = fromNode.y + fromNode.height / 2;
@@ -133,24 +134,22 @@ export const createNode = (
 	}
 
 	const { text } = nodeOptions;
-
-	const width = parentNode
-		? nodeOptions?.size?.width || Math.max(minWidth, parentNode?.width)
-		: DEFAULT_NODE_WIDTH;
-
-	const height = text
-		? parentNode
-			? nodeOptions?.size?.height ||
-			  Math.max(
-			  	minHeight,
-			  	parentNode &&
-						calcHeight({
-							text,
-							// parentHeight: parentNode.height
-						})
-			  )
-			: DEFAULT_NODE_HEIGHT
-		: undefined;
+	// File nodes (generated images) default to the size of a 1792x1024 image
+	const isFile = nodeOptions.type === "file";
+
+	const width = isFile
+		? nodeOptions.size?.width || DEFAULT_NODE_WIDTH
+		: parentNode
+			? nodeOptions?.size?.width || Math.max(minWidth, parentNode?.width)
+			: DEFAULT_NODE_WIDTH;
+
+	const height = isFile
+		? nodeOptions.size?.height || DEFAULT_NODE_HEIGHT
+		: !text
+			? undefined
+			: parentNode
+				? nodeOptions?.size?.height || Math.max(minHeight, calcHeight({ text }))
+				: DEFAULT_NODE_HEIGHT;
 
 	// @ts-expect-error
 	let x = canvas.x - width / 2;
@@ -234,6 +233,8 @@ export const createNode = (
 			  canvas.createFileNode({
 				file: nodeOptions.file,
 				pos: { x, y },
+				position: "left",
+				size: { height, width },
 			  })
 			: canvas.createTextNode({
 				pos: { x, y },
@@ -284,6 +285,33 @@ export const createNode = (
 	return newNode;
 };
 
+/**
+ * Red node explaining why an action failed, linked to the node it was run on
+ * or in the middle of the view.
+ */
+export const createErrorNode = (
+	canvas: Canvas,
+	title: string,
+	error: unknown,
+	parentNode?: CanvasNode,
+	settings?: AugmentedCanvasSettings
+) => {
+	const text = errorNodeText(title, error);
+	const height = Math.max(minHeight, calcHeight({ text }));
+	return createNode(
+		canvas,
+		{
+			size: { width: DEFAULT_NODE_WIDTH, height },
+			text,
+			focus: false,
+		},
+		parentNode,
+		{ color: "1" },
+		undefined,
+		settings
+	);
+};
+
 /**
  * Add edge entry to canvas.
  */
@@ -0,0 +1,144 @@
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+
+/**
+ * Canvases embedded in canvases are expanded up to this depth, counting the outer one
+ */
+export const MAX_CANVAS_DEPTH = 3;
+
+/**
+ * Content of a node placed in the outline. `level` is the heading level
+ * free for the node, one below the group it is in.
+ */
+export type ReadOutlineNode = (
+	node: AllCanvasNodeData,
+	level: number
+) => Promise<string | undefined>;
+
+const MAX_TITLE_LENGTH = 40;
+
+const heading = (level: number, text: string) =>
+	`${"#".repeat(Math.min(level, 6))} ${text}`;
+
+/**
+ * Short name of a node in edge lines: group label, first line of text,
+ * file name or URL
+ */
+export function outlineNodeTitle(node: AllCanvasNodeData): string {
+	let title = "";
+	switch (node.type) {
+	case "group":
+		title = node.label || "Group";
+		break;
+	case "text":
+		title =
+			node.text
+				.split("\n")
+				.map((line) => line.replace(/^#+\s*/, "").trim())
+				.find(Boolean) || "Text";
+		break;
+	case "file":
+		title = (node.file.split("/").pop() || node.file) + (node.subpath || "");
+		break;
+	case "link":
+		title = node.url;
+		break;
+	}
+	title = title.replace(/\s+/g, " ");
+	return title.length > MAX_TITLE_LENGTH
+		? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…`
+		: title;
+}
+
+/**
+ * Innermost group containing the center of each node, like the canvas does
+ */
+function innermostGroups(nodes: AllCanvasNodeData[]) {
+	const groups = nodes.filter((node) => node.type === "group");
+	const parents = new Map<string, string>();
+
+	for (const node of nodes) {
+		const centerX = node.x + node.width / 2;
+		const centerY = node.y + node.height / 2;
+		let parent: AllCanvasNodeData | undefined;
+		for (const group of groups) {
+			if (group.id === node.id) continue;
+			const contains =
+				centerX >= group.x &&
+				centerX <= group.x + group.width &&
+				centerY >= group.y &&
+				centerY <= group.y + group.height;
+			// A group cannot sit inside a group that is not larger than itself
+			const area = group.width * group.height;
+			const tooSmall =
+				node.type === "group" && area <= node.width * node.height;
+			if (!contains || tooSmall) continue;
+			if (!parent || area < parent.width * parent.height) parent = group;
+		}
+		if (parent) parents.set(node.id, parent.id);
+	}
+
+	return parents;
+}
+
+function edgeLine(edge: CanvasEdgeData, titles: Map<string, string>) {
+	const from = titles.get(edge.fromNode);
+	const to = titles.get(edge.toNode);
+	if (!from || !to) return undefined;
+
+	const start = edge.fromEnd === "arrow" ? "<" : "";
+	const end = edge.toEnd === "none" ? "" : ">";
+	const label = edge.label?.replace(/\s+/g, " ").trim();
+	return label
+		? `- ${from} ${start}--${label}--${end} ${to}`
+		: `- ${from} ${start}--${end} ${to}`;
+}
+
+/**
+ * Canvas as a Markdown outline: nodes in reading order, groups as headings
+ * holding the nodes inside them, then one line per edge.
+ */
+export async function canvasToOutline(
+	data: Partial<CanvasData>,
+	readNode: ReadOutlineNode,
+	level = 2
+): Promise<string> {
+	const nodes = data.nodes || [];
+	const parents = innermostGroups(nodes);
+	const readingOrder = (a: AllCanvasNodeData, b: AllCanvasNodeData) =>
+		a.y - b.y || a.x - b.x;
+
+	const children = (parentId: string | undefined) =>
+		nodes
+			.filter((node) => parents.get(node.id) === parentId)
+			.sort(readingOrder);
+
+	const renderLevel = async (
+		parentId: string | undefined,
+		depth: number
+	): Promise<string[]> => {
+		const blocks: string[] = [];
+		const members = children(parentId);
+		// Loose nodes first, so they do not read as part of the group above them
+		for (const node of members.filter((node) => node.type !== "group")) {
+			const content = (await readNode(node, depth))?.trim();
+			if (content) blocks.push(content);
+		}
+		for (const group of members.filter((node) => node.type === "group")) {
+			blocks.push(heading(depth, outlineNodeTitle(group)));
+			blocks.push(...(await renderLevel(group.id, depth + 1)));
+		}
+		return blocks;
+	};
+
+	const blocks = await renderLevel(undefined, level);
+
+	const titles = new Map(nodes.map((node) => [node.id, outlineNodeTitle(node)]));
+	const edges = (data.edges || [])
+		.map((edge) => edgeLine(edge, titles))
+		.filter((line): line is string => !!line);
+	if (edges.length) {
+		blocks.push(heading(level, "Connections"), edges.join("\n"));
+	}
+
+	return blocks.join("\n\n");
+}
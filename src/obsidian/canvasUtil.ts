@@ -1,4 +1,5 @@
-import { CanvasNode } from "src/obsidian/canvas-internal";
+import { CanvasEdge, CanvasNode } from "src/obsidian/canvas-internal";
+import { getNodesInGroup, isGroup, isNodeInGroup } from "src/utils/groupUtils";
 
 export type HasId = {
 	id: string;
@@ -68,3 +69,83 @@ export async function visitNodeAndAncestors(
 		}
 	}
 }
+
+/**
+ * Context read besides the ancestors of the requesting node
+ */
+export interface ContextSources {
+	/**
+	 * Other nodes of the innermost group containing the node
+	 */
+	group: boolean;
+	/**
+	 * Nodes the node points to with an arrow
+	 */
+	outgoing: boolean;
+	/**
+	 * Nodes connected from the node by an edge without an arrow at the other end
+	 */
+	undirected: boolean;
+	/**
+	 * Notes linked with [[wikilinks]] in text nodes of the context
+	 */
+	wikilinks: boolean;
+}
+
+export const DEFAULT_CONTEXT_SOURCES: ContextSources = {
+	group: false,
+	outgoing: false,
+	undirected: false,
+	wikilinks: false,
+};
+
+/**
+ * Arrow style at the target end of an edge, `arrow` by default
+ */
+const edgeToEnd = (edge: CanvasEdge) =>
+	edge.getData?.().toEnd ?? "arrow";
+
+/**
+ * Innermost group containing the node
+ */
+export function parentGroup(node: CanvasNode) {
+	let innermost: CanvasNode | undefined;
+	for (const group of node.canvas.nodes.values()) {
+		if (group.id === node.id || !isGroup(group)) continue;
+		if (!isNodeInGroup(node, group)) continue;
+		if (!innermost || group.width * group.height < innermost.width * innermost.height) {
+			innermost = group;
+		}
+	}
+	return innermost;
+}
+
+/**
+ * Neighbors of a node that are not its parents, per enabled context source.
+ * Edges leaving the node are outgoing when they end with an arrow, undirected otherwise.
+ */
+export function nodeNeighbors(node: CanvasNode, sources: ContextSources) {
+	const neighbors = new Map<string, CanvasNode>();
+	const add = (neighbor: CanvasNode) => {
+		if (neighbor.id !== node.id) neighbors.set(neighbor.id, neighbor);
+	};
+
+	if (sources.outgoing || sources.undirected) {
+		node.canvas
+			.getEdgesForNode(node)
+			.filter((edge) => edge.from.node.id === node.id)
+			.filter((edge) =>
+				edgeToEnd(edge) === "none" ? sources.undirected : sources.outgoing
+			)
+			.forEach((edge) => add(edge.to.node));
+	}
+
+	const group = sources.group && !isGroup(node) ? parentGroup(node) : undefined;
+	if (group) {
+		getNodesInGroup(group, node.canvas)
+			.filter((member) => !isGroup(member))
+			.forEach(add);
+	}
+
+	return Array.from(neighbors.values());
+}
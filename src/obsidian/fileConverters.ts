@@ -0,0 +1,240 @@
+import { htmlToMarkdown } from "obsidian";
+import { strFromU8, unzipSync } from "fflate";
+import { logDebug } from "../logDebug";
+
+/**
+ * Converters of non-Markdown files to Markdown text sent as AI context
+ */
+
+/**
+ * Descendant elements by local name, ignoring the namespace prefix
+ */
+const elementsByName = (root: Document | Element, name: string) =>
+	Array.from(root.getElementsByTagName("*")).filter(
+		(el) => el.localName === name
+	);
+
+const childrenByName = (el: Element, name: string) =>
+	Array.from(el.children).filter((child) => child.localName === name);
+
+const parseXml = (text: string) =>
+	new DOMParser().parseFromString(text, "application/xml");
+
+/**
+ * Body of an HTML page as Markdown, without scripts, styles and page chrome.
+ * Web clippings keep the main article when the page marks it.
+ */
+export function htmlFileToMarkdown(html: string): string {
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	doc.querySelectorAll("script, style, noscript, template").forEach((el) =>
+		el.remove()
+	);
+
+	const main = doc.querySelector("article") || doc.querySelector("main");
+	if (!main) {
+		doc.querySelectorAll("nav, header, footer, aside").forEach((el) =>
+			el.remove()
+		);
+	}
+	const body = htmlToMarkdown((main || doc.body) as HTMLElement).trim();
+
+	const title = doc.title?.trim();
+	return title && !body.startsWith("# ") ? `# ${title}\n\n${body}` : body;
+}
+
+/**
+ * Chapters of an EPUB book in reading (spine) order
+ */
+export function epubToMarkdown(data: ArrayBuffer): string {
+	const files = unzipSync(new Uint8Array(data));
+	const read = (path: string) =>
+		files[path] ? strFromU8(files[path]) : undefined;
+
+	const container = read("META-INF/container.xml");
+	if (!container) throw new Error("Not an EPUB file: META-INF/container.xml is missing");
+
+	const opfPath = elementsByName(parseXml(container), "rootfile")[0]?.getAttribute(
+		"full-path"
+	);
+	const opfText = opfPath && read(opfPath);
+	if (!opfText) throw new Error("EPUB package document not found");
+
+	const opf = parseXml(opfText);
+	const baseDir = opfPath.includes("/")
+		? opfPath.slice(0, opfPath.lastIndexOf("/") + 1)
+		: "";
+
+	const hrefs = new Map<string, string>();
+	for (const item of elementsByName(opf, "item")) {
+		const id = item.getAttribute("id");
+		const href = item.getAttribute("href");
+		if (id && href) hrefs.set(id, href);
+	}
+
+	const chapters: string[] = [];
+	const title = elementsByName(opf, "title")[0]?.textContent?.trim();
+	if (title) chapters.push(`# ${title}`);
+
+	for (const itemref of elementsByName(opf, "itemref")) {
+		const href = hrefs.get(itemref.getAttribute("idref") || "");
+		if (!href) continue;
+
+		const xhtml = read(baseDir + decodeURIComponent(href.split("#")[0]));
+		if (!xhtml) continue;
+
+		const chapter = htmlFileToMarkdown(xhtml);
+		if (chapter) chapters.push(chapter);
+	}
+
+	return chapters.join("\n\n");
+}
+
+/**
+ * Text of a paragraph, with tabs and line breaks
+ */
+const docxParagraphText = (paragraph: Element) =>
+	Array.from(paragraph.getElementsByTagName("*"))
+		.map((el) => {
+			switch (el.localName) {
+			case "t":
+				return el.textContent || "";
+			case "tab":
+				// Tab stops are also declared in the paragraph properties
+				return el.parentElement?.localName === "r" ? "\t" : "";
+			case "br":
+			case "cr":
+				return "\n";
+			default:
+				return "";
+			}
+		})
+		.join("");
+
+const docxParagraph = (paragraph: Element) => {
+	const text = docxParagraphText(paragraph).trim();
+	if (!text) return "";
+
+	const properties = childrenByName(paragraph, "pPr")[0];
+	const style =
+		(properties &&
+			childrenByName(properties, "pStyle")[0]?.getAttribute("w:val")) ||
+		"";
+
+	const heading = /^heading\s*(\d)$/i.exec(style);
+	if (heading) return `${"#".repeat(Math.min(+heading[1], 6))} ${text}`;
+	if (/^title$/i.test(style)) return `# ${text}`;
+	if (properties && childrenByName(properties, "numPr").length) return `- ${text}`;
+	return text;
+};
+
+const docxTable = (table: Element) => {
+	const rows = childrenByName(table, "tr").map((row) =>
+		childrenByName(row, "tc").map((cell) =>
+			childrenByName(cell, "p").map(docxParagraphText).join(" ").trim()
+		)
+	);
+	return markdownTable(rows);
+};
+
+/**
+ * Paragraphs, headings, list items and tables of a Word document
+ */
+export function docxToMarkdown(data: ArrayBuffer): string {
+	const files = unzipSync(new Uint8Array(data), {
+		filter: (file) => file.name === "word/document.xml",
+	});
+	const document = files["word/document.xml"];
+	if (!document) throw new Error("Not a DOCX file: word/document.xml is missing");
+
+	const body = elementsByName(parseXml(strFromU8(document)), "body")[0];
+	if (!body) return "";
+
+	return Array.from(body.children)
+		.map((block) => {
+			if (block.localName === "p") return docxParagraph(block);
+			if (block.localName === "tbl") return docxTable(block);
+			return "";
+		})
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+/**
+ * Rows of a CSV text (RFC 4180): quoted fields may contain delimiters,
+ * line breaks and doubled quotes
+ */
+export function parseCsvRows(text: string, delimiter = ","): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char !== '"') field += char;
+			else if (text[i + 1] === '"') field += text[++i];
+			else quoted = false;
+		} else if (char === '"' && !field) {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+	// Blank lines are not records
+	return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Markdown table, the first row being the header
+ */
+export function markdownTable(rows: string[][]): string {
+	if (!rows.length) return "";
+
+	const width = Math.max(...rows.map((row) => row.length));
+	const line = (cells: string[]) =>
+		"| " +
+		Array.from({ length: width }, (_, i) =>
+			(cells[i] || "").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>")
+		).join(" | ") +
+		" |";
+
+	return [
+		line(rows[0]),
+		line(Array.from({ length: width }, () => "---")),
+		...rows.slice(1).map(line),
+	].join("\n");
+}
+
+/**
+ * CSV (or TSV) as a Markdown table
+ */
+export const csvToMarkdown = (text: string, delimiter = ",") =>
+	markdownTable(parseCsvRows(text.replace(/^\uFEFF/, ""), delimiter));
+
+/**
+ * JSON pretty-printed in a code block, as is when it does not parse
+ */
+export function jsonToMarkdown(text: string): string {
+	let body = text.trim();
+	try {
+		body = JSON.stringify(JSON.parse(body), null, 2);
+	} catch (error) {
+		logDebug("Invalid JSON file, sending it as is", error);
+	}
+	return "```json\n" + body + "\n```";
+}
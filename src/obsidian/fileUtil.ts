@@ -1,102 +1,185 @@
 import {
 	App,
+	Notice,
 	TFile,
 	TFolder,
-	loadPdfJs,
 	resolveSubpath,
 } from "obsidian";
 import { Canvas, CanvasNode, CreateNodeOptions } from "./canvas-internal";
+import { parsePageRange, readPdfPages } from "./pdfReader";
+import { readLinkContent } from "./linkReader";
+import { imageAltText, isImageFile } from "./imageUtil";
+import { MAX_CANVAS_DEPTH, canvasToOutline } from "./canvasOutline";
+import { markdownOptions, normalizeMarkdown } from "./markdownNormalizer";
+import {
+	csvToMarkdown,
+	docxToMarkdown,
+	epubToMarkdown,
+	htmlFileToMarkdown,
+	jsonToMarkdown,
+} from "./fileConverters";
+
+/**
+ * Part of the Dataview plugin API used to render queries
+ */
+interface DataviewApi {
+	queryMarkdown(
+		query: string,
+		originFile: string
+	): Promise<{ successful: true; value: string } | { successful: false; error: string }>;
+}
 
+const isDataviewApi = (api: unknown): api is DataviewApi =>
+	typeof (api as DataviewApi | undefined)?.queryMarkdown === "function";
+
+/**
+ * Results of a Dataview query as Markdown, when the Dataview plugin is enabled
+ */
+const queryDataview = async (app: App, query: string, sourcePath: string) => {
+	const api = app.plugins?.plugins?.dataview?.api;
+	if (!isDataviewApi(api)) return undefined;
+	try {
+		const result = await api.queryMarkdown(query, sourcePath);
+		if (result?.successful) return result.value;
+		console.warn("Dataview query failed", { query, error: result?.error });
+	} catch (error) {
+		console.warn("Dataview query failed", { query, error });
+	}
+	return undefined;
+};
+
+/**
+ * Text of a note, or the heading or block selected by `subpath`, normalized
+ * for the model (see `normalizeMarkdown`). `trail` holds the notes embedding
+ * this one, to limit and stop cycles of `![[embeds]]`.
+ */
 export async function readFileContent(
 	app: App,
 	file: TFile,
-	subpath?: string | undefined
-) {
-	// TODO: remove frontmatter
+	subpath?: string | undefined,
+	trail: string[] = []
+): Promise<string> {
 	const body = await app.vault.read(file);
-
-	if (subpath) {
-		const cache = app.metadataCache.getFileCache(file);
-		if (cache) {
-			const resolved = resolveSubpath(cache, subpath);
-			if (!resolved) {
-				console.warn("Failed to get subpath", { file, subpath });
-				return body;
-			}
-			if (resolved.start || resolved.end) {
-				const subText = body.slice(
-					resolved.start.offset,
-					resolved.end?.offset
-				);
-				if (subText) {
-					return subText;
-				} else {
-					console.warn("Failed to get subpath", { file, subpath });
-					return body;
+	const cache = app.metadataCache.getFileCache(file);
+	const options = markdownOptions();
+	const path = [...trail, file.path];
+
+	const normalize = (text: string) =>
+		normalizeMarkdown(text, {
+			options,
+			properties: cache?.frontmatter,
+			queryDataview: (query) => queryDataview(app, query, file.path),
+			readEmbed: async (link) => {
+				if (path.length > options.embedDepth) return undefined;
+				const hash = link.indexOf("#");
+				const linkpath = hash === -1 ? link : link.slice(0, hash);
+				const embedded = app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+				if (!(embedded instanceof TFile) || embedded.extension !== "md") {
+					return undefined;
 				}
+				// A note embedding itself, directly or through others, stays a link
+				if (path.includes(embedded.path)) return undefined;
+				return readFileContent(
+					app,
+					embedded,
+					hash === -1 ? undefined : link.slice(hash),
+					path
+				);
+			},
+		});
+
+	if (subpath && cache) {
+		const resolved = resolveSubpath(cache, subpath);
+		if (!resolved) {
+			console.warn("Failed to get subpath", { file, subpath });
+			return normalize(body);
+		}
+		if (resolved.start || resolved.end) {
+			const subText = body.slice(
+				resolved.start.offset,
+				resolved.end?.offset
+			);
+			if (subText) {
+				return normalize(subText);
+			} else {
+				console.warn("Failed to get subpath", { file, subpath });
+				return normalize(body);
 			}
 		}
 	}
 
-	return body;
+	return normalize(body);
 }
 
-const pdfToMarkdown = async (app: App, file: TFile) => {
-	const pdfjsLib = await loadPdfJs();
+/**
+ * Text of a PDF as Markdown, only the pages selected by a `#page=3-7` subpath
+ */
+const pdfToMarkdown = async (app: App, file: TFile, subpath?: string) => {
+	const pages = await readPdfPages(await app.vault.readBinary(file));
+	const selected = parsePageRange(subpath, pages.length);
 
-	const pdfBuffer = await app.vault.readBinary(file);
-	const loadingTask = pdfjsLib.getDocument({ data: pdfBuffer });
-	const pdf = await loadingTask.promise;
+	const range =
+		selected.length < pages.length ? ` (${subpath!.replace(/^#/, "")})` : "";
+	const content = selected
+		.map((pageNum) => `<!-- page ${pageNum} -->\n\n${pages[pageNum - 1]}`)
+		.join("\n\n---\n\n");
 
-	const ebookTitle = file
-		.path!.split("/")
-		.pop()!
-		.replace(/\.pdf$/i, "");
+	return `# ${file.basename}${range}\n\n${content}`;
+};
 
-	let markdownContent = `# ${ebookTitle}
+/**
+ * Text of a file that is not Markdown, converted to Markdown.
+ * Undefined for file types without a converter.
+ */
+const convertFileContent = async (
+	app: App,
+	file: TFile,
+	subpath?: string
+) => {
+	try {
+		switch (file.extension.toLowerCase()) {
+		case "pdf":
+			return await pdfToMarkdown(app, file, subpath);
 
-`;
+		case "epub":
+			return epubToMarkdown(await app.vault.readBinary(file));
 
-	for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-		const page = await pdf.getPage(pageNum);
-		const textContent = await page.getTextContent();
+		case "docx":
+			return `# ${file.basename}\n\n${docxToMarkdown(await app.vault.readBinary(file))}`;
 
-		const pageText = textContent.items
-			.map((item: { str: string }) => item.str)
-			.join(" ");
+		case "html":
+		case "htm":
+			return htmlFileToMarkdown(await app.vault.cachedRead(file));
 
-		// Here you would need to enhance the logic to convert the text into Markdown.
-		// For example, you could detect headers, lists, tables, etc., and apply the appropriate Markdown formatting.
-		// This can get quite complex depending on the structure and layout of the original PDF.
+		case "csv":
+			return `# ${file.basename}\n\n${csvToMarkdown(await app.vault.cachedRead(file))}`;
 
-		// Add a page break after each page's content.
-		markdownContent += pageText + "\n\n---\n\n";
-	}
+		case "tsv":
+			return `# ${file.basename}\n\n${csvToMarkdown(await app.vault.cachedRead(file), "\t")}`;
 
-	return markdownContent;
-};
+		case "json":
+			return `# ${file.basename}\n\n${jsonToMarkdown(await app.vault.cachedRead(file))}`;
 
-const epubToMarkdown = async (_app: App, _file: TFile) => {
-	// TODO: 实现 EPUB 转 Markdown
-	return "";
+		default:
+			return undefined;
+		}
+	} catch (error) {
+		console.error(`Failed to read ${file.path}:`, error);
+		new Notice(`无法读取文件 ${file.name}: ${error?.message || error}`);
+		return "";
+	}
 };
 
 const readDifferentExtensionFileContent = async (app: App, file: TFile) => {
-	switch (file.extension) {
-	case "md": {
-		const body = await app.vault.cachedRead(file);
+	if (file.extension === "md") {
+		const body = await readFileContent(app, file);
 		return `## ${file.basename}\n${body}`;
 	}
-
-	case "pdf":
-		return pdfToMarkdown(app, file);
-
-	case "epub":
-		return epubToMarkdown(app, file);
-
-	default:
-		break;
+	if (file.extension === "canvas") {
+		return `# ${file.basename}\n\n${await readCanvasOutline(app, file)}`;
 	}
+
+	return convertFileContent(app, file);
 };
 
 export async function readNodeContent(node: CanvasNode) {
@@ -108,7 +191,10 @@ export async function readNodeContent(node: CanvasNode) {
 	case "file": {
 		const file = app.vault.getAbstractFileByPath(nodeData.file);
 		if (file instanceof TFile) {
-			if (node.subpath) {
+			if (file.extension === "pdf") {
+				// PDF subpaths select pages: #page=3-7
+				return convertFileContent(app, file, nodeData.subpath);
+			} else if (node.subpath) {
 				return await readFileContent(app, file, nodeData.subpath);
 			} else {
 				return readDifferentExtensionFileContent(app, file);
@@ -118,9 +204,70 @@ export async function readNodeContent(node: CanvasNode) {
 		}
 		break;
 	}
+	case "link":
+		return readLinkContent(nodeData.url);
 	}
 }
 
+/**
+ * `readNodeContent` that reads each node once, for the passes of a single
+ * request over the same ancestors
+ */
+export function nodeContentReader() {
+	const texts = new Map<string, ReturnType<typeof readNodeContent>>();
+	return (node: CanvasNode) => {
+		if (!texts.has(node.id)) texts.set(node.id, readNodeContent(node));
+		return texts.get(node.id)!;
+	};
+}
+
+export type NodeContentReader = ReturnType<typeof nodeContentReader>;
+
+const WIKILINK_REGEX = /!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+/**
+ * Targets of the [[wikilinks]] and ![[embeds]] in a text, without duplicates.
+ * `[[Note#Heading|alias]]` gives `{ path: "Note", subpath: "#Heading" }`.
+ */
+export function parseWikilinks(text: string) {
+	const links = new Map<string, { path: string; subpath?: string }>();
+	for (const match of text.matchAll(WIKILINK_REGEX)) {
+		const target = match[1].trim();
+		const hash = target.indexOf("#");
+		const path = (hash === -1 ? target : target.slice(0, hash)).trim();
+		const subpath = hash === -1 ? undefined : target.slice(hash);
+		// Links to a heading of the same file have no path
+		if (path) links.set(target, { path, subpath });
+	}
+	return Array.from(links.values());
+}
+
+/**
+ * Markdown notes linked from a text, resolved from `sourcePath` like Obsidian
+ * resolves links. Heading and block links only read that part of the note.
+ */
+export async function readLinkedNotes(
+	app: App,
+	text: string,
+	sourcePath: string
+) {
+	const notes: { link: string; path: string; content: string }[] = [];
+
+	for (const { path, subpath } of parseWikilinks(text)) {
+		const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+		if (!(file instanceof TFile) || file.extension !== "md") continue;
+
+		const body = await readFileContent(app, file, subpath);
+		notes.push({
+			link: file.path + (subpath || ""),
+			path: file.path,
+			content: `## ${file.basename}${subpath || ""}\n${body}`,
+		});
+	}
+
+	return notes;
+}
+
 export const getFilesContent = async (app: App, files: TFile[]) => {
 	let content = "";
 
@@ -159,63 +306,121 @@ export const generateFileName = (prefix: string = "file"): string => {
 	return `${prefix}_${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
 };
 
-/*
- * Will read canvas node content || md note content
- * TODO add backlinks reading
+/**
+ * Outline of a canvas file, with the content of its nodes.
+ * `trail` holds the canvases being read around this one: a canvas embedding
+ * one of them, or nested deeper than MAX_CANVAS_DEPTH, is only named.
+ * Files in `listed` are sent on their own and only named too.
  */
-export const cachedReadFile = async (app: App, file: TFile) => {
-	if (file.path.endsWith(".canvas")) {
-		const canvasJson = JSON.parse(await app.vault.cachedRead(file));
-		console.log({ canvasJson });
-
-		const nodesContent: string[] = [];
-
-		if (canvasJson.nodes) {
-			for await (const node of canvasJson.nodes) {
-				if (node.type === "text") {
-					nodesContent.push(node.text!);
-				} else if (node.type === "file") {
-					nodesContent.push(
-						await cachedReadFile(
-							app,
-							app.vault.getAbstractFileByPath(node.file!) as TFile
-						)
+export async function readCanvasOutline(
+	app: App,
+	file: TFile,
+	level = 2,
+	trail: string[] = [],
+	listed: ReadonlySet<string> = new Set()
+): Promise<string> {
+	let data;
+	try {
+		data = JSON.parse((await app.vault.cachedRead(file)) || "{}");
+	} catch (error) {
+		console.error(`Failed to read ${file.path}:`, error);
+		new Notice(`无法读取白板 ${file.name}: ${error?.message || error}`);
+		return "";
+	}
+	const path = [...trail, file.path];
+
+	return canvasToOutline(
+		data,
+		async (node, nodeLevel) => {
+			switch (node.type) {
+			case "text":
+				return node.text;
+			case "link":
+				return `<${node.url}>`;
+			case "file": {
+				const nested = app.vault.getAbstractFileByPath(node.file);
+				if (!(nested instanceof TFile)) return `[[${node.file}]]`;
+				if (listed.has(nested.path)) return `[[${nested.path}]] (sent separately)`;
+
+				if (nested.extension === "canvas") {
+					if (path.includes(nested.path)) {
+						return `[[${nested.path}]] (already included above)`;
+					}
+					if (path.length >= MAX_CANVAS_DEPTH) {
+						return `[[${nested.path}]] (nested too deep to expand)`;
+					}
+					const outline = await readCanvasOutline(
+						app,
+						nested,
+						nodeLevel + 1,
+						path,
+						listed
 					);
+					return `${"#".repeat(Math.min(nodeLevel, 6))} ${nested.basename}\n\n${outline}`;
+				}
+				if (isImageFile(nested)) return imageAltText(nested);
+				if (nested.extension === "md") {
+					return readFileContent(app, nested, node.subpath);
 				}
+				return (
+					(await convertFileContent(app, nested, node.subpath)) ??
+					(await app.vault.cachedRead(nested))
+				);
 			}
-		}
-
-		// console.log({ canvas: { file, nodesContent } });
+			}
+		},
+		level
+	);
+}
 
-		return nodesContent.join("\n\n");
-	} else {
-		return await app.vault.cachedRead(file);
+/*
+ * Will read canvas node content || md note content
+ * TODO add backlinks reading
+ * Files in `listed` are sent on their own: canvases only name them.
+ */
+export const cachedReadFile = async (
+	app: App,
+	file: TFile,
+	listed?: ReadonlySet<string>
+) => {
+	if (file.extension === "canvas") {
+		return readCanvasOutline(app, file, 2, [], listed);
 	}
+	if (file.extension === "md") {
+		return readFileContent(app, file);
+	}
+	if (isImageFile(file)) {
+		return imageAltText(file);
+	}
+	return (
+		(await convertFileContent(app, file)) ??
+		(await app.vault.cachedRead(file))
+	);
 };
 
-// TODO : if there is a canvas which link to a file in the same folder then the folder can be read two times
+/**
+ * Files under a folder and its subfolders, by path
+ */
+export const listFolderFiles = (folder: TFolder): TFile[] =>
+	folder.children
+		.flatMap((child) =>
+			child instanceof TFile
+				? [child]
+				: child instanceof TFolder
+					? listFolderFiles(child)
+					: []
+		)
+		.sort((a, b) => a.path.localeCompare(b.path));
+
 export const readFolderMarkdownContent = async (app: App, folder: TFolder) => {
-	// console.log({ folder });
+	const files = listFolderFiles(folder);
+	const listed = new Set(files.map((file) => file.path));
 
 	const filesContent: string[] = [];
-	for await (const fileOrFolder of folder.children) {
-		if (fileOrFolder instanceof TFile) {
-			// TODO special parsing for .canvas
-			filesContent.push(
-				`
-# ${fileOrFolder.path}
-
-${await cachedReadFile(app, fileOrFolder)}
-`.trim()
-			);
-		} else {
-			filesContent.push(
-				`${await readFolderMarkdownContent(
-					app,
-					fileOrFolder as TFolder
-				)}`
-			);
-		}
+	for (const file of files) {
+		filesContent.push(
+			`# ${file.path}\n\n${await cachedReadFile(app, file, listed)}`.trim()
+		);
 	}
 
 	return filesContent.join("\n\n");
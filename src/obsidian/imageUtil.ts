@@ -0,0 +1,161 @@
+import { App, Notice, TFile, arrayBufferToBase64 } from "obsidian";
+import { CanvasNode } from "./canvas-internal";
+import { estimateImageTokens } from "../openai/usage";
+
+/**
+ * Image formats vision models accept, by file extension
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+	gif: "image/gif",
+};
+
+/**
+ * An image file sent as a content part
+ */
+export interface ContextImage {
+	path: string;
+	mimeType: string;
+	/**
+	 * Base64 file content
+	 */
+	data: string;
+	width?: number;
+	height?: number;
+	/**
+	 * Estimated prompt tokens of the image
+	 */
+	tokens: number;
+}
+
+export const isImageFile = (file: TFile) =>
+	file.extension.toLowerCase() in IMAGE_MIME_TYPES;
+
+/**
+ * Image file shown by a file node, if any
+ */
+export function imageFileOfNode(node: CanvasNode): TFile | undefined {
+	const data = node.getData();
+	if (data.type !== "file") return undefined;
+	const file = node.app.vault.getAbstractFileByPath(data.file);
+	return file instanceof TFile && isImageFile(file) ? file : undefined;
+}
+
+/**
+ * Text standing for an image: its caption for vision models,
+ * all that is sent to text-only models
+ */
+export const imageAltText = (file: TFile) => `Image: ${file.path}`;
+
+export const imageDataUrl = (image: Pick<ContextImage, "mimeType" | "data">) =>
+	`data:${image.mimeType};base64,${image.data}`;
+
+/**
+ * Pixel size read from the PNG, JPEG, GIF or WebP header
+ */
+export function imageDimensions(
+	data: ArrayBuffer
+): { width: number; height: number } | undefined {
+	const view = new DataView(data);
+	const bytes = new Uint8Array(data);
+	const ascii = (offset: number, length: number) =>
+		String.fromCharCode(...bytes.slice(offset, offset + length));
+
+	if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+		return { width: view.getUint32(16), height: view.getUint32(20) };
+	}
+
+	if (bytes.length >= 10 && ascii(0, 3) === "GIF") {
+		return {
+			width: view.getUint16(6, true),
+			height: view.getUint16(8, true),
+		};
+	}
+
+	if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+		const chunk = ascii(12, 4);
+		if (chunk === "VP8 ") {
+			return {
+				width: view.getUint16(26, true) & 0x3fff,
+				height: view.getUint16(28, true) & 0x3fff,
+			};
+		}
+		if (chunk === "VP8L") {
+			const bits = view.getUint32(21, true);
+			return {
+				width: (bits & 0x3fff) + 1,
+				height: ((bits >> 14) & 0x3fff) + 1,
+			};
+		}
+		if (chunk === "VP8X") {
+			const uint24 = (offset: number) =>
+				bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+			return { width: uint24(24) + 1, height: uint24(27) + 1 };
+		}
+		return undefined;
+	}
+
+	if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+		// Walk the JPEG segments up to the start of frame
+		let offset = 2;
+		while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+			const marker = bytes[offset + 1];
+			const length = view.getUint16(offset + 2);
+			const isStartOfFrame =
+				marker >= 0xc0 &&
+				marker <= 0xcf &&
+				![0xc4, 0xc8, 0xcc].includes(marker);
+			if (isStartOfFrame) {
+				return {
+					height: view.getUint16(offset + 5),
+					width: view.getUint16(offset + 7),
+				};
+			}
+			offset += 2 + length;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * File extension matching the image format, PNG when it is not recognized
+ */
+export function imageExtension(data: ArrayBuffer): string {
+	const bytes = new Uint8Array(data.slice(0, 12));
+	const ascii = (offset: number, length: number) =>
+		String.fromCharCode(...bytes.slice(offset, offset + length));
+
+	if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpg";
+	if (ascii(0, 3) === "GIF") return "gif";
+	if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") return "webp";
+	return "png";
+}
+
+/**
+ * Read an image file to send it to a vision model.
+ * Undefined when the file cannot be read.
+ */
+export async function readImage(
+	app: App,
+	file: TFile
+): Promise<ContextImage | undefined> {
+	try {
+		const data = await app.vault.readBinary(file);
+		const size = imageDimensions(data);
+		return {
+			path: file.path,
+			mimeType: IMAGE_MIME_TYPES[file.extension.toLowerCase()],
+			data: arrayBufferToBase64(data),
+			...size,
+			tokens: estimateImageTokens(size?.width, size?.height),
+		};
+	} catch (error) {
+		console.error(`Failed to read ${file.path}:`, error);
+		new Notice(`无法读取图片 ${file.name}: ${error?.message || error}`);
+		return undefined;
+	}
+}
@@ -0,0 +1,123 @@
+import { DataAdapter, Notice, requestUrl } from "obsidian";
+import { htmlFileToMarkdown, jsonToMarkdown } from "./fileConverters";
+
+/**
+ * Pages kept in the cache, the oldest fetched are dropped first
+ */
+const MAX_CACHED_PAGES = 200;
+
+interface CachedPage {
+	fetchedAt: number;
+	content: string;
+}
+
+/**
+ * Markdown of fetched web pages by URL, saved in the plugin folder.
+ * Entries older than the TTL are fetched again.
+ */
+export class LinkCache {
+	pages: Record<string, CachedPage> = {};
+
+	constructor(
+		private adapter: Pick<DataAdapter, "exists" | "read" | "write">,
+		private path: string,
+		/**
+		 * Time to live in milliseconds, read on every lookup so settings apply at once.
+		 * 0 disables the cache.
+		 */
+		private ttl: () => number
+	) {}
+
+	async load() {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.adapter.read(this.path));
+				this.pages = data?.pages && typeof data.pages === "object" ? data.pages : {};
+			}
+		} catch (error) {
+			console.error("Failed to load the link cache:", error);
+			this.pages = {};
+		}
+	}
+
+	get(url: string, now = Date.now()): string | undefined {
+		const page = this.pages[url];
+		const ttl = this.ttl();
+		if (!page || !ttl || now - page.fetchedAt > ttl) return undefined;
+		return page.content;
+	}
+
+	async set(url: string, content: string, now = Date.now()) {
+		if (!this.ttl()) return;
+
+		this.pages[url] = { fetchedAt: now, content };
+		const urls = Object.keys(this.pages);
+		if (urls.length > MAX_CACHED_PAGES) {
+			urls
+				.sort((a, b) => this.pages[a].fetchedAt - this.pages[b].fetchedAt)
+				.slice(0, urls.length - MAX_CACHED_PAGES)
+				.forEach((old) => delete this.pages[old]);
+		}
+
+		try {
+			await this.adapter.write(
+				this.path,
+				JSON.stringify({ version: 1, pages: this.pages })
+			);
+		} catch (error) {
+			console.error("Failed to save the link cache:", error);
+		}
+	}
+}
+
+let _cache: LinkCache | null = null;
+
+export const initLinkCache = (cache: LinkCache | null) => {
+	_cache = cache;
+};
+
+/**
+ * Readable Markdown of a web page: the main article of HTML pages without
+ * scripts, navigation and footers; plain text and JSON as they are
+ */
+export async function fetchLinkMarkdown(url: string): Promise<string> {
+	const response = await requestUrl({ url, throw: false });
+	if (response.status >= 400) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+
+	const contentType = (
+		Object.entries(response.headers).find(
+			([name]) => name.toLowerCase() === "content-type"
+		)?.[1] || ""
+	).toLowerCase();
+
+	if (contentType.includes("json")) return jsonToMarkdown(response.text);
+	if (contentType.startsWith("text/plain") || contentType.includes("markdown")) {
+		return response.text.trim();
+	}
+	if (!contentType || contentType.includes("html")) {
+		return htmlFileToMarkdown(response.text);
+	}
+	throw new Error(`Unsupported content type: ${contentType}`);
+}
+
+/**
+ * Content of a link node, from the cache when the page was fetched recently.
+ * Empty when the page cannot be fetched.
+ */
+export async function readLinkContent(url: string): Promise<string> {
+	const cached = _cache?.get(url);
+	if (cached !== undefined) return cached;
+
+	try {
+		const markdown = await fetchLinkMarkdown(url);
+		const content = `Source: ${url}\n\n${markdown}`;
+		await _cache?.set(url, content);
+		return content;
+	} catch (error) {
+		console.error(`Failed to fetch ${url}:`, error);
+		new Notice(`无法读取网页 ${url}: ${error?.message || error}`);
+		return "";
+	}
+}
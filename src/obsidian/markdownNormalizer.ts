@@ -0,0 +1,173 @@
+/**
+ * How the YAML front matter of a note is sent:
+ * dropped, reduced to a property list, or as written
+ */
+export type FrontMatterMode = "remove" | "summarize" | "keep";
+
+export interface MarkdownOptions {
+	frontMatter: FrontMatterMode;
+	/**
+	 * Levels of `![[embeds]]` replaced by the embedded note, 0 leaves them as links
+	 */
+	embedDepth: number;
+	/**
+	 * Replace ```dataview blocks with their results when the Dataview plugin is enabled
+	 */
+	renderDataview: boolean;
+}
+
+export const DEFAULT_MARKDOWN_OPTIONS: MarkdownOptions = {
+	frontMatter: "summarize",
+	embedDepth: 1,
+	renderDataview: true,
+};
+
+let _options: () => MarkdownOptions = () => DEFAULT_MARKDOWN_OPTIONS;
+
+/**
+ * Options read on every note, so settings apply at once
+ */
+export const initMarkdownOptions = (options: (() => MarkdownOptions) | null) => {
+	_options = options || (() => DEFAULT_MARKDOWN_OPTIONS);
+};
+
+export const markdownOptions = () => _options();
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const FENCE_REGEX = /^([ \t]*)(`{3,}|~{3,})([^\n]*)\n([\s\S]*?)^[ \t]*\2[ \t]*$/gm;
+// Inline code, matched first so what it contains is kept as written.
+// A code span does not cross a blank line.
+const CODE_SPAN = /(?<!`)(`+)(?!`)(?:(?!\n[ \t]*\n)[\s\S])*?(?<!`)\1(?!`)/.source;
+const EMBED_REGEX = new RegExp(`${CODE_SPAN}|!\\[\\[([^\\]|]+)(?:\\|[^\\]]*)?\\]\\]`, "g");
+// Obsidian comments and Templater commands
+const HIDDEN_REGEX = new RegExp(`${CODE_SPAN}|%%[\\s\\S]*?%%|<%[\\s\\S]*?%>`, "g");
+
+/**
+ * Front matter of a note, as written, and the text after it
+ */
+export function splitFrontMatter(text: string) {
+	const match = FRONT_MATTER_REGEX.exec(text);
+	if (!match) return { frontMatter: undefined, body: text };
+	return { frontMatter: match[1], body: text.slice(match[0].length) };
+}
+
+const propertyValue = (value: unknown): string => {
+	if (Array.isArray(value)) return value.map(propertyValue).filter(Boolean).join(", ");
+	if (value && typeof value === "object") return JSON.stringify(value);
+	return value === null || value === undefined ? "" : String(value);
+};
+
+/**
+ * Properties as a short list, empty ones left out. Without parsed properties
+ * the YAML lines are kept as they are.
+ */
+export function summarizeFrontMatter(
+	frontMatter: string,
+	properties?: Record<string, unknown>
+) {
+	const lines = properties
+		? Object.entries(properties)
+			// Obsidian adds the position of the front matter to the parsed properties
+			.filter(([key]) => key !== "position")
+			.map(([key, value]) => [key, propertyValue(value)])
+			.filter(([, value]) => value)
+			.map(([key, value]) => `- ${key}: ${value}`)
+		: frontMatter
+			.split("\n")
+			.map((line) => line.trimEnd())
+			.filter((line) => line.trim());
+	return lines.length ? `Properties:\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Apply `transform` to the text outside fenced code blocks and `transformBlock`
+ * to each block, in order
+ */
+async function mapFences(
+	text: string,
+	transform: (text: string) => Promise<string>,
+	transformBlock: (block: string, language: string, code: string) => Promise<string>
+) {
+	let result = "";
+	let last = 0;
+	for (const match of text.matchAll(FENCE_REGEX)) {
+		result += await transform(text.slice(last, match.index));
+		result += await transformBlock(match[0], match[3].trim().toLowerCase(), match[4]);
+		last = match.index! + match[0].length;
+	}
+	return result + (await transform(text.slice(last)));
+}
+
+async function replaceAsync(
+	text: string,
+	regex: RegExp,
+	replace: (match: RegExpMatchArray) => Promise<string>
+) {
+	let result = "";
+	let last = 0;
+	for (const match of text.matchAll(regex)) {
+		result += text.slice(last, match.index) + (await replace(match));
+		last = match.index! + match[0].length;
+	}
+	return result + text.slice(last);
+}
+
+export interface NormalizeContext {
+	options: MarkdownOptions;
+	/**
+	 * Properties parsed by Obsidian, to summarize the front matter
+	 */
+	properties?: Record<string, unknown>;
+	/**
+	 * Content of an embedded note, undefined to keep the embed as a link
+	 */
+	readEmbed?: (link: string) => Promise<string | undefined>;
+	/**
+	 * Results of a Dataview query as Markdown, undefined when it cannot be rendered
+	 */
+	queryDataview?: (query: string) => Promise<string | undefined>;
+}
+
+/**
+ * Note text as sent to the model: front matter handled per the options,
+ * comments and Templater commands removed, embeds replaced by the embedded
+ * notes and Dataview queries by their results.
+ */
+export async function normalizeMarkdown(
+	text: string,
+	{ options, properties, readEmbed, queryDataview }: NormalizeContext
+): Promise<string> {
+	const { frontMatter, body } = splitFrontMatter(text);
+	let header = "";
+	if (frontMatter !== undefined) {
+		if (options.frontMatter === "keep") header = text.slice(0, text.length - body.length);
+		if (options.frontMatter === "summarize") {
+			const summary = summarizeFrontMatter(frontMatter, properties);
+			header = summary && `${summary}\n\n`;
+		}
+	}
+
+	const normalized = await mapFences(
+		body,
+		async (prose) => {
+			const visible = prose
+				.replace(HIDDEN_REGEX, (match, codeTicks?: string) => (codeTicks ? match : ""))
+				.replace(/\n{3,}/g, "\n\n");
+			if (!readEmbed) return visible;
+			return replaceAsync(
+				visible,
+				EMBED_REGEX,
+				async (match) =>
+					match[1] ? match[0] : (await readEmbed(match[2].trim())) ?? match[0]
+			);
+		},
+		async (block, language, code) => {
+			if (language !== "dataview" || !options.renderDataview || !queryDataview) {
+				return block;
+			}
+			return (await queryDataview(code)) ?? block;
+		}
+	);
+
+	return header + normalized.trim();
+}
@@ -0,0 +1,310 @@
+import { DataAdapter, loadPdfJs } from "obsidian";
+import { markdownTable } from "./fileConverters";
+
+/**
+ * Text item of a page, as returned by pdf.js `getTextContent`
+ */
+export interface PdfTextItem {
+	str: string;
+	/**
+	 * [scaleX, skewY, skewX, scaleY, x, y], y growing upwards
+	 */
+	transform: number[];
+	width: number;
+	height: number;
+	hasEOL?: boolean;
+}
+
+interface PdfLine {
+	/**
+	 * Text runs separated by wide gaps, table cells when several lines have them
+	 */
+	cells: string[];
+	text: string;
+	y: number;
+	size: number;
+}
+
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const BULLET_REGEX = /^(?:[•◦▪▫●○■□‣⁃]\s*|[–*-]\s+)/;
+const NUMBERED_REGEX = /^\(?\d{1,3}[.)]\s/;
+
+const fontSize = (item: PdfTextItem) =>
+	Math.hypot(item.transform[2], item.transform[3]) || item.height || 1;
+
+/**
+ * Join two pieces of running text: no space between CJK characters,
+ * words hyphenated at the end of a line are rejoined
+ */
+function joinText(a: string, b: string) {
+	if (!a) return b;
+	if (/[a-z]-$/.test(a) && /^[a-z]/.test(b)) return a.slice(0, -1) + b;
+	if (CJK_REGEX.test(a.slice(-1)) && CJK_REGEX.test(b[0] || "")) return a + b;
+	return `${a} ${b}`;
+}
+
+function toLine(items: PdfTextItem[]): PdfLine | undefined {
+	const sorted = [...items].sort((a, b) => a.transform[4] - b.transform[4]);
+	const size = Math.max(...sorted.map(fontSize));
+	const cells: string[] = [];
+	let cell = "";
+	let end: number | undefined;
+
+	for (const item of sorted) {
+		const x = item.transform[4];
+		const gap = end === undefined ? 0 : x - end;
+		if (end !== undefined && gap > 2 * size) {
+			cells.push(cell.trim());
+			cell = "";
+		} else if (gap > 0.15 * size && !/\s$/.test(cell) && !/^\s/.test(item.str)) {
+			cell += " ";
+		}
+		cell += item.str;
+		end = x + item.width;
+	}
+	cells.push(cell.trim());
+
+	const nonEmpty = cells.filter(Boolean);
+	if (!nonEmpty.length) return undefined;
+	return {
+		cells: nonEmpty,
+		text: nonEmpty.join(" "),
+		y: sorted[0].transform[5],
+		size,
+	};
+}
+
+/**
+ * Group the text items of a page into lines
+ */
+function toLines(items: PdfTextItem[]): PdfLine[] {
+	const lines: PdfLine[] = [];
+	let current: PdfTextItem[] = [];
+
+	const flush = () => {
+		const line = current.length ? toLine(current) : undefined;
+		if (line) lines.push(line);
+		current = [];
+	};
+
+	for (const item of items) {
+		if (item.str) {
+			const last = current[current.length - 1];
+			const sameLine =
+				!last ||
+				Math.abs(item.transform[5] - last.transform[5]) <=
+					Math.max(fontSize(item), fontSize(last)) * 0.5;
+			if (!sameLine) flush();
+			current.push(item);
+		}
+		if (item.hasEOL) flush();
+	}
+	flush();
+
+	return lines;
+}
+
+/**
+ * Font size of most of the text
+ */
+function bodyFontSize(lines: PdfLine[]) {
+	const weights = new Map<number, number>();
+	for (const line of lines) {
+		const size = Math.round(line.size * 2) / 2;
+		weights.set(size, (weights.get(size) || 0) + line.text.length);
+	}
+	let body = 0;
+	let weight = -1;
+	weights.forEach((w, size) => {
+		if (w > weight) {
+			body = size;
+			weight = w;
+		}
+	});
+	return body;
+}
+
+/**
+ * Markdown of a page: lines are joined into paragraphs, larger text becomes
+ * headings, bullets become list items and runs of lines with aligned gaps
+ * become tables.
+ */
+export function textItemsToMarkdown(items: PdfTextItem[]): string {
+	const lines = toLines(items);
+	const body = bodyFontSize(lines);
+	const blocks: string[] = [];
+	let paragraph = "";
+	let previous: PdfLine | undefined;
+	let table: string[][] = [];
+
+	const flushParagraph = () => {
+		if (paragraph) blocks.push(paragraph);
+		paragraph = "";
+	};
+	const flushTable = () => {
+		if (table.length) blocks.push(markdownTable(table));
+		table = [];
+	};
+
+	lines.forEach((line, index) => {
+		const isRow = (other?: PdfLine) => !!other && other.cells.length >= 2;
+		if (isRow(line) && (isRow(lines[index - 1]) || isRow(lines[index + 1]))) {
+			flushParagraph();
+			table.push(line.cells);
+			previous = line;
+			return;
+		}
+		flushTable();
+
+		if (line.size >= body * 1.2 && line.text.length <= 120) {
+			flushParagraph();
+			const level = line.size >= body * 1.6 ? 1 : line.size >= body * 1.35 ? 2 : 3;
+			blocks.push(`${"#".repeat(level)} ${line.text}`);
+		} else if (BULLET_REGEX.test(line.text) && line.text.replace(BULLET_REGEX, "")) {
+			flushParagraph();
+			paragraph = `- ${line.text.replace(BULLET_REGEX, "")}`;
+		} else if (NUMBERED_REGEX.test(line.text)) {
+			flushParagraph();
+			paragraph = line.text;
+		} else {
+			const continues =
+				!!paragraph &&
+				!!previous &&
+				Math.abs(previous.size - line.size) < 1 &&
+				previous.y - line.y <= line.size * 1.6;
+			if (!continues) flushParagraph();
+			paragraph = joinText(paragraph, line.text);
+		}
+		previous = line;
+	});
+	flushParagraph();
+	flushTable();
+
+	return blocks.join("\n\n");
+}
+
+/**
+ * Pages selected by a file subpath such as `#page=3`, `#page=3-7` or
+ * `#page=1,4-5`. All pages when the subpath selects none.
+ */
+export function parsePageRange(
+	subpath: string | undefined,
+	pageCount: number
+): number[] {
+	const all = Array.from({ length: pageCount }, (_, i) => i + 1);
+	const match = /page=([\d,\s-]+)/.exec(subpath || "");
+	if (!match) return all;
+
+	const pages = new Set<number>();
+	for (const part of match[1].split(",")) {
+		const [from, to] = part.split("-").map((n) => n.trim());
+		const start = parseInt(from);
+		if (isNaN(start)) continue;
+		const end = to === undefined ? start : to === "" ? pageCount : parseInt(to);
+		for (let page = Math.max(start, 1); page <= Math.min(end, pageCount); page++) {
+			pages.add(page);
+		}
+	}
+
+	return pages.size ? Array.from(pages).sort((a, b) => a - b) : all;
+}
+
+/**
+ * Extracted text of PDF files by content hash, in memory and in the plugin folder
+ */
+export class PdfTextCache {
+	private memory = new Map<string, string[]>();
+
+	constructor(
+		private adapter: Pick<DataAdapter, "exists" | "read" | "write" | "mkdir">,
+		private dir: string,
+		private memoryLimit = 10
+	) {}
+
+	private path(hash: string) {
+		return `${this.dir}/${hash}.json`;
+	}
+
+	async get(hash: string): Promise<string[] | undefined> {
+		const cached = this.memory.get(hash);
+		if (cached) return cached;
+
+		try {
+			if (!(await this.adapter.exists(this.path(hash)))) return undefined;
+			const data = JSON.parse(await this.adapter.read(this.path(hash)));
+			if (!Array.isArray(data?.pages)) return undefined;
+			this.remember(hash, data.pages);
+			return data.pages;
+		} catch (error) {
+			console.error("Failed to read the PDF cache:", error);
+			return undefined;
+		}
+	}
+
+	async set(hash: string, pages: string[]) {
+		this.remember(hash, pages);
+		try {
+			if (!(await this.adapter.exists(this.dir))) {
+				await this.adapter.mkdir(this.dir);
+			}
+			await this.adapter.write(
+				this.path(hash),
+				JSON.stringify({ version: 1, pages })
+			);
+		} catch (error) {
+			console.error("Failed to write the PDF cache:", error);
+		}
+	}
+
+	private remember(hash: string, pages: string[]) {
+		this.memory.delete(hash);
+		this.memory.set(hash, pages);
+		// Maps iterate in insertion order: the first key is the least recently used
+		if (this.memory.size > this.memoryLimit) {
+			this.memory.delete(this.memory.keys().next().value!);
+		}
+	}
+}
+
+let _cache: PdfTextCache | null = null;
+
+export const initPdfCache = (cache: PdfTextCache | null) => {
+	_cache = cache;
+};
+
+/**
+ * SHA-256 of the file content, hex encoded
+ */
+export async function hashBuffer(data: ArrayBuffer) {
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Markdown of every page of a PDF, from the cache when the same file was read before
+ */
+export async function readPdfPages(data: ArrayBuffer): Promise<string[]> {
+	const hash = await hashBuffer(data);
+	const cached = await _cache?.get(hash);
+	if (cached) return cached;
+
+	const pdfjsLib = await loadPdfJs();
+	// pdf.js takes ownership of the buffer
+	const pdf = await pdfjsLib.getDocument({ data: data.slice(0) }).promise;
+
+	const pages: string[] = [];
+	for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+		const page = await pdf.getPage(pageNum);
+		const textContent = await page.getTextContent();
+		pages.push(
+			textItemsToMarkdown(
+				textContent.items.filter((item: PdfTextItem) => "str" in item)
+			)
+		);
+	}
+
+	await _cache?.set(hash, pages);
+	return pages;
+}
@@ -0,0 +1,471 @@
+import {
+	DataAdapter,
+	Notice,
+	arrayBufferToBase64,
+	base64ToArrayBuffer,
+} from "obsidian";
+import { estimateTokens, truncateToTokens } from "../openai/usage";
+import { bm25Scores } from "../utils/textRelevance";
+
+/**
+ * Largest chunk of a note, in tokens
+ */
+const CHUNK_TOKENS = 400;
+
+/**
+ * Chunks embedded per request
+ */
+const EMBED_BATCH_SIZE = 64;
+
+/**
+ * Tokens of a query embedded, the start of longer prompts
+ */
+const QUERY_TOKENS = 2000;
+
+/**
+ * Wait after the last change of a note before it is indexed again
+ */
+const UPDATE_DELAY_MS = 2000;
+
+/**
+ * Wait after embedding failed before edits embed chunks again
+ */
+const EMBED_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+export interface VaultIndexOptions {
+	/**
+	 * Index the Markdown notes of the vault and add the chunks most relevant
+	 * to the prompt to each request
+	 */
+	enabled: boolean;
+	/**
+	 * Embedding model of the provider. Empty ranks chunks with BM25, offline.
+	 */
+	embeddingModel: string;
+	/**
+	 * Chunks added to a request
+	 */
+	topK: number;
+}
+
+export const DEFAULT_VAULT_INDEX_OPTIONS: VaultIndexOptions = {
+	enabled: false,
+	embeddingModel: "",
+	topK: 5,
+};
+
+/**
+ * A part of a note under one heading
+ */
+export interface NoteChunk {
+	/**
+	 * Headings the chunk is under, outermost first, joined with ` › `
+	 */
+	heading: string;
+	text: string;
+}
+
+interface IndexedChunk extends NoteChunk {
+	/**
+	 * Embedding as base64 Float32 values, unset without an embedding model
+	 */
+	vector?: string;
+}
+
+interface IndexedNote {
+	mtime: number;
+	chunks: IndexedChunk[];
+}
+
+export interface RetrievedChunk extends NoteChunk {
+	path: string;
+	score: number;
+}
+
+/**
+ * Embedding model turning texts into vectors, one per text
+ */
+export interface Embedder {
+	model: string;
+	embed: (texts: string[]) => Promise<number[][]>;
+}
+
+/**
+ * Notes the index is built from
+ */
+export interface VaultNotes {
+	list: () => { path: string; mtime: number }[];
+	read: (path: string) => Promise<string>;
+}
+
+/**
+ * Split a note into chunks of at most `maxTokens` tokens. A heading always
+ * starts a new chunk; paragraphs are kept whole unless one alone is too large.
+ */
+export function chunkMarkdown(
+	text: string,
+	maxTokens = CHUNK_TOKENS
+): NoteChunk[] {
+	const chunks: NoteChunk[] = [];
+	const headings: string[] = [];
+	let paragraphs: string[] = [];
+	let tokens = 0;
+
+	const heading = () => headings.filter(Boolean).join(" › ");
+	const flush = () => {
+		if (paragraphs.length) {
+			chunks.push({ heading: heading(), text: paragraphs.join("\n\n") });
+		}
+		paragraphs = [];
+		tokens = 0;
+	};
+	const addParagraph = (paragraph: string) => {
+		let rest = paragraph.trim();
+		if (!rest) return;
+		const size = estimateTokens(rest);
+		if (tokens + size > maxTokens) flush();
+		if (size <= maxTokens) {
+			paragraphs.push(rest);
+			tokens += size;
+			return;
+		}
+		while (rest) {
+			const piece = truncateToTokens(rest, maxTokens);
+			chunks.push({ heading: heading(), text: piece.trim() });
+			rest = rest.slice(piece.length).trim();
+		}
+	};
+
+	let lines: string[] = [];
+	for (const line of text.split("\n")) {
+		const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+		if (match) {
+			addParagraph(lines.join("\n"));
+			lines = [];
+			flush();
+			headings.length = match[1].length - 1;
+			headings.push(match[2]);
+		} else if (!line.trim()) {
+			addParagraph(lines.join("\n"));
+			lines = [];
+		} else {
+			lines.push(line);
+		}
+	}
+	addParagraph(lines.join("\n"));
+	flush();
+
+	return chunks;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>) {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const chunkTitle = (path: string, heading: string) =>
+	heading ? `${path} › ${heading}` : path;
+
+/**
+ * Text of a chunk as embedded, ranked and sent: with its note and headings
+ */
+export const formatChunk = (path: string, chunk: NoteChunk) =>
+	`# ${chunkTitle(path, chunk.heading)}\n\n${chunk.text}`;
+
+/**
+ * Chunks of the Markdown notes of the vault, with their embeddings when an
+ * embedding model is set, saved in the plugin folder.
+ *
+ * Notes are chunked again when their modification time changes. Chunks
+ * without a vector are embedded on each sync, all of them when the embedding
+ * model changes; after a failure, edits only embed again once a delay has
+ * passed. Until every chunk has a vector of the current model, or when the
+ * query cannot be embedded, chunks are ranked with BM25.
+ */
+export class VaultIndex {
+	notes: Record<string, IndexedNote> = {};
+	/**
+	 * Model the vectors of the chunks come from, empty without an embedding
+	 * model. Chunks whose embedding failed have no vector yet.
+	 */
+	model = "";
+	private pending = new Set<string>();
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	/**
+	 * Decoded vectors, so searches do not decode them again
+	 */
+	private vectors = new WeakMap<IndexedChunk, Float32Array>();
+	/**
+	 * Last indexing task: tasks run one at a time
+	 */
+	private running: Promise<unknown> = Promise.resolve();
+	/**
+	 * Time of the last embedding failure, 0 once embedding succeeds again
+	 */
+	private embedFailedAt = 0;
+
+	constructor(
+		private adapter: Pick<DataAdapter, "exists" | "read" | "write">,
+		private path: string,
+		private source: VaultNotes,
+		/**
+		 * Read on every use so settings apply at once. Undefined ranks with BM25.
+		 */
+		private embedder: () => Embedder | undefined
+	) {}
+
+	async load() {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.adapter.read(this.path));
+				this.notes = data?.notes && typeof data.notes === "object" ? data.notes : {};
+				this.model = typeof data?.model === "string" ? data.model : "";
+			}
+		} catch (error) {
+			console.error("Failed to load the vault index:", error);
+			this.notes = {};
+			this.model = "";
+		}
+	}
+
+	async save() {
+		try {
+			await this.adapter.write(
+				this.path,
+				JSON.stringify({ version: 1, model: this.model, notes: this.notes })
+			);
+		} catch (error) {
+			console.error("Failed to save the vault index:", error);
+		}
+	}
+
+	get chunkCount() {
+		return Object.values(this.notes).reduce(
+			(total, note) => total + note.chunks.length,
+			0
+		);
+	}
+
+	/**
+	 * Index the notes added or changed since they were last indexed, drop
+	 * deleted ones and embed the chunks without a vector. Returns the number
+	 * of notes indexed.
+	 */
+	sync(): Promise<number> {
+		return this.serial(async () => {
+			const notes = this.source.list();
+			const paths = new Set(notes.map((note) => note.path));
+			for (const path of Object.keys(this.notes)) {
+				if (!paths.has(path)) delete this.notes[path];
+			}
+
+			const model = this.embedder()?.model || "";
+			if (model !== this.model) {
+				// Vectors of another model cannot be compared with the query
+				Object.values(this.notes).forEach((note) =>
+					note.chunks.forEach((chunk) => delete chunk.vector)
+				);
+				this.vectors = new WeakMap();
+				this.model = model;
+			}
+
+			const changed = notes.filter((note) => this.notes[note.path]?.mtime !== note.mtime);
+			await this.indexNotes(changed, true);
+			return changed.length;
+		});
+	}
+
+	/**
+	 * Index a note again shortly, once it stops changing
+	 */
+	schedule(path: string) {
+		this.pending.add(path);
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.flush(), UPDATE_DELAY_MS);
+	}
+
+	/**
+	 * Index the scheduled notes now
+	 */
+	async flush() {
+		clearTimeout(this.timer);
+		const pending = this.pending;
+		this.pending = new Set();
+		if (!pending.size) return;
+
+		await this.serial(() =>
+			this.indexNotes(
+				this.source.list().filter((note) => pending.has(note.path)),
+				Date.now() - this.embedFailedAt >= EMBED_RETRY_DELAY_MS
+			)
+		);
+	}
+
+	/**
+	 * Drop the scheduled updates: the next sync indexes those notes
+	 */
+	cancel() {
+		clearTimeout(this.timer);
+		this.pending.clear();
+	}
+
+	async remove(path: string) {
+		this.pending.delete(path);
+		if (!this.notes[path]) return;
+		delete this.notes[path];
+		await this.save();
+	}
+
+	rename(oldPath: string, path: string) {
+		if (this.notes[oldPath]) {
+			this.notes[path] = this.notes[oldPath];
+			delete this.notes[oldPath];
+		}
+		// Chunks are embedded with the path of their note
+		this.schedule(path);
+	}
+
+	/**
+	 * The `k` chunks most relevant to the query, most relevant first
+	 *
+	 * @param exclude paths of notes already in the context
+	 */
+	async search(
+		query: string,
+		k: number,
+		exclude = new Set<string>()
+	): Promise<RetrievedChunk[]> {
+		const entries = Object.entries(this.notes)
+			.filter(([path]) => !exclude.has(path))
+			.flatMap(([path, note]) => note.chunks.map((chunk) => ({ path, chunk })));
+		if (!query.trim() || !entries.length || k <= 0) return [];
+
+		const scores =
+			(await this.semanticScores(query, entries.map(({ chunk }) => chunk))) ||
+			bm25Scores(
+				query,
+				entries.map(({ path, chunk }) => formatChunk(path, chunk))
+			);
+
+		return entries
+			.map(({ path, chunk }, index) => ({
+				path,
+				heading: chunk.heading,
+				text: chunk.text,
+				score: scores[index],
+			}))
+			.filter((result) => result.score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, k);
+	}
+
+	/**
+	 * Cosine similarity of each chunk to the query. Undefined when the chunks
+	 * have no vectors of the current model or the query cannot be embedded.
+	 */
+	private async semanticScores(query: string, chunks: IndexedChunk[]) {
+		const embedder = this.embedder();
+		if (
+			!embedder ||
+			embedder.model !== this.model ||
+			chunks.some((chunk) => !chunk.vector)
+		) {
+			return undefined;
+		}
+
+		try {
+			const [vector] = await embedder.embed([truncateToTokens(query, QUERY_TOKENS)]);
+			return chunks.map((chunk) => cosineSimilarity(vector, this.vector(chunk)));
+		} catch (error) {
+			console.error("Failed to embed the query, ranking chunks with BM25:", error);
+			return undefined;
+		}
+	}
+
+	private vector(chunk: IndexedChunk) {
+		let vector = this.vectors.get(chunk);
+		if (!vector) {
+			vector = new Float32Array(base64ToArrayBuffer(chunk.vector!));
+			this.vectors.set(chunk, vector);
+		}
+		return vector;
+	}
+
+	/**
+	 * Chunk the notes, then embed the chunks of the index without a vector
+	 * when `embed` is set and the embedding model is the one of the index.
+	 * Vectors already computed are kept when a batch fails, so the next
+	 * attempt only embeds what is missing.
+	 */
+	private async indexNotes(notes: { path: string; mtime: number }[], embed: boolean) {
+		for (const { path, mtime } of notes) {
+			try {
+				const chunks: IndexedChunk[] = chunkMarkdown(await this.source.read(path));
+				this.notes[path] = { mtime, chunks };
+			} catch (error) {
+				console.error(`Failed to index ${path}:`, error);
+			}
+		}
+
+		const embedder = this.embedder();
+		if (embed && embedder && embedder.model === this.model) {
+			await this.embedMissing(embedder);
+		}
+
+		await this.save();
+	}
+
+	private async embedMissing(embedder: Embedder) {
+		const missing = Object.entries(this.notes).flatMap(([path, note]) =>
+			note.chunks.filter((chunk) => !chunk.vector).map((chunk) => ({ path, chunk }))
+		);
+		try {
+			for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+				const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+				const vectors = await embedder.embed(
+					batch.map(({ path, chunk }) => formatChunk(path, chunk))
+				);
+				batch.forEach(({ chunk }, index) => {
+					chunk.vector = arrayBufferToBase64(new Float32Array(vectors[index]).buffer);
+				});
+			}
+			this.embedFailedAt = 0;
+		} catch (error) {
+			console.error("Failed to embed the vault notes:", error);
+			// One notice per run of failures, not one per edit
+			if (!this.embedFailedAt) {
+				new Notice(`笔记向量化失败，将暂时使用关键词检索: ${error?.message || error}`);
+			}
+			this.embedFailedAt = Date.now();
+		}
+	}
+
+	private serial<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.running.then(task);
+		this.running = result.catch(() => undefined);
+		return result;
+	}
+}
+
+let _index: VaultIndex | null = null;
+
+export const initVaultIndex = (index: VaultIndex | null) => {
+	_index = index;
+};
+
+/**
+ * Chunks of the vault most relevant to a query, none before the index is set up
+ */
+export const retrieveVaultChunks = (
+	query: string,
+	k: number,
+	exclude?: Set<string>
+): Promise<RetrievedChunk[]> =>
+	_index ? _index.search(query, k, exclude) : Promise.resolve([]);
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 模型注册表测试
+ *
+ * 验证内置表、服务商获取的模型与自定义模型按字段合并，
+ * 以及上下文窗口如何进入 getTokenLimit 的输入预算。
+ */
+
+import {
+	CHAT_MODELS,
+	DEFAULT_TOKEN_LIMIT,
+	chatModelByName,
+	modelNames,
+	parseModelListing,
+} from "../models";
+import { AugmentedCanvasSettings, DEFAULT_SETTINGS } from "../../settings/AugmentedCanvasSettings";
+import { getTokenLimit } from "../../actions/canvasNodeMenuActions/noteGenerator";
+
+const settingsWith = (overrides: Partial<AugmentedCanvasSettings>): AugmentedCanvasSettings => ({
+	...DEFAULT_SETTINGS,
+	...overrides,
+});
+
+const openRouterSettings = settingsWith({
+	providerId: "openrouter",
+	modelCache: {
+		openrouter: {
+			baseURL: "https://openrouter.ai/api/v1",
+			fetchedAt: 0,
+			models: [
+				{ name: "vendor/long-model", tokenLimit: 1000000, maxOutputTokens: 32000 },
+				{ name: "gpt-4o" },
+			],
+		},
+	},
+});
+
+describe("chatModelByName", () => {
+	it("returns built-in limits", () => {
+		expect(chatModelByName("gpt-4o")).toMatchObject(CHAT_MODELS.GPT_4O);
+	});
+
+	it("uses the default limit for unknown models instead of another model", () => {
+		const model = chatModelByName("mystery-model");
+		expect(model).toEqual({ name: "mystery-model", tokenLimit: DEFAULT_TOKEN_LIMIT });
+	});
+
+	it("uses limits fetched from the provider", () => {
+		expect(chatModelByName("vendor/long-model", openRouterSettings)).toMatchObject({
+			tokenLimit: 1000000,
+			maxOutputTokens: 32000,
+		});
+	});
+
+	it("keeps built-in fields that the listing does not report", () => {
+		expect(chatModelByName("gpt-4o", openRouterSettings).tokenLimit).toBe(128000);
+	});
+
+	it("ignores the cache when the base URL changed", () => {
+		const settings = { ...openRouterSettings, apiBaseUrl: "https://proxy.example/v1" };
+		expect(chatModelByName("vendor/long-model", settings).tokenLimit).toBe(DEFAULT_TOKEN_LIMIT);
+		expect(modelNames(settings)).not.toContain("vendor/long-model");
+	});
+
+	it("lets custom models override every other source", () => {
+		const settings = {
+			...openRouterSettings,
+			customModels: [{ name: "vendor/long-model", tokenLimit: 50000, pricing: { input: 1, output: 2 } }],
+		};
+		expect(chatModelByName("vendor/long-model", settings)).toEqual({
+			name: "vendor/long-model",
+			tokenLimit: 50000,
+			maxOutputTokens: 32000,
+			pricing: { input: 1, output: 2 },
+		});
+	});
+});
+
+describe("parseModelListing", () => {
+	it("reads image input from the listed modalities", () => {
+		expect(parseModelListing({ id: "a", architecture: { input_modalities: ["text", "image"] } }).vision).toBe(true);
+		expect(parseModelListing({ id: "b", architecture: { modality: "text+image->text" } }).vision).toBe(true);
+		expect(parseModelListing({ id: "c", architecture: { modality: "text->text" } }).vision).toBeUndefined();
+		expect(parseModelListing({ id: "d" }).vision).toBeUndefined();
+	});
+
+	it("keeps the built-in vision flag when the listing does not report it", () => {
+		expect(chatModelByName("gpt-4o", openRouterSettings).vision).toBe(true);
+		expect(chatModelByName("deepseek-chat").vision).toBeUndefined();
+	});
+});
+
+describe("modelNames", () => {
+	it("lists presets, fetched and custom models once each", () => {
+		const settings = { ...openRouterSettings, customModels: [{ name: "gpt-4o", tokenLimit: 1 }, { name: "mine" }] };
+		expect(modelNames(settings)).toEqual(["vendor/long-model", "gpt-4o", "mine"]);
+		expect(modelNames(settings, "deepseek")).toEqual(["deepseek-chat", "deepseek-coder", "gpt-4o", "mine"]);
+	});
+});
+
+describe("getTokenLimit", () => {
+	it("keeps room for the response inside the context window", () => {
+		expect(getTokenLimit(settingsWith({ apiModel: "gpt-4o" }))).toBe(128000 - 16384);
+		expect(getTokenLimit(settingsWith({ apiModel: "gpt-4o", maxResponseTokens: 1000 }))).toBe(127000);
+	});
+
+	it("follows fetched context windows beyond the old 32k fallback", () => {
+		const settings = { ...openRouterSettings, apiModel: "vendor/long-model" };
+		expect(getTokenLimit(settings)).toBe(1000000 - 32000);
+	});
+
+	it("is capped by the max input tokens setting", () => {
+		expect(getTokenLimit(settingsWith({ apiModel: "gpt-4o", maxInputTokens: 5000 }))).toBe(5000);
+	});
+});
@@ -0,0 +1,32 @@
+/**
+ * 服务商配置测试
+ *
+ * - 没有接口地址的服务商（Azure、自定义）在填写地址前不可用
+ * - 需要密钥的服务商在设置密钥前不可用
+ */
+
+import { DEFAULT_SETTINGS } from "../../settings/AugmentedCanvasSettings";
+import { isProviderReady, providerSetupNotice } from "../providers";
+
+const settings = (overrides: Partial<typeof DEFAULT_SETTINGS>) => ({
+	...DEFAULT_SETTINGS,
+	...overrides,
+});
+
+describe("isProviderReady", () => {
+	it("needs a base URL for providers without a default one", () => {
+		const azure = settings({ providerId: "azure", apiKey: "azure-key" });
+
+		expect(isProviderReady(azure)).toBe(false);
+		expect(providerSetupNotice(azure)).toContain("接口地址");
+		expect(
+			isProviderReady({ ...azure, apiBaseUrl: "https://r.openai.azure.com/openai/deployments/d" })
+		).toBe(true);
+		expect(isProviderReady(settings({ providerId: "custom", apiKey: "k" }))).toBe(false);
+	});
+
+	it("needs a key unless the provider takes none", () => {
+		expect(providerSetupNotice(settings({ providerId: "openai", apiKey: "" }))).toContain("API 密钥");
+		expect(isProviderReady(settings({ providerId: "ollama", apiKey: "" }))).toBe(true);
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 重试策略与续写测试
+ *
+ * - 可重试错误的判定、Retry-After 解析与指数退避
+ * - 续写时去除模型重复输出的前缀文本
+ */
+
+import * as fc from "fast-check";
+import {
+	CONTINUE_PROMPT,
+	DEFAULT_RETRY_POLICY,
+	OverlapTrimmer,
+	continuationMessages,
+	isRetryableError,
+	retryAfterMs,
+	retryDelay,
+	withRetry,
+} from "../retry";
+import { HTTPError } from "../adapters/common";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+	new HTTPError(`${status} error`, status, headers);
+
+const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 1 };
+
+describe("isRetryableError", () => {
+	it("retries rate limits, timeouts and server errors", () => {
+		[408, 429, 500, 502, 503, 529].forEach((status) =>
+			expect(isRetryableError(httpError(status))).toBe(true)
+		);
+	});
+
+	it("does not retry client errors", () => {
+		[400, 401, 403, 404, 422].forEach((status) =>
+			expect(isRetryableError(httpError(status))).toBe(false)
+		);
+		expect(isRetryableError(new Error("Overloaded"))).toBe(false);
+	});
+
+	it("retries network failures", () => {
+		expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+		expect(isRetryableError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))).toBe(true);
+		expect(isRetryableError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+	});
+});
+
+describe("retryAfterMs", () => {
+	it("reads seconds, HTTP dates and retry-after-ms", () => {
+		const now = Date.parse("2024-01-01T00:00:00Z");
+
+		expect(retryAfterMs(httpError(429, { "retry-after": "3" }), now)).toBe(3000);
+		expect(retryAfterMs(httpError(429, { "retry-after": "Mon, 01 Jan 2024 00:00:10 GMT" }), now)).toBe(10000);
+		expect(retryAfterMs(httpError(429, { "retry-after-ms": "250", "retry-after": "3" }), now)).toBe(250);
+		expect(retryAfterMs(httpError(429), now)).toBeUndefined();
+	});
+});
+
+describe("retryDelay", () => {
+	it("doubles the delay on every attempt, within the jitter", () => {
+		const settings = { ...DEFAULT_RETRY_POLICY, baseDelay: 1000 };
+
+		expect(retryDelay(0, httpError(503), settings, () => 0)).toBe(1000);
+		expect(retryDelay(2, httpError(503), settings, () => 0)).toBe(4000);
+		expect(retryDelay(2, httpError(503), settings, () => 1)).toBe(3000);
+	});
+
+	it("prefers Retry-After and caps every delay", () => {
+		const settings = { ...DEFAULT_RETRY_POLICY, maxDelay: 5000 };
+
+		expect(retryDelay(0, httpError(429, { "retry-after": "2" }), settings)).toBe(2000);
+		expect(retryDelay(0, httpError(429, { "retry-after": "120" }), settings)).toBe(5000);
+		expect(retryDelay(10, httpError(503), settings, () => 0)).toBe(5000);
+	});
+});
+
+describe("withRetry", () => {
+	it("retries until the request succeeds", async () => {
+		const request = jest
+			.fn()
+			.mockRejectedValueOnce(httpError(429))
+			.mockRejectedValueOnce(new TypeError("fetch failed"))
+			.mockResolvedValue("ok");
+
+		await expect(withRetry(request, policy)).resolves.toBe("ok");
+		expect(request).toHaveBeenCalledTimes(3);
+	});
+
+	it("gives up after the configured number of retries", async () => {
+		const request = jest.fn().mockRejectedValue(httpError(500));
+
+		await expect(withRetry(request, { ...policy, retries: 1 })).rejects.toThrow("500 error");
+		expect(request).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not retry errors that would fail again", async () => {
+		const request = jest.fn().mockRejectedValue(httpError(401));
+
+		await expect(withRetry(request, policy)).rejects.toThrow("401 error");
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops waiting when aborted", async () => {
+		const controller = new AbortController();
+		const request = jest.fn().mockRejectedValue(httpError(429, { "retry-after": "30" }));
+
+		const result = withRetry(request, policy, { signal: controller.signal });
+		controller.abort();
+
+		await expect(result).rejects.toThrow("429 error");
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("continuationMessages", () => {
+	const messages = [{ role: "user" as const, content: "question" }];
+
+	it("prefills the answer for Anthropic", () => {
+		expect(continuationMessages("anthropic", messages, "partial")).toEqual([
+			...messages,
+			{ role: "assistant", content: "partial" },
+		]);
+	});
+
+	it("asks other APIs to continue", () => {
+		expect(continuationMessages("openai", messages, "partial")).toEqual([
+			...messages,
+			{ role: "assistant", content: "partial" },
+			{ role: "user", content: CONTINUE_PROMPT },
+		]);
+	});
+});
+
+describe("OverlapTrimmer", () => {
+	/**
+	 * 按切分点分块推入，返回最终输出
+	 */
+	const trim = (prefix: string, continuation: string, cuts: number[] = []) => {
+		const trimmer = new OverlapTrimmer(prefix);
+		let output = "";
+		let start = 0;
+		for (const point of [...new Set(cuts)].sort((a, b) => a - b)) {
+			output += trimmer.push(continuation.slice(start, point));
+			start = point;
+		}
+		output += trimmer.push(continuation.slice(start));
+		return output + trimmer.flush();
+	};
+
+	const partial = "<group id=\"g1\"><node id=\"n1\">First node</node><node id=\"n2\">Sec";
+
+	it("passes a clean continuation through", () => {
+		expect(trim(partial, "ond node</node></group>")).toBe("ond node</node></group>");
+	});
+
+	it("drops a repeated end of the partial answer", () => {
+		expect(trim(partial, "<node id=\"n2\">Second node</node></group>")).toBe("ond node</node></group>");
+	});
+
+	it("drops a restarted answer", () => {
+		expect(trim(partial, partial + "ond node</node>")).toBe("ond node</node>");
+	});
+
+	it("keeps short coincidental overlaps", () => {
+		expect(trim("some text <", "<node>")).toBe("<node>");
+	});
+
+	it("output does not depend on how the continuation is split", () => {
+		fc.assert(
+			fc.property(
+				fc.string({ maxLength: 60 }),
+				fc.string({ maxLength: 60 }),
+				fc.array(fc.nat(120), { maxLength: 6 }),
+				(prefix, continuation, cuts) => {
+					const expected = trim(prefix, continuation);
+					expect(trim(prefix, continuation, cuts)).toBe(expected);
+					expect(continuation.endsWith(expected)).toBe(true);
+				}
+			),
+			{ numRuns: 200 }
+		);
+	});
+
+	it("never repeats the partial answer when the model restarts", () => {
+		fc.assert(
+			fc.property(
+				fc.string({ minLength: 16, maxLength: 80 }),
+				fc.string({ maxLength: 40 }),
+				fc.nat(80),
+				(prefix, rest, start) => {
+					const repeated = prefix.slice(Math.min(start, prefix.length - 16));
+					// 可能去掉更长的重叠，但不会保留重复部分
+					expect(rest.endsWith(trim(prefix, repeated + rest))).toBe(true);
+				}
+			),
+			{ numRuns: 200 }
+		);
+	});
+});
@@ -0,0 +1,444 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 原生适配器测试（Anthropic Messages / Gemini generateContent）
+ *
+ * 使用录制的 SSE 样本验证：
+ * - 消息格式转换（系统提示提升、角色交替）
+ * - SSE 事件解析
+ * - 转换回 StreamCallback 数据块后，XML 组生成管道无需修改即可运行
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as fc from "fast-check";
+import { JSDOM } from "jsdom";
+import { ChatCompletionMessageParam } from "openai/resources";
+import { streamResponse, getResponse, listModels } from "../../../utils/chatgpt";
+import { PROVIDERS, ProviderConfig } from "../../providers";
+import { DEFAULT_RETRY_POLICY } from "../../retry";
+import { UsageLedger, initUsageLedger } from "../../../utils/usageLedger";
+import { DEFAULT_SETTINGS } from "../../../settings/AugmentedCanvasSettings";
+import { GroupStreamManager } from "../../../utils/groupGeneration/groupStreamManager";
+import { LEADING_USER_TURN, SSEParser, toAlternatingTurns } from "../common";
+import { buildAnthropicRequest } from "../anthropic";
+import { buildGeminiRequest } from "../gemini";
+
+const fixture = (name: string) =>
+	fs.readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+
+const EXPECTED_XML = fixture("expected-group.xml").trim();
+
+/**
+ * 以固定大小的字节片段返回响应体，模拟网络分包
+ */
+function sseResponse(body: string, pieceSize = 37, status = 200): Response {
+	const bytes = new TextEncoder().encode(body);
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < bytes.length; i += pieceSize) {
+				controller.enqueue(bytes.slice(i, i + pieceSize));
+			}
+			controller.close();
+		},
+	});
+	return new Response(stream, {
+		status,
+		headers: { "content-type": "text/event-stream" },
+	});
+}
+
+const providerFor = (id: "anthropic" | "gemini"): ProviderConfig => ({
+	...PROVIDERS[id],
+	apiKey: "test-key",
+	retry: { ...DEFAULT_RETRY_POLICY, baseDelay: 1 },
+});
+
+const messages: ChatCompletionMessageParam[] = [
+	{ role: "system", content: "You are a canvas assistant." },
+	{ role: "assistant", content: "Earlier answer" },
+	{ role: "user", content: "Node text" },
+	{ role: "user", content: "Edge label" },
+	{ role: "system", content: "Answer in XML." },
+];
+
+let fetchMock: jest.Mock;
+
+beforeEach(() => {
+	fetchMock = jest.fn();
+	global.fetch = fetchMock as unknown as typeof fetch;
+});
+
+describe("toAlternatingTurns", () => {
+	it("hoists system messages and merges consecutive roles", () => {
+		const { system, turns } = toAlternatingTurns(messages);
+
+		expect(system).toBe("You are a canvas assistant.\n\nAnswer in XML.");
+		expect(turns).toEqual([
+			{ role: "user", text: LEADING_USER_TURN },
+			{ role: "assistant", text: "Earlier answer" },
+			{ role: "user", text: "Node text\n\nEdge label" },
+		]);
+	});
+
+	it("always produces alternating turns starting with the user", () => {
+		const messageArb = fc.record({
+			role: fc.constantFrom("system", "user", "assistant"),
+			content: fc.string({ minLength: 1, maxLength: 20 }),
+		});
+
+		fc.assert(
+			fc.property(fc.array(messageArb, { maxLength: 20 }), (input) => {
+				const { turns } = toAlternatingTurns(input as ChatCompletionMessageParam[]);
+				if (turns.length) {
+					expect(turns[0].role).toBe("user");
+				}
+				for (let i = 1; i < turns.length; i++) {
+					expect(turns[i].role).not.toBe(turns[i - 1].role);
+				}
+			}),
+			{ numRuns: 100 }
+		);
+	});
+});
+
+describe("request builders", () => {
+	it("builds an Anthropic Messages request", () => {
+		const request = buildAnthropicRequest(messages, { temperature: 1.5 }, "claude-3-5-sonnet-latest");
+
+		expect(request.model).toBe("claude-3-5-sonnet-latest");
+		expect(request.max_tokens).toBe(4096);
+		expect(request.temperature).toBe(1);
+		expect(request.system).toContain("Answer in XML.");
+		expect(request.messages[0].role).toBe("user");
+	});
+
+	it("builds a Gemini generateContent request", () => {
+		const request = buildGeminiRequest(messages, { max_tokens: 100, isJSON: true });
+
+		expect(request.systemInstruction?.parts[0].text).toContain("canvas assistant");
+		expect(request.contents.map((c) => c.role)).toEqual(["user", "model", "user"]);
+		expect(request.generationConfig).toEqual({
+			maxOutputTokens: 100,
+			temperature: undefined,
+			responseMimeType: "application/json",
+		});
+	});
+});
+
+describe("images", () => {
+	const withImage: ChatCompletionMessageParam[] = [
+		{ role: "system", content: "Describe images." },
+		{
+			role: "user",
+			content: [
+				{ type: "text", text: "Image: chart.png" },
+				{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+				{ type: "image_url", image_url: { url: "https://example.com/remote.png" } },
+			],
+		},
+		{ role: "user", content: "What does it show?" },
+	];
+
+	it("keeps inline images of user turns", () => {
+		expect(toAlternatingTurns(withImage).turns).toEqual([
+			{
+				role: "user",
+				text: "Image: chart.png\n\nWhat does it show?",
+				images: [{ mimeType: "image/png", data: "iVBORw0KGgo=" }],
+			},
+		]);
+	});
+
+	it("sends Anthropic image blocks before the text", () => {
+		const request = buildAnthropicRequest(withImage, {}, "claude-3-5-sonnet-latest");
+
+		expect(request.messages[0].content).toEqual([
+			{ type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+			{ type: "text", text: "Image: chart.png\n\nWhat does it show?" },
+		]);
+	});
+
+	it("sends Gemini inline data parts", () => {
+		const request = buildGeminiRequest(withImage, {});
+
+		expect(request.contents[0].parts).toEqual([
+			{ inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+			{ text: "Image: chart.png\n\nWhat does it show?" },
+		]);
+	});
+});
+
+describe("SSEParser", () => {
+	it("yields the same events however the stream is split", () => {
+		const body = fixture("anthropic-stream.sse");
+		const expected = new SSEParser().push(body);
+
+		fc.assert(
+			fc.property(fc.array(fc.nat(body.length), { maxLength: 10 }), (cuts) => {
+				const points = [...new Set(cuts)].sort((a, b) => a - b);
+				const parser = new SSEParser();
+				const events = [];
+				let start = 0;
+				for (const point of [...points, body.length]) {
+					events.push(...parser.push(body.slice(start, point)));
+					start = point;
+				}
+				events.push(...parser.flush());
+				expect(events).toEqual(expected);
+			}),
+			{ numRuns: 50 }
+		);
+	});
+});
+
+describe("streamResponse with native adapters", () => {
+	// IncrementalXMLParser 依赖 DOMParser，node 环境下由 jsdom 提供
+	beforeAll(() => {
+		global.DOMParser = new JSDOM().window.DOMParser;
+	});
+
+	it.each([
+		["anthropic", "anthropic-stream.sse"],
+		["gemini", "gemini-stream.sse"],
+	] as const)("converts %s SSE into StreamCallback chunks", async (id, file) => {
+		fetchMock.mockResolvedValue(sseResponse(fixture(file)));
+
+		const chunks: (string | null)[] = [];
+		await streamResponse(providerFor(id), messages, {}, (chunk, error) => {
+			if (error) throw error;
+			chunks.push(chunk);
+		});
+
+		expect(chunks[chunks.length - 1]).toBeNull();
+		expect(chunks.slice(0, -1).join("")).toBe(EXPECTED_XML);
+	});
+
+	it.each([
+		["anthropic", "anthropic-stream.sse"],
+		["gemini", "gemini-stream.sse"],
+	] as const)("records the %s token usage in the ledger", async (id, file) => {
+		const ledger = new UsageLedger({ exists: async () => false, read: async () => "", write: async () => undefined }, "usage.json");
+		initUsageLedger(ledger, null, DEFAULT_SETTINGS);
+		fetchMock.mockResolvedValue(sseResponse(fixture(file)));
+
+		await streamResponse(providerFor(id), messages, { action: "generate-group" }, () => undefined);
+		initUsageLedger(null, null, DEFAULT_SETTINGS);
+
+		expect(ledger.entries).toEqual([
+			expect.objectContaining({
+				provider: id,
+				model: PROVIDERS[id].models[0],
+				promptTokens: 412,
+				completionTokens: 96,
+				estimated: false,
+			}),
+		]);
+	});
+
+	it("calls the provider endpoints with native auth headers", async () => {
+		fetchMock.mockResolvedValueOnce(sseResponse(fixture("anthropic-stream.sse")));
+		await streamResponse(providerFor("anthropic"), messages, {}, () => undefined);
+
+		const [anthropicUrl, anthropicInit] = fetchMock.mock.calls[0];
+		expect(anthropicUrl).toBe("https://api.anthropic.com/v1/messages");
+		expect(anthropicInit.headers["x-api-key"]).toBe("test-key");
+		expect(JSON.parse(anthropicInit.body).stream).toBe(true);
+
+		fetchMock.mockResolvedValueOnce(sseResponse(fixture("gemini-stream.sse")));
+		await streamResponse(providerFor("gemini"), messages, { model: "gemini-1.5-flash" }, () => undefined);
+
+		const [geminiUrl, geminiInit] = fetchMock.mock.calls[1];
+		expect(geminiUrl).toBe(
+			"https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse"
+		);
+		expect(geminiInit.headers["x-goog-api-key"]).toBe("test-key");
+	});
+
+	it("reports stream error events through the callback", async () => {
+		fetchMock.mockResolvedValue(sseResponse(fixture("anthropic-error.sse")));
+
+		const errors: Error[] = [];
+		await streamResponse(providerFor("anthropic"), messages, {}, (_chunk, error) => {
+			if (error) errors.push(error);
+		});
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0].message).toBe("Overloaded");
+	});
+
+	it("stops reading the stream when aborted", async () => {
+		const events = fixture("anthropic-stream.sse").split(/(?<=\r?\n\r?\n)/);
+		fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					events.slice(0, 4).forEach((event) => controller.enqueue(new TextEncoder().encode(event)));
+					init.signal?.addEventListener("abort", () =>
+						controller.error(new DOMException("Aborted", "AbortError"))
+					);
+				},
+			});
+			return new Response(stream);
+		});
+
+		const abort = new AbortController();
+		const chunks: (string | null)[] = [];
+		const errors: Error[] = [];
+		await streamResponse(providerFor("anthropic"), messages, { signal: abort.signal }, (chunk, error) => {
+			if (error) errors.push(error);
+			chunks.push(chunk);
+			if (chunk) abort.abort();
+		});
+
+		expect(errors).toEqual([]);
+		expect(chunks).toEqual(["<group id=\"g1\" title=\"P", null]);
+		expect(fetchMock.mock.calls[0][1].signal).toBe(abort.signal);
+	});
+
+	it("resumes a broken stream without creating nodes twice", async () => {
+		const events = fixture("anthropic-stream.sse").split(/(?<=\r?\n\r?\n)/);
+		// 断开前已收到第一个节点
+		const received = events.slice(0, 9);
+		const partial = received
+			.map((event) => /"text":"((?:[^"\\]|\\.)*)"}}/.exec(event)?.[1])
+			.filter((text): text is string => text !== undefined)
+			.map((text) => JSON.parse(`"${text}"`))
+			.join("");
+		// 续写时模型重复了已输出内容的结尾
+		const continuation = partial.slice(-30) + EXPECTED_XML.slice(partial.length);
+		const deltas = continuation.match(/[\s\S]{1,7}/g)!.map(
+			(text) =>
+				`event: content_block_delta\ndata: ${JSON.stringify({
+					type: "content_block_delta",
+					index: 0,
+					delta: { type: "text_delta", text },
+				})}\n\n`
+		);
+
+		fetchMock
+			.mockImplementationOnce(async () => {
+				const stream = new ReadableStream<Uint8Array>({
+					start(controller) {
+						received.forEach((event) => controller.enqueue(new TextEncoder().encode(event)));
+						// 出错会丢弃未读取的数据，等已收到的事件被读完再断开
+						setTimeout(() => controller.error(new TypeError("terminated")), 10);
+					},
+				});
+				return new Response(stream);
+			})
+			.mockResolvedValueOnce(sseResponse(deltas.join("") + 'event: message_stop\ndata: {"type":"message_stop"}\n\n'));
+
+		let text = "";
+		const manager = new GroupStreamManager({}, (_apiKey, msgs, config, callback) =>
+			streamResponse(providerFor("anthropic"), msgs as ChatCompletionMessageParam[], config, (chunk, error) => {
+				text += chunk || "";
+				callback(chunk, error);
+			})
+		);
+		await manager.startGeneration("unused", [{ role: "user", content: "plan" }], { model: "" });
+
+		expect(text).toBe(EXPECTED_XML);
+		expect(manager.getState().status).toBe("complete");
+		expect(manager.getNodes().map((n) => n.id).sort()).toEqual(["n1", "n2"]);
+		expect(manager.getEdges()).toHaveLength(1);
+
+		// 续写请求以已收到的内容作为回答前缀
+		const resumed = JSON.parse(fetchMock.mock.calls[1][1].body);
+		expect(resumed.messages[resumed.messages.length - 1]).toEqual({
+			role: "assistant",
+			content: partial.trim(),
+		});
+	});
+
+	it("reports HTTP errors with the provider message", async () => {
+		fetchMock.mockResolvedValue(
+			new Response(JSON.stringify({ error: { message: "API key not valid" } }), { status: 400 })
+		);
+
+		const errors: Error[] = [];
+		await streamResponse(providerFor("gemini"), messages, {}, (_chunk, error) => {
+			if (error) errors.push(error);
+		});
+
+		expect(errors[0].message).toBe("400 API key not valid");
+	});
+
+	it.each([
+		["anthropic", "anthropic-stream.sse"],
+		["gemini", "gemini-stream.sse"],
+	] as const)("drives GroupStreamManager unchanged from %s fixtures", async (id, file) => {
+		fetchMock.mockResolvedValue(sseResponse(fixture(file), 11));
+
+		const manager = new GroupStreamManager({}, (_apiKey, msgs, config, callback) =>
+			streamResponse(providerFor(id), msgs as ChatCompletionMessageParam[], config, callback)
+		);
+		await manager.startGeneration("unused", [{ role: "user", content: "plan" }], { model: "" });
+
+		expect(manager.getState().status).toBe("complete");
+		expect(manager.getNodes().map((n) => n.id).sort()).toEqual(["n1", "n2"]);
+		expect(manager.getEdges()).toHaveLength(1);
+	});
+});
+
+describe("getResponse with native adapters", () => {
+	it("parses Anthropic JSON answers requested through the prompt", async () => {
+		fetchMock.mockResolvedValue(
+			new Response(JSON.stringify({ content: [{ type: "text", text: "{\"questions\":[\"Why?\"]}" }] }))
+		);
+
+		const result = await getResponse(providerFor("anthropic"), messages, { isJSON: true });
+		expect(result).toEqual({ questions: ["Why?"] });
+	});
+
+	it("returns Gemini text answers", async () => {
+		fetchMock.mockResolvedValue(
+			new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: "Hi" }] } }] }))
+		);
+
+		const result = await getResponse(providerFor("gemini"), messages);
+		expect(result).toBe("Hi");
+		expect(fetchMock.mock.calls[0][0]).toContain("models/gemini-1.5-pro:generateContent");
+	});
+});
+
+describe("listModels with native adapters", () => {
+	it("keeps Gemini chat models with their token limits", async () => {
+		fetchMock.mockResolvedValue(
+			new Response(
+				JSON.stringify({
+					models: [
+						{
+							name: "models/gemini-1.5-pro",
+							inputTokenLimit: 2000000,
+							outputTokenLimit: 8192,
+							supportedGenerationMethods: ["generateContent", "countTokens"],
+						},
+						{
+							name: "models/text-embedding-004",
+							inputTokenLimit: 2048,
+							supportedGenerationMethods: ["embedContent"],
+						},
+					],
+				})
+			)
+		);
+
+		const models = await listModels(providerFor("gemini"));
+		expect(models).toEqual([
+			{ name: "gemini-1.5-pro", tokenLimit: 2000000, maxOutputTokens: 8192 },
+		]);
+		expect(fetchMock.mock.calls[0][1].headers["x-goog-api-key"]).toBe("test-key");
+	});
+
+	it("lists Anthropic model ids", async () => {
+		fetchMock.mockResolvedValue(
+			new Response(JSON.stringify({ data: [{ id: "claude-3-5-haiku-latest", type: "model" }] }))
+		);
+
+		const models = await listModels(providerFor("anthropic"));
+		expect(models).toEqual([{ name: "claude-3-5-haiku-latest" }]);
+		expect(fetchMock.mock.calls[0][0]).toBe("https://api.anthropic.com/v1/models?limit=1000");
+	});
+});
@@ -0,0 +1,198 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { ProviderConfig } from "../providers";
+import { TokenUsage } from "../usage";
+import {
+	ChatAdapter,
+	CompletionOptions,
+	SSEEvent,
+	Turn,
+	getJSON,
+	joinURL,
+	postJSON,
+	readSSE,
+	toAlternatingTurns,
+} from "./common";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * The Messages API requires max_tokens on every request
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicImageSource = {
+	type: "base64";
+	media_type: string;
+	data: string;
+};
+
+type AnthropicContentBlock =
+	| { type: "text"; text: string }
+	| { type: "image"; source: AnthropicImageSource };
+
+export interface AnthropicRequest {
+	model: string;
+	max_tokens: number;
+	temperature?: number;
+	system?: string;
+	stream?: boolean;
+	messages: {
+		role: "user" | "assistant";
+		content: string | AnthropicContentBlock[];
+	}[];
+}
+
+/**
+ * Fields read from a response or stream event
+ */
+interface AnthropicPayload {
+	type?: string;
+	error?: { message?: string };
+	delta?: { type?: string; text?: string };
+	message?: { usage?: { input_tokens?: number } };
+	usage?: { input_tokens?: number; output_tokens?: number };
+	content?: { type?: string; text?: string }[];
+}
+
+/**
+ * Payload of a stream event, null for events without data
+ */
+const eventPayload = (event: SSEEvent): AnthropicPayload | null => {
+	if (!event.data || event.data === "[DONE]") return null;
+	return JSON.parse(event.data) as AnthropicPayload | null;
+};
+
+/**
+ * Plain text, or content blocks when the turn has images
+ */
+const turnContent = (turn: Turn): string | AnthropicContentBlock[] => {
+	if (!turn.images?.length) return turn.text;
+	const blocks: AnthropicContentBlock[] = turn.images.map((image) => ({
+		type: "image",
+		source: { type: "base64", media_type: image.mimeType, data: image.data },
+	}));
+	if (turn.text) blocks.push({ type: "text", text: turn.text });
+	return blocks;
+};
+
+/**
+ * Build an Anthropic Messages request from OpenAI-style messages
+ */
+export function buildAnthropicRequest(
+	messages: ChatCompletionMessageParam[],
+	{ model, max_tokens, temperature }: CompletionOptions,
+	defaultModel: string
+): AnthropicRequest {
+	const { system, turns } = toAlternatingTurns(messages);
+
+	return {
+		model: model || defaultModel,
+		max_tokens: max_tokens || DEFAULT_MAX_TOKENS,
+		// Anthropic accepts 0-1, the plugin setting goes up to 2
+		temperature:
+			temperature === undefined ? undefined : Math.min(temperature, 1),
+		system: system || undefined,
+		messages: turns.map((turn) => ({
+			role: turn.role,
+			content: turnContent(turn),
+		})),
+	};
+}
+
+/**
+ * Extract the text delta from an Anthropic stream event.
+ * Throws when the stream reports an error.
+ */
+export function anthropicEventText(event: SSEEvent): string | null {
+	const payload = eventPayload(event);
+	if (payload?.type === "error") {
+		throw new Error(payload.error?.message || "Anthropic stream error");
+	}
+	if (
+		payload?.type === "content_block_delta" &&
+		payload.delta?.type === "text_delta"
+	) {
+		return payload.delta.text ?? null;
+	}
+	return null;
+}
+
+/**
+ * Token counts of an Anthropic stream event: input tokens come with
+ * `message_start`, the running output count with `message_delta`
+ */
+export function anthropicEventUsage(event: SSEEvent): Partial<TokenUsage> | null {
+	const payload = eventPayload(event);
+	if (payload?.type === "message_start" && payload.message?.usage) {
+		return { promptTokens: payload.message.usage.input_tokens };
+	}
+	if (payload?.type === "message_delta" && payload.usage) {
+		return { completionTokens: payload.usage.output_tokens };
+	}
+	return null;
+}
+
+const headersFor = (provider: ProviderConfig) => ({
+	"x-api-key": provider.apiKey,
+	"anthropic-version": ANTHROPIC_VERSION,
+	// Obsidian runs in a browser context
+	"anthropic-dangerous-direct-browser-access": "true",
+});
+
+export const anthropicAdapter: ChatAdapter = {
+	async stream(provider, messages, options, onText) {
+		const body = {
+			...buildAnthropicRequest(messages, options, provider.models[0]),
+			stream: true,
+		};
+		const response = await postJSON(
+			joinURL(provider.baseURL, "messages"),
+			headersFor(provider),
+			body,
+			options.signal
+		);
+
+		const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+		await readSSE(response, (event) => {
+			const text = anthropicEventText(event);
+			if (text) onText(text);
+			Object.assign(usage, anthropicEventUsage(event));
+		});
+		if (usage.promptTokens || usage.completionTokens) {
+			options.onUsage?.(usage);
+		}
+	},
+
+	async complete(provider, messages, options) {
+		const response = await postJSON(
+			joinURL(provider.baseURL, "messages"),
+			headersFor(provider),
+			buildAnthropicRequest(messages, options, provider.models[0]),
+			options.signal
+		);
+		const json: unknown = await response.json();
+		const payload = json as AnthropicPayload | null;
+		if (payload?.usage) {
+			options.onUsage?.({
+				promptTokens: payload.usage.input_tokens || 0,
+				completionTokens: payload.usage.output_tokens || 0,
+			});
+		}
+		return (payload?.content || [])
+			.filter((block) => block.type === "text")
+			.map((block) => block.text || "")
+			.join("");
+	},
+
+	async listModels(provider) {
+		const json: unknown = await getJSON(
+			`${joinURL(provider.baseURL, "models")}?limit=1000`,
+			headersFor(provider)
+		);
+		const listing = json as { data?: { id: string }[] } | null;
+		// The listing carries no limits, they come from the built-in table
+		return (listing?.data || []).map((model) => ({
+			name: model.id,
+		}));
+	},
+};
@@ -0,0 +1,297 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { ModelInfo } from "../models";
+import { ProviderConfig } from "../providers";
+import { TokenUsage } from "../usage";
+
+export interface CompletionOptions {
+	model?: string;
+	max_tokens?: number;
+	temperature?: number;
+	isJSON?: boolean;
+	/**
+	 * Aborts the HTTP request and the stream
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Receives the token usage reported by the provider
+	 */
+	onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Translates OpenAI-style chat messages to a native provider API and back
+ */
+export interface ChatAdapter {
+	/**
+	 * Stream a completion, calling `onText` for every text delta.
+	 * Resolves when the stream ends, rejects on HTTP or stream errors.
+	 */
+	stream(
+		provider: ProviderConfig,
+		messages: ChatCompletionMessageParam[],
+		options: CompletionOptions,
+		onText: (text: string) => void
+	): Promise<void>;
+
+	/**
+	 * Request a full completion and return its text
+	 */
+	complete(
+		provider: ProviderConfig,
+		messages: ChatCompletionMessageParam[],
+		options: CompletionOptions
+	): Promise<string>;
+
+	/**
+	 * List the chat models available to the API key
+	 */
+	listModels(provider: ProviderConfig): Promise<ModelInfo[]>;
+}
+
+export type TurnRole = "user" | "assistant";
+
+/**
+ * Base64 image sent inline
+ */
+export interface TurnImage {
+	mimeType: string;
+	data: string;
+}
+
+export interface Turn {
+	role: TurnRole;
+	text: string;
+	/**
+	 * Images of user turns, sent before the text
+	 */
+	images?: TurnImage[];
+}
+
+/**
+ * Text prepended when a conversation starts with an assistant turn,
+ * since native APIs require the first turn to come from the user
+ */
+export const LEADING_USER_TURN = "(continued)";
+
+/**
+ * Flatten a message content (string or content parts) to plain text
+ */
+export function contentToText(
+	content: ChatCompletionMessageParam["content"]
+): string {
+	if (!content) return "";
+	if (typeof content === "string") return content;
+	return content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.filter(Boolean)
+		.join("\n");
+}
+
+/**
+ * Images of a message content given as `data:` URLs.
+ * Remote URLs are left out: native APIs do not fetch them the same way.
+ */
+export function contentImages(
+	content: ChatCompletionMessageParam["content"]
+): TurnImage[] {
+	if (!Array.isArray(content)) return [];
+	return content.flatMap((part) => {
+		if (part.type !== "image_url") return [];
+		const match = /^data:([^;,]+);base64,(.+)$/.exec(part.image_url.url);
+		return match ? [{ mimeType: match[1], data: match[2] }] : [];
+	});
+}
+
+/**
+ * Split OpenAI-style messages into a hoisted system prompt and strictly
+ * alternating user/assistant turns.
+ *
+ * - every system message is joined into one system prompt
+ * - consecutive messages of the same role are merged
+ * - images are only kept in user turns
+ * - a leading assistant turn gets a user turn in front of it
+ */
+export function toAlternatingTurns(messages: ChatCompletionMessageParam[]): {
+	system: string;
+	turns: Turn[];
+} {
+	const systemParts: string[] = [];
+	const turns: Turn[] = [];
+
+	for (const message of messages) {
+		const text = contentToText(message.content).trim();
+
+		if (message.role === "system") {
+			if (text) systemParts.push(text);
+			continue;
+		}
+
+		const role: TurnRole = message.role === "assistant" ? "assistant" : "user";
+		const images = role === "user" ? contentImages(message.content) : [];
+		if (!text && !images.length) continue;
+
+		const last = turns[turns.length - 1];
+		if (last && last.role === role) {
+			last.text = [last.text, text].filter(Boolean).join("\n\n");
+			if (images.length) last.images = [...(last.images || []), ...images];
+		} else {
+			turns.push(images.length ? { role, text, images } : { role, text });
+		}
+	}
+
+	if (turns.length && turns[0].role === "assistant") {
+		turns.unshift({ role: "user", text: LEADING_USER_TURN });
+	}
+
+	return { system: systemParts.join("\n\n"), turns };
+}
+
+export interface SSEEvent {
+	event?: string;
+	data: string;
+}
+
+/**
+ * Incremental Server-Sent Events parser.
+ * Feed raw text with `push`, get back the events completed so far.
+ */
+export class SSEParser {
+	private buffer = "";
+
+	push(text: string): SSEEvent[] {
+		this.buffer += text;
+		const events: SSEEvent[] = [];
+
+		let match: RegExpExecArray | null;
+		const separator = /\r?\n\r?\n/;
+		while ((match = separator.exec(this.buffer))) {
+			const block = this.buffer.slice(0, match.index);
+			this.buffer = this.buffer.slice(match.index + match[0].length);
+			const event = parseEventBlock(block);
+			if (event) events.push(event);
+		}
+
+		return events;
+	}
+
+	/**
+	 * Parse whatever is left once the stream has ended
+	 */
+	flush(): SSEEvent[] {
+		const rest = this.buffer;
+		this.buffer = "";
+		const event = parseEventBlock(rest);
+		return event ? [event] : [];
+	}
+}
+
+function parseEventBlock(block: string): SSEEvent | null {
+	let event: string | undefined;
+	const data: string[] = [];
+
+	for (const line of block.split(/\r?\n/)) {
+		if (!line || line.startsWith(":")) continue;
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) value = value.slice(1);
+
+		if (field === "event") event = value;
+		else if (field === "data") data.push(value);
+	}
+
+	if (!data.length) return null;
+	return { event, data: data.join("\n") };
+}
+
+/**
+ * Read a fetch response body as Server-Sent Events
+ */
+export async function readSSE(
+	response: Response,
+	onEvent: (event: SSEEvent) => void
+) {
+	if (!response.body) {
+		throw new Error("Response has no body to stream");
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	const parser = new SSEParser();
+
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		parser.push(decoder.decode(value, { stream: true })).forEach(onEvent);
+	}
+
+	parser.push(decoder.decode()).forEach(onEvent);
+	parser.flush().forEach(onEvent);
+}
+
+/**
+ * Non-2xx response, with what retrying needs to know about it
+ */
+export class HTTPError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+		public headers: Record<string, string>
+	) {
+		super(message);
+		this.name = "HTTPError";
+	}
+}
+
+/**
+ * Throw a readable error on non-2xx responses
+ */
+async function ensureOk(response: Response) {
+	if (response.ok) return response;
+
+	let detail = await response.text();
+	try {
+		const json = JSON.parse(detail);
+		detail = json?.error?.message || json?.[0]?.error?.message || detail;
+	} catch {
+		// Body is not JSON, keep the raw text
+	}
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, name) => (headers[name] = value));
+	throw new HTTPError(`${response.status} ${detail}`.trim(), response.status, headers);
+}
+
+/**
+ * POST JSON and throw a readable error on non-2xx responses
+ */
+export async function postJSON(
+	url: string,
+	headers: Record<string, string>,
+	body: unknown,
+	signal?: AbortSignal
+) {
+	return ensureOk(
+		await fetch(url, {
+			method: "POST",
+			headers: { "content-type": "application/json", ...headers },
+			body: JSON.stringify(body),
+			signal,
+		})
+	);
+}
+
+/**
+ * GET a JSON document and throw a readable error on non-2xx responses
+ */
+export async function getJSON(url: string, headers: Record<string, string>) {
+	const response = await ensureOk(await fetch(url, { headers }));
+	return response.json();
+}
+
+/**
+ * Join a base URL and a path without doubling slashes
+ */
+export function joinURL(baseURL: string, path: string) {
+	return `${baseURL.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
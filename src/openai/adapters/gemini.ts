@@ -0,0 +1,166 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { ProviderConfig } from "../providers";
+import { TokenUsage } from "../usage";
+import {
+	ChatAdapter,
+	CompletionOptions,
+	SSEEvent,
+	getJSON,
+	joinURL,
+	postJSON,
+	readSSE,
+	toAlternatingTurns,
+} from "./common";
+
+type GeminiPart =
+	| { text: string }
+	| { inlineData: { mimeType: string; data: string } };
+
+export interface GeminiRequest {
+	contents: { role: "user" | "model"; parts: GeminiPart[] }[];
+	systemInstruction?: { parts: { text: string }[] };
+	generationConfig: {
+		maxOutputTokens?: number;
+		temperature?: number;
+		responseMimeType?: string;
+	};
+}
+
+/**
+ * Fields read from a response or stream chunk
+ */
+interface GeminiPayload {
+	error?: { message?: string };
+	promptFeedback?: { blockReason?: string };
+	candidates?: { content?: { parts?: { text?: string }[] } }[];
+	usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface GeminiModel {
+	name: string;
+	inputTokenLimit?: number;
+	outputTokenLimit?: number;
+	supportedGenerationMethods?: string[];
+}
+
+/**
+ * Build a Gemini generateContent request from OpenAI-style messages
+ */
+export function buildGeminiRequest(
+	messages: ChatCompletionMessageParam[],
+	{ max_tokens, temperature, isJSON }: CompletionOptions
+): GeminiRequest {
+	const { system, turns } = toAlternatingTurns(messages);
+
+	return {
+		contents: turns.map((turn) => ({
+			role: turn.role === "assistant" ? "model" : "user",
+			parts: [
+				...(turn.images || []).map((inlineData) => ({ inlineData })),
+				...(turn.text ? [{ text: turn.text }] : []),
+			],
+		})),
+		systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+		generationConfig: {
+			maxOutputTokens: max_tokens,
+			temperature,
+			responseMimeType: isJSON ? "application/json" : undefined,
+		},
+	};
+}
+
+/**
+ * Extract the text of a Gemini response or stream chunk.
+ * Throws when the prompt was blocked.
+ */
+export function geminiPayloadText(response: unknown): string {
+	const payload = response as GeminiPayload | null;
+	if (payload?.error) {
+		throw new Error(payload.error.message || "Gemini error");
+	}
+	if (payload?.promptFeedback?.blockReason) {
+		throw new Error(`Gemini blocked the prompt: ${payload.promptFeedback.blockReason}`);
+	}
+
+	const parts = payload?.candidates?.[0]?.content?.parts || [];
+	return parts.map((part) => part.text || "").join("");
+}
+
+/**
+ * Token counts of a response, when reported
+ */
+export function geminiPayloadUsage(response: unknown): TokenUsage | null {
+	const metadata = (response as GeminiPayload | null)?.usageMetadata;
+	if (!metadata) return null;
+	return {
+		promptTokens: metadata.promptTokenCount || 0,
+		completionTokens: metadata.candidatesTokenCount || 0,
+	};
+}
+
+export function geminiEventText(event: SSEEvent): string | null {
+	if (!event.data) return null;
+	return geminiPayloadText(JSON.parse(event.data)) || null;
+}
+
+const urlFor = (provider: ProviderConfig, model: string | undefined, method: string) =>
+	joinURL(
+		provider.baseURL,
+		`models/${encodeURIComponent(model || provider.models[0])}:${method}`
+	);
+
+const headersFor = (provider: ProviderConfig) => ({
+	"x-goog-api-key": provider.apiKey,
+});
+
+export const geminiAdapter: ChatAdapter = {
+	async stream(provider, messages, options, onText) {
+		const response = await postJSON(
+			`${urlFor(provider, options.model, "streamGenerateContent")}?alt=sse`,
+			headersFor(provider),
+			buildGeminiRequest(messages, options),
+			options.signal
+		);
+
+		// Every chunk repeats the running totals, the last one is complete
+		const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+		await readSSE(response, (event) => {
+			const text = geminiEventText(event);
+			if (text) onText(text);
+			if (event.data) Object.assign(usage, geminiPayloadUsage(JSON.parse(event.data)));
+		});
+		if (usage.promptTokens || usage.completionTokens) {
+			options.onUsage?.(usage);
+		}
+	},
+
+	async complete(provider, messages, options) {
+		const response = await postJSON(
+			urlFor(provider, options.model, "generateContent"),
+			headersFor(provider),
+			buildGeminiRequest(messages, options),
+			options.signal
+		);
+		const json: unknown = await response.json();
+		const usage = geminiPayloadUsage(json);
+		if (usage) options.onUsage?.(usage);
+		return geminiPayloadText(json);
+	},
+
+	async listModels(provider) {
+		const json: unknown = await getJSON(
+			`${joinURL(provider.baseURL, "models")}?pageSize=1000`,
+			headersFor(provider)
+		);
+		const listing = json as { models?: GeminiModel[] } | null;
+		return (listing?.models || [])
+			.filter((model) =>
+				model.supportedGenerationMethods?.includes("generateContent")
+			)
+			.map((model) => ({
+				name: model.name.replace(/^models\//, ""),
+				tokenLimit: model.inputTokenLimit,
+				maxOutputTokens: model.outputTokenLimit,
+			}));
+	},
+};
@@ -0,0 +1,18 @@
+import { ProviderProtocol } from "../providers";
+import { anthropicAdapter } from "./anthropic";
+import { ChatAdapter } from "./common";
+import { geminiAdapter } from "./gemini";
+
+export type { ChatAdapter, CompletionOptions } from "./common";
+
+const ADAPTERS: Partial<Record<ProviderProtocol, ChatAdapter>> = {
+	anthropic: anthropicAdapter,
+	gemini: geminiAdapter,
+};
+
+/**
+ * Native adapter for a protocol, or undefined for OpenAI-compatible providers
+ */
+export function getAdapter(protocol: ProviderProtocol): ChatAdapter | undefined {
+	return ADAPTERS[protocol];
+}
@@ -1,14 +1,257 @@
+import { AugmentedCanvasSettings } from "src/settings/AugmentedCanvasSettings";
+import { ProviderId, providerById } from "./providers";
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPricing {
+	input: number;
+	output: number;
+}
+
+export interface ModelInfo {
+	name: string;
+
+	/**
+	 * Context window in tokens (prompt + response)
+	 */
+	tokenLimit?: number;
+
+	/**
+	 * Maximum number of tokens the model can generate in one response
+	 */
+	maxOutputTokens?: number;
+
+	pricing?: ModelPricing;
+
+	/**
+	 * Accepts images in user messages
+	 */
+	vision?: boolean;
+}
+
+/**
+ * A model with every limit known, falling back to defaults when needed
+ */
+export interface ResolvedModel extends ModelInfo {
+	tokenLimit: number;
+}
+
+/**
+ * Models fetched from a provider's `/models` endpoint, kept in plugin data
+ */
+export interface ModelCacheEntry {
+	/**
+	 * Base URL the list was fetched from. A different URL invalidates the entry.
+	 */
+	baseURL: string;
+	fetchedAt: number;
+	models: ModelInfo[];
+}
+
+export type ModelCache = Partial<Record<ProviderId, ModelCacheEntry>>;
+
+type ModelSettings = Pick<
+	AugmentedCanvasSettings,
+	"providerId" | "apiBaseUrl" | "customModels" | "modelCache"
+>;
+
+/**
+ * Context window assumed for models nothing is known about
+ */
+export const DEFAULT_TOKEN_LIMIT = 32000;
+
 export const CHAT_MODELS = {
 	DEEPSEEK_CHAT: {
 		name: "deepseek-chat",
-		tokenLimit: 32000,
+		tokenLimit: 64000,
+		maxOutputTokens: 8192,
+		pricing: { input: 0.27, output: 1.1 },
 	},
 	DEEPSEEK_CODER: {
 		name: "deepseek-coder",
 		tokenLimit: 16000,
+		maxOutputTokens: 4096,
+		pricing: { input: 0.27, output: 1.1 },
+	},
+	GPT_4O: {
+		name: "gpt-4o",
+		tokenLimit: 128000,
+		maxOutputTokens: 16384,
+		pricing: { input: 2.5, output: 10 },
+		vision: true,
+	},
+	GPT_4O_MINI: {
+		name: "gpt-4o-mini",
+		tokenLimit: 128000,
+		maxOutputTokens: 16384,
+		pricing: { input: 0.15, output: 0.6 },
+		vision: true,
+	},
+	GPT_4_TURBO: {
+		name: "gpt-4-turbo",
+		tokenLimit: 128000,
+		maxOutputTokens: 4096,
+		pricing: { input: 10, output: 30 },
+		vision: true,
+	},
+	GPT_35_TURBO: {
+		name: "gpt-3.5-turbo",
+		tokenLimit: 16385,
+		maxOutputTokens: 4096,
+		pricing: { input: 0.5, output: 1.5 },
+	},
+	CLAUDE_35_SONNET: {
+		name: "claude-3-5-sonnet-latest",
+		tokenLimit: 200000,
+		maxOutputTokens: 8192,
+		pricing: { input: 3, output: 15 },
+		vision: true,
+	},
+	CLAUDE_35_HAIKU: {
+		name: "claude-3-5-haiku-latest",
+		tokenLimit: 200000,
+		maxOutputTokens: 8192,
+		pricing: { input: 0.8, output: 4 },
+		vision: true,
+	},
+	CLAUDE_3_OPUS: {
+		name: "claude-3-opus-latest",
+		tokenLimit: 200000,
+		maxOutputTokens: 4096,
+		pricing: { input: 15, output: 75 },
+		vision: true,
+	},
+	GEMINI_15_PRO: {
+		name: "gemini-1.5-pro",
+		tokenLimit: 2097152,
+		maxOutputTokens: 8192,
+		pricing: { input: 1.25, output: 5 },
+		vision: true,
+	},
+	GEMINI_15_FLASH: {
+		name: "gemini-1.5-flash",
+		tokenLimit: 1048576,
+		maxOutputTokens: 8192,
+		pricing: { input: 0.075, output: 0.3 },
+		vision: true,
+	},
+	GEMINI_20_FLASH: {
+		name: "gemini-2.0-flash",
+		tokenLimit: 1048576,
+		maxOutputTokens: 8192,
+		pricing: { input: 0.1, output: 0.4 },
+		vision: true,
 	},
 };
 
-export function chatModelByName(name: string) {
-	return Object.values(CHAT_MODELS).find((model) => model.name === name) || CHAT_MODELS.DEEPSEEK_CHAT;
+/**
+ * Fetched models for the selected provider, if the cache matches its base URL
+ */
+export function cachedModels(settings: ModelSettings): ModelInfo[] {
+	const entry = settings.modelCache?.[settings.providerId];
+	const baseURL =
+		settings.apiBaseUrl?.trim() || providerById(settings.providerId).baseURL;
+	return entry && entry.baseURL === baseURL ? entry.models : [];
+}
+
+/**
+ * Model names offered for a provider: presets, then fetched, then custom models
+ */
+export function modelNames(
+	settings: ModelSettings,
+	providerId: ProviderId = settings.providerId
+): string[] {
+	const fetched =
+		providerId === settings.providerId ? cachedModels(settings) : [];
+	const names = [
+		...providerById(providerId).models,
+		...fetched.map((model) => model.name),
+		...(settings.customModels || []).map((model) => model.name),
+	];
+	return [...new Set(names)];
+}
+
+/**
+ * Only keep the fields that are set, so later sources do not erase earlier ones
+ */
+const definedFields = (model?: ModelInfo): Partial<ModelInfo> =>
+	Object.fromEntries(
+		Object.entries(model || {}).filter(([, value]) => value !== undefined)
+	);
+
+/**
+ * Resolve a model's limits and pricing.
+ *
+ * Sources are merged field by field, later ones winning:
+ * built-in table, then models fetched from the provider, then custom models.
+ * Unknown models get `DEFAULT_TOKEN_LIMIT`.
+ */
+export function chatModelByName(
+	name: string,
+	settings?: ModelSettings
+): ResolvedModel {
+	const builtin = Object.values(CHAT_MODELS).find(
+		(model) => model.name === name
+	);
+	const fetched = settings
+		? cachedModels(settings).find((model) => model.name === name)
+		: undefined;
+	const custom = settings?.customModels?.find((model) => model.name === name);
+
+	return {
+		tokenLimit: DEFAULT_TOKEN_LIMIT,
+		...definedFields(builtin),
+		...definedFields(fetched),
+		...definedFields(custom),
+		name,
+	};
+}
+
+/**
+ * Fields read from a `/models` entry, each reported by only some providers
+ */
+interface ModelListing {
+	id?: unknown;
+	context_length?: unknown;
+	context_window?: unknown;
+	max_context_length?: unknown;
+	max_completion_tokens?: unknown;
+	top_provider?: { max_completion_tokens?: unknown };
+	architecture?: { input_modalities?: unknown; modality?: unknown };
+	pricing?: { prompt?: unknown; completion?: unknown };
+}
+
+/**
+ * Convert an entry of an OpenAI-compatible `/models` listing.
+ * Limits and pricing are only reported by some providers (OpenRouter, Groq, Together...).
+ */
+export function parseModelListing(entry: unknown): ModelInfo {
+	const raw = (entry || {}) as ModelListing;
+	const tokenLimit =
+		raw.context_length ?? raw.context_window ?? raw.max_context_length;
+	const maxOutputTokens =
+		raw.top_provider?.max_completion_tokens ?? raw.max_completion_tokens;
+
+	// OpenRouter lists input modalities, older listings a "text+image->text" modality
+	const modalities = raw.architecture?.input_modalities;
+	const inputs = Array.isArray(modalities)
+		? modalities
+		: String(raw.architecture?.modality || "").split("->")[0].split("+");
+
+	// OpenRouter reports USD per token as strings
+	const input = parseFloat(String(raw.pricing?.prompt));
+	const output = parseFloat(String(raw.pricing?.completion));
+
+	return {
+		name: String(raw.id ?? ""),
+		tokenLimit: typeof tokenLimit === "number" ? tokenLimit : undefined,
+		maxOutputTokens:
+			typeof maxOutputTokens === "number" ? maxOutputTokens : undefined,
+		pricing:
+			isNaN(input) || isNaN(output)
+				? undefined
+				: { input: input * 1e6, output: output * 1e6 },
+		vision: inputs.includes("image") || undefined,
+	};
 }
@@ -0,0 +1,242 @@
+import { AugmentedCanvasSettings } from "src/settings/AugmentedCanvasSettings";
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from "./retry";
+
+export type ProviderId =
+	| "deepseek"
+	| "openai"
+	| "azure"
+	| "openrouter"
+	| "ollama"
+	| "anthropic"
+	| "gemini"
+	| "custom";
+
+/**
+ * Wire protocol spoken by the provider.
+ * Non-OpenAI protocols go through a native adapter (see `src/openai/adapters`).
+ */
+export type ProviderProtocol = "openai" | "anthropic" | "gemini";
+
+/**
+ * How the API key is sent to the provider
+ * - bearer: `Authorization: Bearer <key>` (OpenAI protocol default)
+ * - api-key: `api-key: <key>` header (Azure OpenAI)
+ * - x-api-key: `x-api-key: <key>` header (Anthropic)
+ * - x-goog-api-key: `x-goog-api-key: <key>` header (Gemini)
+ * - none: no authentication (local servers)
+ */
+export type AuthStyle =
+	| "bearer"
+	| "api-key"
+	| "x-api-key"
+	| "x-goog-api-key"
+	| "none";
+
+export interface ProviderCapabilities {
+	/**
+	 * Has a native JSON output mode (`response_format: json_object` or equivalent)
+	 */
+	jsonMode: boolean;
+
+	/**
+	 * Supports streamed completions
+	 */
+	streaming: boolean;
+
+	/**
+	 * Reports token usage at the end of a stream when asked with
+	 * `stream_options: { include_usage: true }`
+	 */
+	streamUsage?: boolean;
+}
+
+export interface LLMProvider {
+	id: ProviderId;
+	name: string;
+	protocol: ProviderProtocol;
+	baseURL: string;
+	authStyle: AuthStyle;
+	/**
+	 * Suggested models. Empty means the user types the model name.
+	 */
+	models: string[];
+	capabilities: ProviderCapabilities;
+	/**
+	 * Query parameters added to every request (e.g. Azure `api-version`)
+	 */
+	defaultQuery?: Record<string, string>;
+}
+
+/**
+ * Provider resolved from settings, ready to build a client
+ */
+export interface ProviderConfig extends LLMProvider {
+	apiKey: string;
+
+	/**
+	 * How failed requests are retried, `DEFAULT_RETRY_POLICY` when unset
+	 */
+	retry?: RetryPolicy;
+}
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+	deepseek: {
+		id: "deepseek",
+		name: "DeepSeek",
+		protocol: "openai",
+		baseURL: "https://api.deepseek.com/v1",
+		authStyle: "bearer",
+		models: ["deepseek-chat", "deepseek-coder"],
+		capabilities: { jsonMode: true, streaming: true, streamUsage: true },
+	},
+	openai: {
+		id: "openai",
+		name: "OpenAI",
+		protocol: "openai",
+		baseURL: "https://api.openai.com/v1",
+		authStyle: "bearer",
+		models: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-3.5-turbo"],
+		capabilities: { jsonMode: true, streaming: true, streamUsage: true },
+	},
+	azure: {
+		id: "azure",
+		name: "Azure OpenAI",
+		protocol: "openai",
+		// https://<resource>.openai.azure.com/openai/deployments/<deployment>
+		baseURL: "",
+		authStyle: "api-key",
+		models: [],
+		capabilities: { jsonMode: true, streaming: true },
+		defaultQuery: { "api-version": "2024-06-01" },
+	},
+	openrouter: {
+		id: "openrouter",
+		name: "OpenRouter",
+		protocol: "openai",
+		baseURL: "https://openrouter.ai/api/v1",
+		authStyle: "bearer",
+		models: [],
+		capabilities: { jsonMode: true, streaming: true, streamUsage: true },
+	},
+	ollama: {
+		id: "ollama",
+		name: "Ollama",
+		protocol: "openai",
+		baseURL: "http://localhost:11434/v1",
+		authStyle: "none",
+		models: [],
+		capabilities: { jsonMode: true, streaming: true },
+	},
+	anthropic: {
+		id: "anthropic",
+		name: "Anthropic",
+		protocol: "anthropic",
+		baseURL: "https://api.anthropic.com/v1",
+		authStyle: "x-api-key",
+		models: [
+			"claude-3-5-sonnet-latest",
+			"claude-3-5-haiku-latest",
+			"claude-3-opus-latest",
+		],
+		// No JSON mode: JSON is requested through the prompt
+		capabilities: { jsonMode: false, streaming: true },
+	},
+	gemini: {
+		id: "gemini",
+		name: "Google Gemini",
+		protocol: "gemini",
+		baseURL: "https://generativelanguage.googleapis.com/v1beta",
+		authStyle: "x-goog-api-key",
+		models: ["gemini-1.5-pro", "gemini-1.5-flash", "gemini-2.0-flash"],
+		capabilities: { jsonMode: true, streaming: true },
+	},
+	custom: {
+		id: "custom",
+		name: "自定义 (OpenAI 兼容)",
+		protocol: "openai",
+		// Set in settings, e.g. http://localhost:8080/v1
+		baseURL: "",
+		authStyle: "bearer",
+		models: [],
+		capabilities: { jsonMode: false, streaming: true },
+	},
+};
+
+export function providerById(id: string): LLMProvider {
+	return PROVIDERS[id as ProviderId] || PROVIDERS.deepseek;
+}
+
+/**
+ * Resolve the provider selected in settings, applying the base URL override
+ */
+export function getProviderConfig(
+	settings: AugmentedCanvasSettings
+): ProviderConfig {
+	const provider = providerById(settings.providerId);
+	return {
+		...provider,
+		baseURL: settings.apiBaseUrl?.trim() || provider.baseURL,
+		apiKey: settings.apiKey,
+		retry: {
+			...DEFAULT_RETRY_POLICY,
+			retries: settings.maxRetries ?? DEFAULT_RETRY_POLICY.retries,
+			resume: settings.resumeOnError ?? DEFAULT_RETRY_POLICY.resume,
+		},
+	};
+}
+
+/**
+ * OpenAI-images-compatible endpoint for image generation: the image base URL
+ * when set, otherwise the chat provider when it speaks the OpenAI protocol.
+ * Undefined when neither applies.
+ */
+export function getImageProviderConfig(
+	settings: AugmentedCanvasSettings
+): ProviderConfig | undefined {
+	const chat = getProviderConfig(settings);
+	const baseURL = settings.imageBaseUrl?.trim();
+
+	if (!baseURL) {
+		return chat.protocol === "openai" && chat.baseURL ? chat : undefined;
+	}
+
+	const apiKey = settings.imageApiKey || chat.apiKey;
+	return {
+		...chat,
+		protocol: "openai",
+		baseURL,
+		apiKey,
+		authStyle: apiKey ? "bearer" : "none",
+		defaultQuery: undefined,
+	};
+}
+
+/**
+ * A request can be made: the provider has a base URL, and does not need a
+ * key or one is set. Without a base URL the SDK would send the key to
+ * api.openai.com.
+ */
+export function isProviderReady(settings: AugmentedCanvasSettings) {
+	return !providerSetupNotice(settings);
+}
+
+/**
+ * What is missing in settings before a request can be made, empty when ready
+ */
+export function providerSetupNotice(settings: AugmentedCanvasSettings) {
+	const provider = providerById(settings.providerId);
+	if (!getProviderConfig(settings).baseURL) {
+		return `请在插件设置中填写 ${provider.name} 的接口地址`;
+	}
+	if (provider.authStyle !== "none" && !settings.apiKey) {
+		return `请在插件设置中设置 ${provider.name} API 密钥`;
+	}
+	return "";
+}
+
+/**
+ * Display name of the selected provider, for notices
+ */
+export function providerName(settings: AugmentedCanvasSettings) {
+	return providerById(settings.providerId).name;
+}
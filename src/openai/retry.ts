@@ -0,0 +1,286 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { ProviderProtocol } from "./providers";
+
+export interface RetryPolicy {
+	/**
+	 * Retries after the first attempt, 0 disables retrying
+	 */
+	retries: number;
+
+	/**
+	 * Delay before the first retry in ms, doubled on every retry
+	 */
+	baseDelay: number;
+
+	/**
+	 * Upper bound of a delay in ms, including delays asked by `Retry-After`
+	 */
+	maxDelay: number;
+
+	/**
+	 * When a stream fails after some text was received, ask the model to
+	 * continue from that text instead of giving up
+	 */
+	resume: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: 2,
+	baseDelay: 500,
+	maxDelay: 60000,
+	resume: true,
+};
+
+/**
+ * Rate limits, timeouts and server errors
+ */
+const RETRYABLE_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+
+const NETWORK_ERROR_CODES = [
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"ERR_STREAM_PREMATURE_CLOSE",
+];
+
+/**
+ * Fields read from the errors of the OpenAI SDK, fetch and the adapters
+ */
+interface RequestError {
+	name?: string;
+	status?: unknown;
+	code?: string;
+	cause?: { code?: string };
+	/**
+	 * A fetch `Headers` object or a plain record
+	 */
+	headers?: Record<string, unknown>;
+}
+
+/**
+ * Instruction sent after the partial answer, for APIs without assistant prefill
+ */
+export const CONTINUE_PROMPT =
+	"Your previous answer was cut off. Continue exactly where it stopped: do not repeat any of it and do not add an introduction.";
+
+/**
+ * Shortest repeated text removed from the start of a continuation.
+ * Shorter matches are too likely to be a coincidence (`<`, `\n`, ...).
+ */
+const MIN_OVERLAP = 16;
+
+/**
+ * The error is worth another attempt: a network failure or a retryable HTTP status
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (!error || typeof error !== "object") return false;
+
+	const { status, name, code, cause } = error as RequestError;
+	if (typeof status === "number") {
+		return RETRYABLE_STATUSES.includes(status);
+	}
+
+	if (name === "FetchError") return true;
+	if (NETWORK_ERROR_CODES.includes(code || cause?.code || "")) {
+		return true;
+	}
+	// fetch reports network failures as TypeErrors ("fetch failed", "Failed to fetch", "terminated")
+	return (
+		error instanceof TypeError &&
+		/fetch|network|terminated/i.test(error.message)
+	);
+}
+
+const headerValue = (error: unknown, name: string): string | undefined => {
+	const headers = (error as RequestError | null)?.headers;
+	if (!headers) return undefined;
+	const value =
+		headers.get instanceof Function ? headers.get(name) : headers[name];
+	return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Delay asked by the server through `retry-after-ms` or `Retry-After`
+ * (seconds or an HTTP date)
+ */
+export function retryAfterMs(error: unknown, now = Date.now()): number | undefined {
+	const ms = parseFloat(headerValue(error, "retry-after-ms") || "");
+	if (ms >= 0) return ms;
+
+	const retryAfter = headerValue(error, "retry-after");
+	if (!retryAfter) return undefined;
+
+	const seconds = Number(retryAfter);
+	if (retryAfter.trim() !== "" && seconds >= 0) return seconds * 1000;
+
+	const date = Date.parse(retryAfter);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): `Retry-After` when the server
+ * sent one, exponential backoff with jitter otherwise
+ */
+export function retryDelay(
+	attempt: number,
+	error: unknown,
+	policy: RetryPolicy,
+	random = Math.random
+): number {
+	const asked = retryAfterMs(error);
+	if (asked !== undefined) return Math.min(asked, policy.maxDelay);
+
+	const backoff = policy.baseDelay * 2 ** attempt;
+	// Up to 25% less, so parallel requests do not retry in lockstep
+	const jitter = 1 - random() * 0.25;
+	return Math.min(backoff * jitter, policy.maxDelay);
+}
+
+/**
+ * Wait `ms`, returning early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) return resolve();
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done);
+	});
+}
+
+/**
+ * Run a request, retrying retryable errors according to the policy.
+ * Aborted requests are not retried.
+ */
+export async function withRetry<T>(
+	request: () => Promise<T>,
+	policy: RetryPolicy,
+	{
+		signal,
+		isRetryable = isRetryableError,
+		onRetry,
+	}: {
+		signal?: AbortSignal;
+		isRetryable?: (error: unknown) => boolean;
+		onRetry?: (error: unknown, delay: number) => void;
+	} = {}
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await request();
+		} catch (error) {
+			if (
+				signal?.aborted ||
+				attempt >= policy.retries ||
+				!isRetryable(error)
+			) {
+				throw error;
+			}
+			const delay = retryDelay(attempt, error, policy);
+			onRetry?.(error, delay);
+			await sleep(delay, signal);
+			if (signal?.aborted) throw error;
+		}
+	}
+}
+
+/**
+ * Messages asking the model to continue a partial answer.
+ *
+ * Anthropic continues a trailing assistant message (prefill),
+ * other APIs need an explicit instruction after it.
+ */
+export function continuationMessages(
+	protocol: ProviderProtocol,
+	messages: ChatCompletionMessageParam[],
+	partial: string
+): ChatCompletionMessageParam[] {
+	const prefix: ChatCompletionMessageParam = {
+		role: "assistant",
+		content: partial,
+	};
+	return protocol === "anthropic"
+		? [...messages, prefix]
+		: [...messages, prefix, { role: "user", content: CONTINUE_PROMPT }];
+}
+
+/**
+ * Removes the text a continuation repeats from the end of the partial answer.
+ *
+ * Models asked to continue sometimes restart a sentence, or the whole answer.
+ * Text is held back until the overlap is known, so the caller only receives
+ * new text and incremental parsers never see an element twice.
+ */
+export class OverlapTrimmer {
+	private buffer = "";
+	/**
+	 * Positions in the prefix where the repeated text may start
+	 */
+	private candidates: number[] | null = null;
+	private done = false;
+
+	constructor(
+		private prefix: string,
+		private minOverlap = MIN_OVERLAP
+	) {}
+
+	/**
+	 * Add continuation text, returning the part that can be emitted
+	 */
+	push(text: string): string {
+		if (this.done) return text;
+		this.buffer += text;
+		if (this.buffer.length < this.minOverlap) return "";
+
+		if (!this.candidates) {
+			const head = this.buffer.slice(0, this.minOverlap);
+			this.candidates = [];
+			for (
+				let p = this.prefix.indexOf(head);
+				p !== -1;
+				p = this.prefix.indexOf(head, p + 1)
+			) {
+				this.candidates.push(p);
+			}
+		}
+
+		this.candidates = this.candidates.filter((p) => {
+			const tail = this.prefix.slice(p);
+			return tail.length <= this.buffer.length
+				? this.buffer.startsWith(tail)
+				: tail.startsWith(this.buffer);
+		});
+
+		// A longer overlap is still possible, wait for more text
+		const pending = this.candidates.some(
+			(p) => this.prefix.length - p > this.buffer.length
+		);
+		return pending ? "" : this.release();
+	}
+
+	/**
+	 * End of the continuation: return the text still held back
+	 */
+	flush(): string {
+		return this.done ? "" : this.release();
+	}
+
+	private release(): string {
+		this.done = true;
+		const complete = (this.candidates || []).filter(
+			(p) => this.prefix.length - p <= this.buffer.length
+		);
+		// The earliest start is the longest overlap
+		const overlap = complete.length
+			? this.prefix.length - Math.min(...complete)
+			: 0;
+		const text = this.buffer.slice(overlap);
+		this.buffer = "";
+		return text;
+	}
+}
@@ -0,0 +1,97 @@
+import { getEncoding, Tiktoken } from "js-tiktoken";
+import { ChatCompletionMessageParam } from "openai/resources";
+import { AugmentedCanvasSettings } from "src/settings/AugmentedCanvasSettings";
+import { chatModelByName } from "./models";
+import { contentToText } from "./adapters/common";
+
+/**
+ * Tokens billed for one request
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+let encoding: Tiktoken | null = null;
+
+/**
+ * Token count of a text, with the same generic encoding as `buildMessages`.
+ * Only an estimate for models using another tokenizer.
+ */
+export function estimateTokens(text: string): number {
+	if (!text) return 0;
+	encoding = encoding || getEncoding("cl100k_base");
+	return encoding.encode(text).length;
+}
+
+/**
+ * Start of a text that fits in `maxTokens` tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+	if (maxTokens <= 0) return "";
+	encoding = encoding || getEncoding("cl100k_base");
+	const tokens = encoding.encode(text);
+	if (tokens.length <= maxTokens) return text;
+	// Cut the original text: decoding a partial character would garble it
+	return text.slice(0, encoding.decode(tokens.slice(0, maxTokens)).length);
+}
+
+/**
+ * Estimated tokens of an image, with OpenAI's high detail formula: the image is
+ * scaled to fit 2048×2048, then its shorter side down to 768 px, and billed
+ * 170 tokens per 512 px tile plus 85. Anthropic and Gemini bill in the same range.
+ * Images of unknown size count as four tiles.
+ */
+export function estimateImageTokens(width?: number, height?: number): number {
+	if (!width || !height) return 85 + 170 * 4;
+
+	const fit = Math.min(1, 2048 / Math.max(width, height));
+	const shorter = Math.min(1, 768 / (Math.min(width, height) * fit));
+	const scale = fit * shorter;
+	const tiles =
+		Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+	return 85 + 170 * tiles;
+}
+
+/**
+ * Estimated prompt tokens of a request
+ */
+export function estimateMessagesTokens(
+	messages: ChatCompletionMessageParam[]
+): number {
+	return messages.reduce((total, message) => {
+		const images = Array.isArray(message.content)
+			? message.content.filter((part) => part.type === "image_url").length
+			: 0;
+		return (
+			total +
+			estimateTokens(contentToText(message.content)) +
+			images * estimateImageTokens()
+		);
+	}, 0);
+}
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+	promptTokens: a.promptTokens + b.promptTokens,
+	completionTokens: a.completionTokens + b.completionTokens,
+});
+
+/**
+ * Cost in USD, undefined when the model has no known pricing
+ */
+export function usageCost(
+	usage: TokenUsage,
+	model: string,
+	settings?: Pick<
+		AugmentedCanvasSettings,
+		"providerId" | "apiBaseUrl" | "customModels" | "modelCache"
+	>
+): number | undefined {
+	const pricing = chatModelByName(model, settings).pricing;
+	if (!pricing) return undefined;
+	return (
+		(usage.promptTokens * pricing.input +
+			usage.completionTokens * pricing.output) /
+		1e6
+	);
+}
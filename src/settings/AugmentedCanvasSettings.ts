@@ -1,4 +1,41 @@
-import { CHAT_MODELS } from "src/openai/models";
+import {
+	CHAT_MODELS,
+	ModelCache,
+	ModelInfo,
+	modelNames,
+} from "src/openai/models";
+import { ProviderId } from "src/openai/providers";
+import { AbortBehavior } from "src/utils/generationControl";
+import { BudgetAction } from "src/utils/usageLedger";
+import { ContextStrategy } from "src/utils/contextStrategies";
+import {
+	ContextSources,
+	DEFAULT_CONTEXT_SOURCES,
+} from "src/obsidian/canvasUtil";
+import {
+	DEFAULT_MARKDOWN_OPTIONS,
+	MarkdownOptions,
+} from "src/obsidian/markdownNormalizer";
+import {
+	DEFAULT_FOLDER_PROMPT_OPTIONS,
+	FolderPromptOptions,
+} from "src/utils/folderPrompt";
+import {
+	DEFAULT_VAULT_INDEX_OPTIONS,
+	VaultIndexOptions,
+} from "src/obsidian/vaultIndex";
+import {
+	DEFAULT_FLASHCARD_OPTIONS,
+	FlashcardOptions,
+} from "src/utils/flashcardFormats";
+import {
+	DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+	RelevantQuestionsOptions,
+} from "src/utils/relevantQuestions";
+import {
+	BranchExportOptions,
+	DEFAULT_BRANCH_EXPORT_OPTIONS,
+} from "src/utils/branchExport";
 
 export interface SystemPrompt {
 	id: number;
@@ -18,16 +55,37 @@ export interface LayoutPreferences {
 }
 
 export interface AugmentedCanvasSettings {
+	/**
+	 * The LLM provider requests are sent to
+	 */
+	providerId: ProviderId;
+
+	/**
+	 * Override of the provider base URL. Empty means the provider default.
+	 */
+	apiBaseUrl: string;
+
 	/**
 	 * The API key to use when making requests
 	 */
 	apiKey: string;
 
 	/**
-	 * The DeepSeek model to use
+	 * The model to use
 	 */
 	apiModel: string;
 
+	/**
+	 * Models fetched from each provider's `/models` endpoint
+	 */
+	modelCache: ModelCache;
+
+	/**
+	 * User-defined models with their context window, max output and pricing.
+	 * Override the built-in and fetched values for the same name.
+	 */
+	customModels: ModelInfo[];
+
 	/**
 	 * The temperature to use when generating responses (0-2). 0 means no randomness.
 	 */
@@ -58,6 +116,101 @@ export interface AugmentedCanvasSettings {
 	 */
 	maxDepth: number;
 
+	/**
+	 * How ancestor notes are chosen when they do not all fit the input token budget
+	 */
+	contextStrategy: ContextStrategy;
+
+	/**
+	 * Model summarizing the ancestor notes left out by the "summarize" strategy.
+	 * Empty means the model of the request.
+	 */
+	contextSummaryModel: string;
+
+	/**
+	 * Context read besides the ancestors: group members, edge neighbors, linked notes
+	 */
+	contextSources: ContextSources;
+
+	/**
+	 * Hours a fetched web page of a link node is reused before it is fetched again.
+	 * 0 means no cache.
+	 */
+	linkCacheHours: number;
+
+	/**
+	 * How notes are cleaned up before they are sent: front matter,
+	 * embed depth and Dataview queries
+	 */
+	markdown: MarkdownOptions;
+
+	/**
+	 * File filters, limits and mode last chosen for "对文件夹运行系统提示词"
+	 */
+	folderPrompt: FolderPromptOptions;
+
+	/**
+	 * Retrieval of relevant chunks of the vault's notes for every request
+	 */
+	vaultIndex: VaultIndexOptions;
+
+	/**
+	 * Show the messages of Ask AI, Ask Question and Generate Group requests
+	 * in a modal before they are sent
+	 */
+	reviewContext: boolean;
+
+	/**
+	 * What happens to the output when a generation is stopped
+	 */
+	abortBehavior: AbortBehavior;
+
+	/**
+	 * Retries of a request failing with a network error, a rate limit or a server error
+	 */
+	maxRetries: number;
+
+	/**
+	 * When a stream breaks after some text was received, continue from that text
+	 */
+	resumeOnError: boolean;
+
+	/**
+	 * Base URL of the OpenAI-images-compatible endpoint.
+	 * Empty means the chat provider, when it speaks the OpenAI protocol.
+	 */
+	imageBaseUrl: string;
+
+	/**
+	 * API key of the image endpoint. Empty means the chat API key.
+	 */
+	imageApiKey: string;
+
+	/**
+	 * Image generation model
+	 */
+	imageModel: string;
+
+	/**
+	 * Size of generated images, e.g. `1792x1024`. Empty means the endpoint default.
+	 */
+	imageSize: string;
+
+	/**
+	 * Vault folder generated images are saved to. Empty means the attachments folder.
+	 */
+	imageFolder: string;
+
+	/**
+	 * Monthly AI spend in USD after which requests warn or are blocked. 0 means no budget.
+	 */
+	monthlyBudget: number;
+
+	/**
+	 * What happens to requests once the monthly budget is spent
+	 */
+	budgetAction: BudgetAction;
+
 	/**
 	 * System prompt list fetch from github
 	 */
@@ -74,10 +227,25 @@ export interface AugmentedCanvasSettings {
 	flashcardsSystemPrompt: string;
 
 	/**
-	 * System prompt used to generate flashcards file
+	 * Format, card type, folder, deck and tags of created flashcard files
+	 */
+	flashcards: FlashcardOptions;
+
+	/**
+	 * Notes read by "插入相关问题" from the recent files, folder or search source
 	 */
 	insertRelevantQuestionsFilesCount: number;
 
+	/**
+	 * Number of relevant questions and the notes they are asked about
+	 */
+	relevantQuestions: RelevantQuestionsOptions;
+
+	/**
+	 * Callouts and folder of the notes exported from a canvas branch
+	 */
+	branchExport: BranchExportOptions;
+
 	/**
 	 * System prompt used to generate flashcards file
 	 */
@@ -157,19 +325,44 @@ Priories questions that connect different topics together.
 `.trim();
 
 export const DEFAULT_SETTINGS: AugmentedCanvasSettings = {
+	providerId: "deepseek",
+	apiBaseUrl: "",
 	apiKey: "",
 	apiModel: CHAT_MODELS.DEEPSEEK_CHAT.name,
+	modelCache: {},
+	customModels: [],
 	temperature: 1,
 	systemPrompt: DEFAULT_SYSTEM_PROMPT,
 	debug: false,
 	maxInputTokens: 0,
 	maxResponseTokens: 0,
 	maxDepth: 0,
+	contextStrategy: "nearest",
+	contextSummaryModel: "",
+	contextSources: DEFAULT_CONTEXT_SOURCES,
+	linkCacheHours: 24,
+	markdown: DEFAULT_MARKDOWN_OPTIONS,
+	folderPrompt: DEFAULT_FOLDER_PROMPT_OPTIONS,
+	vaultIndex: DEFAULT_VAULT_INDEX_OPTIONS,
+	reviewContext: false,
+	abortBehavior: "keep",
+	maxRetries: 2,
+	resumeOnError: true,
+	imageBaseUrl: "",
+	imageApiKey: "",
+	imageModel: "dall-e-3",
+	imageSize: "1792x1024",
+	imageFolder: "",
+	monthlyBudget: 0,
+	budgetAction: "warn",
 	systemPrompts: [],
 	userSystemPrompts: [],
 	flashcardsSystemPrompt: FLASHCARDS_SYSTEM_PROMPT,
+	flashcards: DEFAULT_FLASHCARD_OPTIONS,
 	insertRelevantQuestionsFilesCount: 10,
 	relevantQuestionsSystemPrompt: RELEVANT_QUESTION_SYSTEM_PROMPT,
+	relevantQuestions: DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+	branchExport: DEFAULT_BRANCH_EXPORT_OPTIONS,
 	groupGenerationEnabled: true,
 	defaultGroupColor: "4",
 	groupNodeSpacing: 40,
@@ -186,6 +379,9 @@ export const DEFAULT_SETTINGS: AugmentedCanvasSettings = {
 	},
 };
 
-export function getModels() {
-	return Object.entries(CHAT_MODELS).map(([, value]) => value.name);
+export function getModels(
+	settings: AugmentedCanvasSettings,
+	providerId: ProviderId = settings.providerId
+) {
+	return modelNames(settings, providerId);
 }
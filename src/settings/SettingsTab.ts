@@ -6,6 +6,7 @@ import {
 	Setting,
 	TextAreaComponent,
 	TextComponent,
+	ToggleComponent,
 } from "obsidian";
 import AugmentedCanvasPlugin from "./../AugmentedCanvasPlugin";
 import {
@@ -13,11 +14,70 @@ import {
 	getModels,
 } from "./AugmentedCanvasSettings";
 import { initLogDebug } from "src/logDebug";
-import { getResponse } from "src/utils/chatgpt";
+import { getResponse, listModels } from "src/utils/chatgpt";
+import { ModelInfo, chatModelByName } from "src/openai/models";
+import { AbortBehavior } from "src/utils/generationControl";
+import {
+	BudgetAction,
+	USAGE_ACTION_LABELS,
+	UsageTotals,
+	entryDay,
+	monthStart,
+	monthlySpend,
+	summarizeUsage,
+} from "src/utils/usageLedger";
+import {
+	CONTEXT_STRATEGY_LABELS,
+	ContextStrategy,
+} from "src/utils/contextStrategies";
+import {
+	ContextSources,
+	DEFAULT_CONTEXT_SOURCES,
+} from "src/obsidian/canvasUtil";
+import {
+	DEFAULT_MARKDOWN_OPTIONS,
+	FrontMatterMode,
+	MarkdownOptions,
+} from "src/obsidian/markdownNormalizer";
+import {
+	DEFAULT_VAULT_INDEX_OPTIONS,
+	VaultIndexOptions,
+} from "src/obsidian/vaultIndex";
+import {
+	DEFAULT_FLASHCARD_OPTIONS,
+	FLASHCARD_FORMAT_LABELS,
+	FLASHCARD_TYPE_LABELS,
+	FlashcardFormat,
+	FlashcardOptions,
+	FlashcardType,
+} from "src/utils/flashcardFormats";
+import {
+	DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+	RELEVANT_QUESTIONS_SOURCE_LABELS,
+	RelevantQuestionsOptions,
+	RelevantQuestionsSource,
+} from "src/utils/relevantQuestions";
+import {
+	BranchExportOptions,
+	DEFAULT_BRANCH_EXPORT_OPTIONS,
+} from "src/utils/branchExport";
+import {
+	PROVIDERS,
+	ProviderId,
+	getProviderConfig,
+	isProviderReady,
+	providerSetupNotice,
+	providerById,
+} from "src/openai/providers";
 
 export class SettingsTab extends PluginSettingTab {
 	plugin: AugmentedCanvasPlugin;
 
+	/**
+	 * Period shown in the usage tables
+	 */
+	usageRange: "month" | "30d" | "all" = "month";
+
 	constructor(app: App, plugin: AugmentedCanvasPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
@@ -28,78 +88,141 @@ export class SettingsTab extends PluginSettingTab {
 
 		containerEl.empty();
 
+		const provider = providerById(this.plugin.settings.providerId);
+
 		new Setting(containerEl)
-			.setName("模型")
-			.setDesc("选择要使用的 DeepSeek 模型。")
+			.setName("服务商")
+			.setDesc("选择 AI 服务商。除 DeepSeek 外，也支持任何兼容 OpenAI 协议的接口。")
 			.addDropdown((cb) => {
-				getModels().forEach((model) => {
-					cb.addOption(model, model);
+				Object.values(PROVIDERS).forEach((p) => {
+					cb.addOption(p.id, p.name);
 				});
-				cb.setValue(this.plugin.settings.apiModel);
-				cb.onChange(async (value) => {
-					this.plugin.settings.apiModel = value;
+				cb.setValue(provider.id);
+				cb.onChange(async (value: ProviderId) => {
+					this.plugin.settings.providerId = value;
+					this.plugin.settings.apiBaseUrl = "";
+					const models = getModels(this.plugin.settings, value);
+					if (models.length && !models.includes(this.plugin.settings.apiModel)) {
+						this.plugin.settings.apiModel = models[0];
+					}
 					await this.plugin.saveSettings();
+					this.display(); // Refresh model list and base URL
 				});
 			});
 
 		new Setting(containerEl)
-			.setName("API 密钥")
+			.setName("接口地址 (Base URL)")
 			.setDesc(
-				"请求时使用的 API 密钥 - 从 DeepSeek 获取 (https://platform.deepseek.com)"
+				provider.id === "azure"
+					? "必填。Azure 部署地址，例如 https://<resource>.openai.azure.com/openai/deployments/<deployment>"
+					: provider.baseURL
+						? "留空则使用服务商默认地址。"
+						: "必填。OpenAI 兼容服务的地址，例如 http://localhost:8080/v1"
 			)
 			.addText((text) => {
-				text.inputEl.type = "password";
-				text.setPlaceholder("API 密钥")
-					.setValue(this.plugin.settings.apiKey)
+				text.setPlaceholder(provider.baseURL)
+					.setValue(this.plugin.settings.apiBaseUrl)
 					.onChange(async (value) => {
-						this.plugin.settings.apiKey = value;
+						this.plugin.settings.apiBaseUrl = value.trim();
 						await this.plugin.saveSettings();
 					});
 			});
 
+		const modelSetting = new Setting(containerEl)
+			.setName("模型")
+			.setDesc(
+				`选择要使用的 ${provider.name} 模型。${this.describeModel(
+					this.plugin.settings.apiModel
+				)}`
+			);
+		const models = getModels(this.plugin.settings);
+		if (models.length) {
+			modelSetting.addDropdown((cb) => {
+				models.forEach((model) => {
+					cb.addOption(model, model);
+				});
+				cb.setValue(this.plugin.settings.apiModel);
+				cb.onChange(async (value) => {
+					this.plugin.settings.apiModel = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh model limits
+				});
+			});
+		} else {
+			modelSetting
+				.setDesc(`输入要使用的 ${provider.name} 模型名称（或部署名称）。`)
+				.addText((text) => {
+					text.setPlaceholder("模型名称")
+						.setValue(this.plugin.settings.apiModel)
+						.onChange(async (value) => {
+							this.plugin.settings.apiModel = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+		modelSetting.addExtraButton((button) => {
+			button
+				.setIcon("lucide-refresh-cw")
+				.setTooltip("从服务商获取模型列表")
+				.onClick(() => this.refreshModels());
+		});
+
+		if (provider.authStyle !== "none") {
+			new Setting(containerEl)
+				.setName("API 密钥")
+				.setDesc(`请求时使用的 ${provider.name} API 密钥`)
+				.addText((text) => {
+					text.inputEl.type = "password";
+					text.setPlaceholder("API 密钥")
+						.setValue(this.plugin.settings.apiKey)
+						.onChange(async (value) => {
+							this.plugin.settings.apiKey = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+
 		new Setting(containerEl)
-			.setName("测试 DeepSeek API 密钥")
+			.setName("测试连接")
 			.setDesc(
-				"向 DeepSeek 发送一个简单的测试请求，以验证您的 API 密钥和网络连接是否正常。"
+				`向 ${provider.name} 发送一个简单的测试请求，以验证您的 API 密钥和网络连接是否正常。`
 			)
 			.addButton((button) => {
 				button.setButtonText("测试").onClick(async () => {
-					const apiKey = this.plugin.settings.apiKey;
 					const model = this.plugin.settings.apiModel;
 
-					if (!apiKey) {
-						new Notice(
-							"请在测试前设置您的 DeepSeek API 密钥。"
-						);
+					if (!isProviderReady(this.plugin.settings)) {
+						new Notice(providerSetupNotice(this.plugin.settings));
 						return;
 					}
 
-					new Notice("正在测试 DeepSeek API 密钥...");
+					new Notice(`正在测试 ${provider.name} 连接...`);
 
 					try {
 						await getResponse(
-							apiKey,
+							getProviderConfig(this.plugin.settings),
 							[
 								{
 									role: "user",
 									content:
-										"请回复一条短消息：DeepSeek 测试成功。",
+										"请回复一条短消息：测试成功。",
 								},
 							],
 							{
 								model,
 								max_tokens: 16,
 								temperature: 0,
+								action: "test-connection",
 							}
 						);
 
-						new Notice("DeepSeek API 密钥测试成功 ✅");
+						new Notice(`${provider.name} 连接测试成功 ✅`);
 					} catch (error: any) {
-						console.error("DeepSeek test error:", error);
+						console.error("Provider test error:", error);
 						const message =
 							error?.message || error?.toString() || "未知错误";
 						new Notice(
-							`DeepSeek API 密钥测试失败：${message}`
+							`${provider.name} 连接测试失败：${message}`
 						);
 					}
 				});
@@ -122,6 +245,8 @@ export class SettingsTab extends PluginSettingTab {
 
 		this.displaySystemPromptsSettings(containerEl);
 
+		this.displayCustomModelsSettings(containerEl);
+
 		new Setting(containerEl)
 			.setName("闪卡系统提示词")
 			.setDesc("用于生成闪卡文件的系统提示词。")
@@ -135,6 +260,82 @@ export class SettingsTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName("闪卡格式")
+			.setDesc(
+				"Spaced Repetition 笔记可直接在 Obsidian 中复习；Anki 导入文件通过 Anki 的“文件 > 导入”导入；AnkiConnect JSON 可作为请求体发送给 AnkiConnect。"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(FLASHCARD_FORMAT_LABELS)
+					.setValue(this.flashcardOptions().format)
+					.onChange(async (value: FlashcardFormat) => {
+						await this.setFlashcardOption("format", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("闪卡类型")
+			.setDesc("双向问答会同时从背面复习到正面；填空闪卡隐藏句子中的关键词。")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(FLASHCARD_TYPE_LABELS)
+					.setValue(this.flashcardOptions().type)
+					.onChange(async (value: FlashcardType) => {
+						await this.setFlashcardOption("type", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("闪卡文件夹")
+			.setDesc("闪卡文件保存到的文件夹。")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_FLASHCARD_OPTIONS.folder)
+					.setValue(this.flashcardOptions().folder)
+					.onChange(async (value) => {
+						await this.setFlashcardOption("folder", value.trim());
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("牌组")
+			.setDesc(
+				"Anki 牌组名称，Spaced Repetition 中为 #flashcards 下的子牌组。留空使用默认牌组。"
+			)
+			.addText((text) =>
+				text
+					.setValue(this.flashcardOptions().deck)
+					.onChange(async (value) => {
+						await this.setFlashcardOption("deck", value.trim());
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("闪卡标签")
+			.setDesc("以空格或逗号分隔，添加到每张闪卡。")
+			.addText((text) =>
+				text
+					.setValue(this.flashcardOptions().tags.join(" "))
+					.onChange(async (value) => {
+						await this.setFlashcardOption(
+							"tags",
+							value.split(/[\s,]+/).filter(Boolean)
+						);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("将闪卡放到画布")
+			.setDesc("把新生成的闪卡作为问题 → 答案的卡片对放到所选卡片右侧的 Group 中。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.flashcardOptions().placeOnCanvas)
+					.onChange(async (value) => {
+						await this.setFlashcardOption("placeOnCanvas", value);
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("相关问题系统提示词")
 			.setDesc(
@@ -152,10 +353,49 @@ export class SettingsTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName("相关问题数量")
+			.setDesc("“插入相关问题”命令每次生成的问题数量。")
+			.addText((text) =>
+				text
+					.setValue(this.relevantQuestionsOptions().count.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value);
+						if (isNaN(parsed) || parsed < 1) {
+							new Notice("请输入一个正整数（1 或更大）");
+							return;
+						}
+						await this.setRelevantQuestionsOption("count", parsed);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("相关问题来源")
+			.setDesc("生成相关问题时参考的笔记。问题会连线到它们来源的笔记卡片。")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(RELEVANT_QUESTIONS_SOURCE_LABELS)
+					.setValue(this.relevantQuestionsOptions().source)
+					.onChange(async (value: RelevantQuestionsSource) => {
+						await this.setRelevantQuestionsOption("source", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("相关问题搜索词")
+			.setDesc("来源为“搜索结果”时使用。留空则用当前画布（或所选卡片）的文字搜索。开启知识库检索时按向量相似度排序。")
+			.addText((text) =>
+				text
+					.setValue(this.relevantQuestionsOptions().query)
+					.onChange(async (value) => {
+						await this.setRelevantQuestionsOption("query", value);
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("插入相关问题时参考的文件数量")
 			.setDesc(
-				"“插入相关问题”命令在生成时考虑的文件数量。必须是正整数。"
+				"来源为最近修改的笔记、所在文件夹或搜索结果时，最多读取的笔记数量。必须是正整数。"
 			)
 			.addText((text) =>
 				text
@@ -173,6 +413,29 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("导出时使用 Callout")
+			.setDesc("“导出对话分支为笔记”和“导出子树为笔记”时，把有类型颜色的卡片写成对应类型的 Callout（如洞察、风险）。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.branchExportOptions().callouts)
+					.onChange(async (value) => {
+						await this.setBranchExportOption("callouts", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("导出文件夹")
+			.setDesc("导出的笔记保存的文件夹。留空则保存在画布所在的文件夹。")
+			.addText((text) =>
+				text
+					.setPlaceholder("Exports")
+					.setValue(this.branchExportOptions().folder)
+					.onChange(async (value) => {
+						await this.setBranchExportOption("folder", value);
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("最大输入 Token 数")
 			.setDesc(
@@ -230,6 +493,179 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("上下文策略")
+			.setDesc(
+				"祖先笔记超出最大输入 token 数时如何取舍。当前节点和已固定的节点总是包含在内。摘要策略会额外调用一次模型，把放不下的较早笔记压缩成摘要。"
+			)
+			.addDropdown((dropdown) => {
+				Object.entries(CONTEXT_STRATEGY_LABELS).forEach(([value, label]) =>
+					dropdown.addOption(value, label)
+				);
+				dropdown
+					.setValue(this.plugin.settings.contextStrategy)
+					.onChange(async (value: ContextStrategy) => {
+						this.plugin.settings.contextStrategy = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("摘要模型")
+			.setDesc("用于摘要较早笔记的模型，可选择更便宜的模型。留空则使用当前请求的模型。")
+			.addText((text) =>
+				text
+					.setPlaceholder(this.plugin.settings.apiModel)
+					.setValue(this.plugin.settings.contextSummaryModel)
+					.onChange(async (value) => {
+						this.plugin.settings.contextSummaryModel = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const contextSources: [keyof ContextSources, string, string][] = [
+			["group", "上下文：同组节点", "包含与当前节点位于同一 Group 中的其他节点。"],
+			["outgoing", "上下文：指向的节点", "包含当前节点通过箭头连线指向的节点。"],
+			["undirected", "上下文：无方向连线的节点", "包含当前节点通过无箭头连线连接的节点。"],
+			["wikilinks", "上下文：链接的笔记", "包含上下文中文本节点通过 [[双链]] 引用的笔记，链接到标题或块时只读取该部分。"],
+		];
+		contextSources.forEach(([key, name, desc]) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(!!this.plugin.settings.contextSources?.[key])
+						.onChange(async (value) => {
+							this.plugin.settings.contextSources = {
+								...DEFAULT_CONTEXT_SOURCES,
+								...this.plugin.settings.contextSources,
+								[key]: value,
+							};
+							await this.plugin.saveSettings();
+						})
+				)
+		);
+
+		new Setting(containerEl)
+			.setName("网页缓存时长（小时）")
+			.setDesc("网页链接卡片的内容在此时长内直接从缓存读取，不再重新请求。0 表示不缓存。")
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.linkCacheHours.toString())
+					.onChange(async (value) => {
+						const parsed = parseFloat(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.linkCacheHours = parsed;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("笔记属性（Front matter）")
+			.setDesc("发送笔记时如何处理开头的 YAML 属性。")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						summarize: "简化为属性列表",
+						remove: "移除",
+						keep: "原样保留",
+					})
+					.setValue(this.markdownOptions().frontMatter)
+					.onChange(async (value: FrontMatterMode) => {
+						await this.setMarkdownOption("frontMatter", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("嵌入展开层数")
+			.setDesc("笔记中的 ![[嵌入]] 替换为被嵌入笔记内容的层数。0 表示保留为链接。")
+			.addText((text) =>
+				text
+					.setValue(this.markdownOptions().embedDepth.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							await this.setMarkdownOption("embedDepth", parsed);
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("渲染 Dataview 查询")
+			.setDesc("安装并启用 Dataview 插件时，将笔记中的 dataview 代码块替换为查询结果。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.markdownOptions().renderDataview)
+					.onChange(async (value) => {
+						await this.setMarkdownOption("renderDataview", value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("发送前预览上下文")
+			.setDesc(
+				"AI 问答、针对卡片提问和生成 Group 时，先显示将要发送的消息及其 token 数，可编辑、删除、调整顺序或固定消息后再发送。"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reviewContext)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewContext = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("停止生成后")
+			.setDesc(
+				"点击节点上的“停止生成”或执行“停止所有生成”命令后，如何处理已生成的内容。"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("keep", "保留已生成的内容")
+					.addOption("remove", "删除生成的节点")
+					.setValue(this.plugin.settings.abortBehavior)
+					.onChange(async (value: AbortBehavior) => {
+						this.plugin.settings.abortBehavior = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("失败重试次数")
+			.setDesc(
+				"网络错误、限流 (429) 或服务端错误时自动重试的次数，间隔按指数退避，并遵循服务商返回的 Retry-After。0 表示不重试。"
+			)
+			.addText((text) =>
+				text
+					.setValue(this.plugin.settings.maxRetries.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value);
+						if (isNaN(parsed) || parsed < 0) {
+							new Notice("请输入一个非负整数（0 或更大）");
+							return;
+						}
+						this.plugin.settings.maxRetries = parsed;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("中断后续写")
+			.setDesc(
+				"流式输出中途出错时，将已收到的内容作为前缀重新提交，让模型从断点继续，已创建的节点不会重复生成。"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.resumeOnError)
+					.onChange(async (value) => {
+						this.plugin.settings.resumeOnError = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("温度 (Temperature)")
 			.setDesc("采样温度 (0-2)。0 表示没有随机性。")
@@ -391,6 +827,12 @@ export class SettingsTab extends PluginSettingTab {
 					});
 			});
 
+		this.displayImageSettings(containerEl);
+
+		this.displayVaultIndexSettings(containerEl);
+
+		this.displayUsageSettings(containerEl);
+
 		new Setting(containerEl)
 			.setName("调试输出")
 			.setDesc("在控制台中启用调试输出")
@@ -405,6 +847,459 @@ export class SettingsTab extends PluginSettingTab {
 			});
 	}
 
+	/**
+	 * Endpoint, model, size and folder of the "Generate image" node action
+	 */
+	displayImageSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "图片生成" });
+
+		const settings = this.plugin.settings;
+		const textSetting = (
+			name: string,
+			desc: string,
+			key: "imageBaseUrl" | "imageApiKey" | "imageModel" | "imageSize" | "imageFolder",
+			placeholder = ""
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					text.setPlaceholder(placeholder)
+						.setValue(settings[key])
+						.onChange(async (value) => {
+							settings[key] = value.trim();
+							await this.plugin.saveSettings();
+						});
+					if (key === "imageApiKey") text.inputEl.type = "password";
+				});
+
+		textSetting(
+			"图片接口地址",
+			"兼容 OpenAI 图片接口 (/images/generations) 的地址，也可以是本地服务。留空则使用当前服务商（需兼容 OpenAI 协议）。",
+			"imageBaseUrl",
+			"https://api.openai.com/v1"
+		);
+		textSetting("图片接口密钥", "留空则使用上方的 API 密钥。", "imageApiKey", "API 密钥");
+		textSetting("图片模型", "例如 dall-e-3、gpt-image-1。", "imageModel", "dall-e-3");
+		textSetting(
+			"图片尺寸",
+			"例如 1792x1024、1024x1024。留空则使用接口默认尺寸。",
+			"imageSize",
+			"1792x1024"
+		);
+		textSetting(
+			"图片保存文件夹",
+			"生成的图片保存到的文件夹。留空则使用 Obsidian 的附件文件夹。",
+			"imageFolder",
+			"Attachments"
+		);
+	}
+
+	/**
+	 * Vault index: retrieval switch, embedding model and chunks per request
+	 */
+	displayVaultIndexSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "知识库检索" });
+
+		new Setting(containerEl)
+			.setName("启用知识库检索")
+			.setDesc(
+				"为库中的 Markdown 笔记建立索引，AI 问答、针对卡片提问和生成 Group 时加入与提问最相关的笔记片段。笔记修改后索引会自动更新。"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.vaultIndexOptions().enabled)
+					.onChange(async (value) => {
+						await this.setVaultIndexOption("enabled", value);
+						if (value) await this.plugin.updateVaultIndex();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("向量模型")
+			.setDesc(
+				"当前服务商的 embedding 模型，如 text-embedding-3-small，需兼容 OpenAI 协议。留空则使用本地关键词检索（BM25），无需联网。更换后请更新索引。"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("text-embedding-3-small")
+					.setValue(this.vaultIndexOptions().embeddingModel)
+					.onChange(async (value) => {
+						await this.setVaultIndexOption("embeddingModel", value.trim());
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("检索片段数")
+			.setDesc("每次请求加入的笔记片段数，超出 token 限额的片段会被省略。")
+			.addText((text) =>
+				text
+					.setValue(this.vaultIndexOptions().topK.toString())
+					.onChange(async (value) => {
+						const parsed = parseInt(value);
+						if (!isNaN(parsed) && parsed > 0) {
+							await this.setVaultIndexOption("topK", parsed);
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("更新索引")
+			.setDesc(
+				`已索引 ${Object.keys(this.plugin.vaultIndex.notes).length} 篇笔记，共 ${this.plugin.vaultIndex.chunkCount} 个片段。`
+			)
+			.addButton((button) =>
+				button.setButtonText("更新").onClick(async () => {
+					button.setDisabled(true);
+					await this.plugin.updateVaultIndex();
+					this.display();
+				})
+			);
+	}
+
+	/**
+	 * Monthly budget and usage totals per day, model, canvas and feature
+	 */
+	displayUsageSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h3", { text: "用量与费用" });
+
+		const settings = this.plugin.settings;
+		const ledger = this.plugin.usageLedger;
+
+		new Setting(containerEl)
+			.setName("月度预算（美元）")
+			.setDesc(
+				"按模型价格累计本月的 AI 费用，达到预算后提醒或阻止调用。价格未知的模型不计入费用。0 表示不设预算。"
+			)
+			.addText((text) =>
+				text
+					.setValue(settings.monthlyBudget.toString())
+					.onChange(async (value) => {
+						const parsed = parseFloat(value);
+						if (isNaN(parsed) || parsed < 0) {
+							new Notice("请输入一个非负数（0 或更大）");
+							return;
+						}
+						settings.monthlyBudget = parsed;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("超出预算时")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("warn", "提醒后继续调用")
+					.addOption("block", "阻止调用")
+					.setValue(settings.budgetAction)
+					.onChange(async (value: BudgetAction) => {
+						settings.budgetAction = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const entries = ledger?.entries || [];
+		const spent = monthlySpend(entries);
+		const since = {
+			month: monthStart(),
+			"30d": Date.now() - 30 * 24 * 60 * 60 * 1000,
+			all: 0,
+		}[this.usageRange];
+		const shown = entries.filter((entry) => entry.time >= since);
+
+		new Setting(containerEl)
+			.setName("本月费用")
+			.setDesc(
+				`$${spent.toFixed(4)}` +
+					(settings.monthlyBudget
+						? ` / 预算 $${settings.monthlyBudget.toFixed(2)}`
+						: "")
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("month", "本月")
+					.addOption("30d", "最近 30 天")
+					.addOption("all", "全部")
+					.setValue(this.usageRange)
+					.onChange((value: "month" | "30d" | "all") => {
+						this.usageRange = value;
+						this.display();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText("清空记录").onClick(async () => {
+					await ledger?.clear();
+					new Notice("已清空用量记录");
+					this.display();
+				})
+			);
+
+		if (!shown.length) {
+			containerEl.createEl("p", { text: "暂无用量记录。" });
+			return;
+		}
+
+		const byDay = summarizeUsage(shown, entryDay).sort((a, b) =>
+			b.key.localeCompare(a.key)
+		);
+		this.renderUsageTable(containerEl, "按日期", byDay);
+		this.renderUsageTable(
+			containerEl,
+			"按模型",
+			summarizeUsage(shown, (entry) => entry.model)
+		);
+		this.renderUsageTable(
+			containerEl,
+			"按画布",
+			summarizeUsage(shown, (entry) => entry.canvasPath || "（无画布）")
+		);
+		this.renderUsageTable(
+			containerEl,
+			"按功能",
+			summarizeUsage(
+				shown,
+				(entry) => USAGE_ACTION_LABELS[entry.action] || entry.action
+			)
+		);
+
+		if (shown.some((entry) => entry.cost === undefined)) {
+			containerEl.createEl("p", {
+				cls: "setting-item-description",
+				text: "* 包含价格未知的模型，实际费用更高。可在“添加自定义模型”中设置价格。",
+			});
+		}
+	}
+
+	/**
+	 * One table of usage totals
+	 */
+	renderUsageTable(containerEl: HTMLElement, title: string, rows: UsageTotals[]) {
+		containerEl.createEl("h4", { text: title });
+		const table = containerEl.createEl("table", {
+			cls: "augmented-canvas-usage-table",
+		});
+
+		const header = table.createEl("tr");
+		["", "调用次数", "输入 tokens", "输出 tokens", "费用"].forEach((text) =>
+			header.createEl("th", { text })
+		);
+
+		rows.forEach((row) => {
+			const tr = table.createEl("tr");
+			tr.createEl("td", { text: row.key });
+			tr.createEl("td", { text: row.calls.toLocaleString() });
+			tr.createEl("td", { text: row.promptTokens.toLocaleString() });
+			tr.createEl("td", { text: row.completionTokens.toLocaleString() });
+			tr.createEl("td", {
+				text: `$${row.cost.toFixed(4)}${row.unpriced ? "*" : ""}`,
+			});
+		});
+	}
+
+	/**
+	 * Context window, max output and pricing of a model, for setting descriptions
+	 */
+	describeModel(name: string): string {
+		const model = chatModelByName(name, this.plugin.settings);
+		const parts = [`上下文 ${model.tokenLimit.toLocaleString()} tokens`];
+		if (model.maxOutputTokens) {
+			parts.push(`最大输出 ${model.maxOutputTokens.toLocaleString()} tokens`);
+		}
+		if (model.pricing) {
+			parts.push(
+				`价格 $${model.pricing.input} / $${model.pricing.output} 每百万 tokens（输入 / 输出）`
+			);
+		}
+		parts.push(model.vision ? "支持图片输入" : "仅文本输入");
+		return parts.join("，") + "。";
+	}
+
+	markdownOptions(): MarkdownOptions {
+		return { ...DEFAULT_MARKDOWN_OPTIONS, ...this.plugin.settings.markdown };
+	}
+
+	async setMarkdownOption<K extends keyof MarkdownOptions>(
+		key: K,
+		value: MarkdownOptions[K]
+	) {
+		this.plugin.settings.markdown = { ...this.markdownOptions(), [key]: value };
+		await this.plugin.saveSettings();
+	}
+
+	flashcardOptions(): FlashcardOptions {
+		return { ...DEFAULT_FLASHCARD_OPTIONS, ...this.plugin.settings.flashcards };
+	}
+
+	async setFlashcardOption<K extends keyof FlashcardOptions>(
+		key: K,
+		value: FlashcardOptions[K]
+	) {
+		this.plugin.settings.flashcards = { ...this.flashcardOptions(), [key]: value };
+		await this.plugin.saveSettings();
+	}
+
+	relevantQuestionsOptions(): RelevantQuestionsOptions {
+		return {
+			...DEFAULT_RELEVANT_QUESTIONS_OPTIONS,
+			...this.plugin.settings.relevantQuestions,
+		};
+	}
+
+	async setRelevantQuestionsOption<K extends keyof RelevantQuestionsOptions>(
+		key: K,
+		value: RelevantQuestionsOptions[K]
+	) {
+		this.plugin.settings.relevantQuestions = {
+			...this.relevantQuestionsOptions(),
+			[key]: value,
+		};
+		await this.plugin.saveSettings();
+	}
+
+	branchExportOptions(): BranchExportOptions {
+		return { ...DEFAULT_BRANCH_EXPORT_OPTIONS, ...this.plugin.settings.branchExport };
+	}
+
+	async setBranchExportOption<K extends keyof BranchExportOptions>(
+		key: K,
+		value: BranchExportOptions[K]
+	) {
+		this.plugin.settings.branchExport = { ...this.branchExportOptions(), [key]: value };
+		await this.plugin.saveSettings();
+	}
+
+	vaultIndexOptions(): VaultIndexOptions {
+		return { ...DEFAULT_VAULT_INDEX_OPTIONS, ...this.plugin.settings.vaultIndex };
+	}
+
+	async setVaultIndexOption<K extends keyof VaultIndexOptions>(
+		key: K,
+		value: VaultIndexOptions[K]
+	) {
+		this.plugin.settings.vaultIndex = { ...this.vaultIndexOptions(), [key]: value };
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Fetch the provider's model list and cache it in plugin data
+	 */
+	async refreshModels() {
+		const settings = this.plugin.settings;
+		const provider = getProviderConfig(settings);
+
+		if (!isProviderReady(settings)) {
+			new Notice(providerSetupNotice(settings));
+			return;
+		}
+
+		try {
+			const models = await listModels(provider);
+			settings.modelCache = {
+				...settings.modelCache,
+				[provider.id]: {
+					baseURL: provider.baseURL,
+					fetchedAt: Date.now(),
+					models,
+				},
+			};
+			if (!settings.apiModel && models.length) {
+				settings.apiModel = models[0].name;
+			}
+			await this.plugin.saveSettings();
+			new Notice(`已获取 ${models.length} 个 ${provider.name} 模型`);
+			this.display();
+		} catch (error: any) {
+			console.error("Model list error:", error);
+			new Notice(
+				`获取 ${provider.name} 模型列表失败：${error?.message || error}`
+			);
+		}
+	}
+
+	displayCustomModelsSettings(containerEl: HTMLElement): void {
+		const setting = new Setting(containerEl)
+			.setName("添加自定义模型")
+			.setClass("augmented-canvas-setting-item")
+			.setDesc(
+				"为服务商未提供信息的模型设置上下文窗口、最大输出和价格（美元 / 每百万 tokens）以及是否支持图片输入。同名时覆盖内置和获取到的数值。"
+			);
+
+		const inputs = {
+			name: new TextComponent(setting.controlEl).setPlaceholder("模型名称"),
+			tokenLimit: new TextComponent(setting.controlEl).setPlaceholder("上下文窗口"),
+			maxOutputTokens: new TextComponent(setting.controlEl).setPlaceholder("最大输出"),
+			input: new TextComponent(setting.controlEl).setPlaceholder("输入价格"),
+			output: new TextComponent(setting.controlEl).setPlaceholder("输出价格"),
+			vision: new ToggleComponent(setting.controlEl).setTooltip("支持图片输入"),
+		};
+
+		setting.addButton((button) => {
+			button
+				.setIcon("lucide-plus")
+				.setTooltip("添加")
+				.onClick(async () => {
+					const name = inputs.name.getValue().trim();
+					const tokenLimit = parseInt(inputs.tokenLimit.getValue());
+					const maxOutputTokens = parseInt(inputs.maxOutputTokens.getValue());
+					const input = parseFloat(inputs.input.getValue());
+					const output = parseFloat(inputs.output.getValue());
+
+					if (!name) {
+						new Notice("缺少模型名称");
+						return;
+					}
+					if (isNaN(tokenLimit) || tokenLimit < 1) {
+						new Notice("上下文窗口必须是正整数");
+						return;
+					}
+
+					const model: ModelInfo = {
+						name,
+						tokenLimit,
+						maxOutputTokens:
+							maxOutputTokens > 0 ? maxOutputTokens : undefined,
+						pricing:
+							isNaN(input) || isNaN(output)
+								? undefined
+								: { input, output },
+						vision: inputs.vision.getValue(),
+					};
+
+					this.plugin.settings.customModels = [
+						...this.plugin.settings.customModels.filter(
+							(custom) => custom.name !== name
+						),
+						model,
+					];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+		});
+
+		const listContainer = containerEl.createEl("div", {
+			cls: "augmented-canvas-list-container",
+		});
+
+		this.plugin.settings.customModels.forEach((model) => {
+			new Setting(listContainer)
+				.setName(model.name)
+				.setDesc(this.describeModel(model.name))
+				.addExtraButton((button) => {
+					button
+						.setIcon("lucide-trash")
+						.setTooltip("删除")
+						.onClick(async () => {
+							this.plugin.settings.customModels =
+								this.plugin.settings.customModels.filter(
+									(custom) => custom.name !== model.name
+								);
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
+	}
+
 	displaySystemPromptsSettings(containerEl: HTMLElement): void {
 		const setting = new Setting(containerEl);
 
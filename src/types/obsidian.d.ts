@@ -8,6 +8,12 @@ declare module "obsidian" {
     type CanvasNodeID = string;
     type CanvasEdgeID = string;
 
+    interface App {
+        plugins: {
+            plugins: Record<string, { api?: unknown } | undefined>;
+        };
+    }
+
     interface Menu {
         setParentElement(parent: HTMLElement): Menu;
     }
@@ -1,7 +1,7 @@
 import {
 	App,
 	ItemView,
-	CanvasGroupNode,
+	normalizePath,
 } from "obsidian";
 import { CanvasView } from "./obsidian/canvas-patches";
 import { readNodeContent } from "./obsidian/fileUtil";
@@ -27,67 +27,6 @@ export const getActiveCanvas = (app: App) => {
 	return maybeCanvasView ? maybeCanvasView["canvas"] : null;
 };
 
-export const createCanvasGroup = (
-	app: App,
-	groupName: string,
-	notesContents: string[]
-) => {
-	const canvas = getActiveCanvas(app);
-	if (!canvas) return;
-
-	const NOTE_WIDTH = 500;
-	const NOTE_HEIGHT = 150;
-	const NOTE_GAP = 20;
-
-	const NOTES_BY_ROW = 3;
-
-	const startPos = {
-		// @ts-expect-error
-		x: canvas.x - ((NOTE_WIDTH + NOTE_GAP) * NOTES_BY_ROW) / 2,
-		// @ts-expect-error
-		y: canvas.y - ((NOTE_HEIGHT + NOTE_GAP) * 2) / 2,
-	};
-
-	// @ts-expect-error
-	const newGroup: CanvasGroupNode = canvas.createGroupNode({
-		// TODO : does not work
-		label: groupName,
-		pos: {
-			x: startPos.x - NOTE_GAP,
-			y: startPos.y - NOTE_GAP,
-		},
-		size: {
-			width: NOTES_BY_ROW * (NOTE_WIDTH + NOTE_GAP) + NOTE_GAP,
-			height: (NOTE_HEIGHT + NOTE_GAP) * 2 + NOTE_GAP,
-		},
-	});
-	newGroup.label = groupName;
-	newGroup.labelEl.setText(groupName);
-
-	let countRow = 0;
-	let countColumn = 0;
-	for (const noteContent of notesContents) {
-		const newNode = canvas.createTextNode({
-			text: noteContent,
-			pos: {
-				x: startPos.x + countRow * (NOTE_WIDTH + NOTE_GAP),
-				y: startPos.y + countColumn * (NOTE_HEIGHT + NOTE_GAP),
-			},
-			size: {
-				width: NOTE_WIDTH,
-				height: NOTE_HEIGHT,
-			},
-		});
-		canvas.addNode(newNode);
-		countColumn =
-			countRow + 1 > NOTES_BY_ROW - 1 ? countColumn + 1 : countColumn;
-		countRow = countRow + 1 > NOTES_BY_ROW - 1 ? 0 : countRow + 1;
-	}
-
-	// @ts-expect-error
-	canvas.addGroup(newGroup);
-};
-
 export const canvasNodeIsNote = (canvasNode: CanvasNode) => {
 	// @ts-expect-error
 	return !canvasNode.from;
@@ -110,10 +49,18 @@ export const getCanvasActiveNoteText = (app: App) => {
 	return readNodeContent(canvasNode);
 };
 
+/**
+ * Folder generated images are saved to: the image folder setting,
+ * otherwise the folder Obsidian puts attachments in
+ */
 export const getImageSaveFolderPath = async (
 	app: App,
 	settings: AugmentedCanvasSettings
 ) => {
+	if (settings.imageFolder?.trim()) {
+		return normalizePath(settings.imageFolder.trim());
+	}
+
 	// @ts-expect-error
 	const attachments = (await app.vault.getAvailablePathForAttachments())
 		.split("/")
@@ -0,0 +1,94 @@
+/**
+ * 对话分支导出测试
+ *
+ * - 分支按用户 / AI 轮次输出，连线标签作为过渡
+ * - 有类型颜色的卡片输出为对应类型的 Callout
+ * - 子树输出为嵌套标题
+ */
+
+import {
+	BranchExportOptions,
+	ExportedTree,
+	branchToMarkdown,
+	exportFileName,
+	nodeMarkdown,
+	subtreeToMarkdown,
+	textTitle,
+} from "../branchExport";
+import { TYPE_TO_COLOR, getTypeForColor } from "../typeMapping";
+
+const options: BranchExportOptions = { callouts: true, folder: "" };
+
+describe("nodeMarkdown", () => {
+	it("writes nodes colored by type as callouts", () => {
+		expect(getTypeForColor(TYPE_TO_COLOR.insight!)).toBe("insight");
+		expect(getTypeForColor("0")).toBe("default");
+
+		const node = { text: "Key point\n\nMore", role: "assistant" as const, color: "6" };
+		expect(nodeMarkdown(node, true)).toBe("> [!tip] 洞察/总结\n> Key point\n> \n> More");
+		expect(nodeMarkdown(node, false)).toBe("Key point\n\nMore");
+		expect(nodeMarkdown({ text: "Plain", role: "user" }, true)).toBe("Plain");
+	});
+});
+
+describe("branchToMarkdown", () => {
+	it("alternates user and AI turns with edge labels between them", () => {
+		const markdown = branchToMarkdown(
+			[
+				{ text: "## What is BM25?", role: "user", edgeLabel: "" },
+				{ text: "A ranking function.", role: "assistant", edgeLabel: "Go deeper" },
+				{ text: "How is it tuned?", role: "user", edgeLabel: undefined },
+			],
+			options
+		);
+
+		expect(markdown).toBe(
+			"# What is BM25?\n\n" +
+				"## 用户\n\n## What is BM25?\n\n" +
+				"## AI\n\nA ranking function.\n\n*↳ Go deeper*\n\n" +
+				"## 用户\n\nHow is it tuned?\n"
+		);
+	});
+});
+
+describe("subtreeToMarkdown", () => {
+	it("nests children under headings titled by their edge label or first line", () => {
+		const tree: ExportedTree = {
+			text: "Topic",
+			role: "user",
+			children: [
+				{
+					text: "- First idea\nwith details",
+					role: "assistant",
+					children: [{ text: "Deep", role: "user", edgeLabel: "Why?", children: [] }],
+				},
+				{ text: "Risk", role: "assistant", color: "1", children: [] },
+			],
+		};
+
+		expect(subtreeToMarkdown(tree, options)).toBe(
+			"# Topic\n\nTopic\n\n" +
+				"## First idea\n\n- First idea\nwith details\n\n" +
+				"### Why?\n\nDeep\n\n" +
+				"## Risk\n\n> [!warning] 风险/错误\n> Risk\n"
+		);
+	});
+
+	it("stops headings at level 6", () => {
+		let tree: ExportedTree = { text: "7", role: "user", children: [] };
+		for (let depth = 6; depth >= 1; depth--) {
+			tree = { text: `${depth}`, role: "user", children: [tree] };
+		}
+
+		expect(subtreeToMarkdown(tree, options)).toContain("###### 6\n\n6\n\n###### 7");
+	});
+});
+
+describe("titles", () => {
+	it("uses the first line without Markdown markers, shortened", () => {
+		expect(textTitle("\n> Quoted line\nrest")).toBe("Quoted line");
+		expect(textTitle("x".repeat(70))).toBe(`${"x".repeat(60)}…`);
+		expect(exportFileName('What: "BM25"?')).toBe("What BM25");
+		expect(exportFileName("")).toBe("Canvas");
+	});
+});
@@ -0,0 +1,508 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Provider 层集成测试
+ *
+ * 使用本地桩服务器模拟 OpenAI chat-completions 协议，
+ * 验证 streamResponse / getResponse 按服务商配置发送请求。
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { getResponse, getStructuredResponse, listModels, streamResponse } from "../chatgpt";
+import { PROVIDERS, ProviderConfig } from "../../openai/providers";
+import { CONTINUE_PROMPT, DEFAULT_RETRY_POLICY } from "../../openai/retry";
+import { BudgetExceededError, UsageLedger, initUsageLedger } from "../usageLedger";
+import { DEFAULT_SETTINGS } from "../../settings/AugmentedCanvasSettings";
+import { JSONSchema, StructuredOutputError } from "../structuredOutput";
+
+interface RecordedRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: any;
+}
+
+let server: http.Server;
+let baseURL: string;
+let requests: RecordedRequest[] = [];
+// Requests answered with 429 before the stub starts answering normally
+let rateLimited = 0;
+
+const sseChunk = (content: string) =>
+	`data: ${JSON.stringify({
+		id: "chatcmpl-1",
+		object: "chat.completion.chunk",
+		created: 0,
+		model: "stub",
+		choices: [{ index: 0, delta: { content }, finish_reason: null }],
+	})}\n\n`;
+
+beforeAll(async () => {
+	server = http.createServer((req, res) => {
+		let raw = "";
+		req.on("data", (d) => (raw += d));
+		req.on("end", () => {
+			const body = raw ? JSON.parse(raw) : {};
+			requests.push({ url: req.url || "", headers: req.headers, body });
+
+			if (req.method === "GET" && req.url?.startsWith("/v1/models")) {
+				res.writeHead(200, { "Content-Type": "application/json" });
+				res.end(
+					JSON.stringify({
+						object: "list",
+						data: [
+							{ id: "plain-model", object: "model" },
+							{
+								id: "vendor/long-model",
+								object: "model",
+								context_length: 200000,
+								top_provider: { max_completion_tokens: 8000 },
+								pricing: { prompt: "0.000003", completion: "0.000015" },
+							},
+						],
+					})
+				);
+				return;
+			}
+
+			if (rateLimited > 0) {
+				rateLimited--;
+				res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "0" });
+				res.end(JSON.stringify({ error: { message: "Rate limit reached" } }));
+				return;
+			}
+
+			if (body.stream && body.model === "cut") {
+				res.writeHead(200, { "Content-Type": "text/event-stream" });
+				const last = body.messages[body.messages.length - 1];
+				if (last.content === CONTINUE_PROMPT) {
+					// The model repeats the end of its partial answer
+					res.write(sseChunk("quick brown fox jumps"));
+					res.write(sseChunk(" over the lazy dog"));
+					res.end("data: [DONE]\n\n");
+				} else {
+					// Breaks the connection in the middle of the answer
+					res.write(sseChunk("The quick brown fox jumps"));
+					setTimeout(() => res.destroy(), 20);
+				}
+				return;
+			}
+
+			if (body.stream && body.model === "slow") {
+				// Sends one chunk, then waits until the client goes away
+				res.writeHead(200, { "Content-Type": "text/event-stream" });
+				res.write(sseChunk("Hello"));
+				req.socket.on("close", () => res.end());
+				return;
+			}
+
+			if (body.stream) {
+				res.writeHead(200, { "Content-Type": "text/event-stream" });
+				res.write(sseChunk("Hello"));
+				res.write(sseChunk(" world"));
+				if (body.stream_options?.include_usage) {
+					res.write(
+						`data: ${JSON.stringify({
+							id: "chatcmpl-1",
+							object: "chat.completion.chunk",
+							created: 0,
+							model: "stub",
+							choices: [],
+							usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 },
+						})}\n\n`
+					);
+				}
+				res.end("data: [DONE]\n\n");
+				return;
+			}
+
+			// JSON answers to repair: fenced with trailing commas, wrong until
+			// the model is told what is wrong, or never JSON
+			const last = body.messages?.[body.messages.length - 1]?.content || "";
+			const answers: Record<string, string> = {
+				fenced: "Here you go:\n```json\n{\"questions\": [\"a\", \"b\",],}\n```",
+				repair: last.startsWith("Your answer could not be used")
+					? "{\"questions\":[\"fixed\"]}"
+					: "{\"questions\":\"a\"}",
+				broken: "Sorry, I cannot help with that.",
+			};
+
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(
+				JSON.stringify({
+					id: "chatcmpl-2",
+					object: "chat.completion",
+					created: 0,
+					model: body.model,
+					choices: [
+						{
+							index: 0,
+							message: {
+								role: "assistant",
+								// Answers blocked by a content filter have no content
+								content: body.model === "filtered"
+									? null
+									: answers[body.model] ?? (body.response_format?.type === "json_object"
+										? "{\"questions\":[\"a\"]}"
+										: "plain answer"),
+							},
+							finish_reason: body.model === "filtered" ? "content_filter" : "stop",
+						},
+					],
+				})
+			);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+	requests = [];
+	rateLimited = 0;
+});
+
+const providerFor = (id: keyof typeof PROVIDERS, overrides: Partial<ProviderConfig> = {}): ProviderConfig => ({
+	...PROVIDERS[id],
+	baseURL,
+	apiKey: "sk-test",
+	retry: { ...DEFAULT_RETRY_POLICY, baseDelay: 1 },
+	...overrides,
+});
+
+describe("streamResponse", () => {
+	it("streams chunks from the configured base URL with bearer auth", async () => {
+		const chunks: (string | null)[] = [];
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o-mini" },
+			(chunk) => chunks.push(chunk)
+		);
+
+		expect(chunks.join("")).toBe("Hello world");
+		expect(chunks[chunks.length - 1]).toBeNull();
+		expect(requests).toHaveLength(1);
+		expect(requests[0].url).toBe("/v1/chat/completions");
+		expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+		expect(requests[0].body.model).toBe("gpt-4o-mini");
+	});
+
+	it("falls back to a single chunk when the provider cannot stream", async () => {
+		const chunks: (string | null)[] = [];
+		await streamResponse(
+			providerFor("custom", {
+				capabilities: { jsonMode: false, streaming: false },
+			}),
+			[{ role: "user", content: "hi" }],
+			{ model: "local" },
+			(chunk) => chunks.push(chunk)
+		);
+
+		expect(chunks).toEqual(["plain answer", null]);
+		expect(requests[0].body.stream).toBeUndefined();
+	});
+
+	it("ends the stream without an error when aborted", async () => {
+		const controller = new AbortController();
+		const chunks: (string | null)[] = [];
+		const errors: Error[] = [];
+
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "slow", signal: controller.signal },
+			(chunk, error) => {
+				if (error) errors.push(error);
+				chunks.push(chunk);
+				if (chunk) controller.abort();
+			}
+		);
+
+		expect(errors).toEqual([]);
+		expect(chunks).toEqual(["Hello", null]);
+	});
+
+	it("reports request errors through the callback", async () => {
+		const errors: Error[] = [];
+		await streamResponse(
+			providerFor("openai", { baseURL: "http://127.0.0.1:1/v1" }),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o" },
+			(_chunk, error) => error && errors.push(error)
+		);
+
+		expect(errors).toHaveLength(1);
+	});
+
+	it("retries rate limited requests", async () => {
+		rateLimited = 2;
+		const chunks: (string | null)[] = [];
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o-mini" },
+			(chunk, error) => {
+				if (error) throw error;
+				chunks.push(chunk);
+			}
+		);
+
+		expect(chunks.join("")).toBe("Hello world");
+		expect(requests).toHaveLength(3);
+	});
+
+	it("reports the error once the retries are used up", async () => {
+		rateLimited = 3;
+		const errors: Error[] = [];
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o-mini" },
+			(_chunk, error) => error && errors.push(error)
+		);
+
+		expect(errors[0].message).toContain("Rate limit reached");
+		expect(requests).toHaveLength(3);
+	});
+
+	it("continues a broken stream from the partial answer", async () => {
+		const chunks: (string | null)[] = [];
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "cut" },
+			(chunk, error) => {
+				if (error) throw error;
+				chunks.push(chunk);
+			}
+		);
+
+		expect(chunks.join("")).toBe("The quick brown fox jumps over the lazy dog");
+		expect(requests).toHaveLength(2);
+		expect(requests[1].body.messages.slice(-2)).toEqual([
+			{ role: "assistant", content: "The quick brown fox jumps" },
+			{ role: "user", content: CONTINUE_PROMPT },
+		]);
+	});
+
+	it("reports a broken stream when resuming is disabled", async () => {
+		const chunks: (string | null)[] = [];
+		const errors: Error[] = [];
+		await streamResponse(
+			providerFor("openai", { retry: { ...DEFAULT_RETRY_POLICY, baseDelay: 1, resume: false } }),
+			[{ role: "user", content: "hi" }],
+			{ model: "cut" },
+			(chunk, error) => {
+				if (error) errors.push(error);
+				chunks.push(chunk);
+			}
+		);
+
+		expect(chunks).toEqual(["The quick brown fox jumps", null]);
+		expect(errors).toHaveLength(1);
+		expect(requests).toHaveLength(1);
+	});
+});
+
+describe("usage ledger", () => {
+	let ledger: UsageLedger;
+
+	beforeEach(() => {
+		ledger = new UsageLedger({ exists: async () => false, read: async () => "", write: async () => undefined }, "usage.json");
+		initUsageLedger(ledger, null, DEFAULT_SETTINGS);
+	});
+
+	afterAll(() => initUsageLedger(null, null, DEFAULT_SETTINGS));
+
+	it("records the usage reported at the end of the stream", async () => {
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o-mini", action: "generate-group" },
+			() => undefined
+		);
+
+		expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+		expect(ledger.entries).toEqual([
+			expect.objectContaining({
+				provider: "openai",
+				model: "gpt-4o-mini",
+				action: "generate-group",
+				promptTokens: 12,
+				completionTokens: 2,
+				estimated: false,
+			}),
+		]);
+		expect(ledger.entries[0].cost).toBeGreaterThan(0);
+	});
+
+	it("estimates the usage when the provider reports none", async () => {
+		await streamResponse(
+			providerFor("custom"),
+			[{ role: "user", content: "hi" }],
+			{ model: "local" },
+			() => undefined
+		);
+
+		expect(requests[0].body.stream_options).toBeUndefined();
+		expect(ledger.entries[0]).toMatchObject({ action: "other", estimated: true, completionTokens: 2 });
+		expect(ledger.entries[0].cost).toBeUndefined();
+	});
+
+	it("does not record failed requests", async () => {
+		await streamResponse(
+			providerFor("openai", { baseURL: "http://127.0.0.1:1/v1", retry: { ...DEFAULT_RETRY_POLICY, retries: 0 } }),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o" },
+			() => undefined
+		);
+
+		expect(ledger.entries).toEqual([]);
+	});
+
+	it("blocks requests once the monthly budget is spent", async () => {
+		ledger.entries = [
+			{
+				time: Date.now(),
+				provider: "openai",
+				model: "gpt-4o",
+				action: "ask-ai",
+				promptTokens: 0,
+				completionTokens: 0,
+				estimated: false,
+				cost: 10,
+			},
+		];
+		initUsageLedger(ledger, null, { ...DEFAULT_SETTINGS, monthlyBudget: 5, budgetAction: "block" });
+
+		const errors: Error[] = [];
+		await streamResponse(
+			providerFor("openai"),
+			[{ role: "user", content: "hi" }],
+			{ model: "gpt-4o" },
+			(_chunk, error) => error && errors.push(error)
+		);
+		await expect(
+			getResponse(providerFor("openai"), [{ role: "user", content: "hi" }], { model: "gpt-4o" })
+		).rejects.toThrow(BudgetExceededError);
+
+		expect(errors[0]).toBeInstanceOf(BudgetExceededError);
+		expect(requests).toHaveLength(0);
+	});
+});
+
+describe("getResponse", () => {
+	it("sends the api-key header and default query for Azure", async () => {
+		await getResponse(
+			providerFor("azure", { apiKey: "azure-key" }),
+			[{ role: "user", content: "hi" }],
+			{ model: "my-deployment" }
+		);
+
+		expect(requests[0].headers["api-key"]).toBe("azure-key");
+		expect(requests[0].headers.authorization).toBeUndefined();
+		expect(requests[0].url).toBe("/v1/chat/completions?api-version=2024-06-01");
+	});
+
+	it("omits authentication for keyless providers", async () => {
+		await getResponse(
+			providerFor("ollama", { apiKey: "" }),
+			[{ role: "user", content: "hi" }],
+			{ model: "llama3.1" }
+		);
+
+		expect(requests[0].headers.authorization).toBeUndefined();
+	});
+
+	it("refuses to send the key without a base URL", async () => {
+		await expect(
+			getResponse(providerFor("azure", { baseURL: "" }), [{ role: "user", content: "hi" }])
+		).rejects.toThrow("请在插件设置中填写 Azure OpenAI 的接口地址");
+		expect(requests).toHaveLength(0);
+	});
+
+	it("rejects answers without content", async () => {
+		await expect(
+			getResponse(providerFor("custom"), [{ role: "user", content: "hi" }], {
+				model: "filtered",
+			})
+		).rejects.toThrow("AI 没有返回内容（finish_reason: content_filter）");
+	});
+
+	it("requests JSON mode only when the provider supports it", async () => {
+		const json = await getResponse(
+			providerFor("deepseek"),
+			[{ role: "user", content: "hi" }],
+			{ isJSON: true }
+		);
+		expect(json).toEqual({ questions: ["a"] });
+		expect(requests[0].body.model).toBe("deepseek-chat");
+
+		await getResponse(
+			providerFor("custom"),
+			[{ role: "user", content: "hi" }],
+			{ model: "local" }
+		);
+		expect(requests[1].body.response_format).toBeUndefined();
+	});
+});
+
+describe("getStructuredResponse", () => {
+	const schema: JSONSchema = {
+		type: "object",
+		properties: { questions: { type: "array", items: { type: "string" } } },
+		required: ["questions"],
+	};
+	const ask = (model: string) =>
+		getStructuredResponse<{ questions: string[] }>(
+			providerFor("custom"),
+			[{ role: "user", content: "hi" }],
+			schema,
+			{ model }
+		);
+
+	it("repairs code fences, surrounding text and trailing commas", async () => {
+		expect(await ask("fenced")).toEqual({ questions: ["a", "b"] });
+		expect(requests).toHaveLength(1);
+	});
+
+	it("asks again with the validation error", async () => {
+		expect(await ask("repair")).toEqual({ questions: ["fixed"] });
+
+		const messages = requests[1].body.messages;
+		expect(messages[1]).toEqual({ role: "assistant", content: "{\"questions\":\"a\"}" });
+		expect(messages[2].content).toContain("$.questions should be array, got string");
+	});
+
+	it("rejects with the answer once the repairs are used up", async () => {
+		const error = await ask("broken").catch((error) => error);
+
+		expect(error).toBeInstanceOf(StructuredOutputError);
+		expect(error.raw).toBe("Sorry, I cannot help with that.");
+		expect(requests).toHaveLength(2);
+	});
+});
+
+describe("listModels", () => {
+	it("reads limits and pricing from the /models listing", async () => {
+		const models = await listModels(providerFor("openrouter"));
+
+		expect(requests[0].url).toBe("/v1/models");
+		expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+		expect(models[0]).toEqual({ name: "plain-model" });
+		expect(models[1]).toMatchObject({
+			name: "vendor/long-model",
+			tokenLimit: 200000,
+			maxOutputTokens: 8000,
+		});
+		expect(models[1].pricing?.input).toBeCloseTo(3);
+		expect(models[1].pricing?.output).toBeCloseTo(15);
+	});
+});
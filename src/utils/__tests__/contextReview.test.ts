@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 上下文预览测试
+ *
+ * - 消息 token 计数与转换（图片作为内容片段）
+ * - 调整顺序
+ * - 按 token 限额删除最早的未固定消息
+ */
+
+import * as fc from "fast-check";
+import {
+	ContextMessage,
+	contextMessage,
+	contextTokens,
+	fitContextToBudget,
+	moveContextMessage,
+	toChatMessages,
+} from "../contextReview";
+
+const message = (
+	tokens: number,
+	overrides: Partial<ContextMessage> = {}
+): ContextMessage => ({
+	role: "user",
+	content: `m${tokens}`,
+	source: "node",
+	tokens,
+	...overrides,
+});
+
+describe("contextMessage", () => {
+	it("counts tokens and strips metadata for sending", () => {
+		const context = [
+			contextMessage({ role: "system", content: "You are helpful.", source: "system" }),
+			contextMessage({ role: "user", content: "hello world", source: "prompt", pinned: true }),
+		];
+
+		expect(context[0].tokens).toBeGreaterThan(0);
+		expect(contextTokens(context)).toBe(context[0].tokens + context[1].tokens);
+		expect(toChatMessages(context)).toEqual([
+			{ role: "system", content: "You are helpful." },
+			{ role: "user", content: "hello world" },
+		]);
+	});
+});
+
+describe("image messages", () => {
+	const image = { path: "a.png", mimeType: "image/png", data: "iVBOR", tokens: 255 };
+
+	it("counts the image and sends it as a content part of user messages", () => {
+		const context = [contextMessage({ role: "user", content: "Image: a.png", source: "node", image })];
+
+		expect(context[0].tokens).toBe(255 + contextMessage({ ...context[0], image: undefined }).tokens);
+		expect(toChatMessages(context)).toEqual([
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Image: a.png" },
+					{ type: "image_url", image_url: { url: "data:image/png;base64,iVBOR" } },
+				],
+			},
+		]);
+	});
+
+	it("only sends the caption in other roles", () => {
+		const context = [contextMessage({ role: "assistant", content: "Image: a.png", source: "node", image })];
+
+		expect(toChatMessages(context)).toEqual([{ role: "assistant", content: "Image: a.png" }]);
+	});
+});
+
+describe("moveContextMessage", () => {
+	const context = [message(1), message(2), message(3)];
+
+	it("moves a message up or down", () => {
+		expect(moveContextMessage(context, 2, -1).map((m) => m.tokens)).toEqual([1, 3, 2]);
+		expect(moveContextMessage(context, 0, 1).map((m) => m.tokens)).toEqual([2, 1, 3]);
+	});
+
+	it("stays within the list", () => {
+		expect(moveContextMessage(context, 0, -1)).toBe(context);
+		expect(moveContextMessage(context, 2, 1)).toBe(context);
+	});
+});
+
+describe("fitContextToBudget", () => {
+	it("drops the oldest unpinned messages first", () => {
+		const context = [
+			message(10, { source: "system", pinned: true }),
+			message(20),
+			message(30),
+			message(5, { source: "prompt", pinned: true }),
+		];
+
+		const { context: kept, dropped } = fitContextToBudget(context, 50);
+
+		expect(dropped).toBe(1);
+		expect(kept.map((m) => m.tokens)).toEqual([10, 30, 5]);
+	});
+
+	it("keeps pinned messages even over the limit", () => {
+		const context = [message(40, { pinned: true }), message(20)];
+
+		const { context: kept } = fitContextToBudget(context, 10);
+
+		expect(kept.map((m) => m.tokens)).toEqual([40]);
+	});
+
+	it("fits the budget or keeps only pinned messages, in order", () => {
+		fc.assert(
+			fc.property(
+				fc.array(fc.record({ tokens: fc.nat(100), pinned: fc.boolean() })),
+				fc.nat(500),
+				(specs, limit) => {
+					const context = specs.map((spec, index) =>
+						message(spec.tokens, { pinned: spec.pinned, content: `${index}` })
+					);
+					const { context: kept, dropped } = fitContextToBudget(context, limit);
+
+					expect(kept.length + dropped).toBe(context.length);
+					expect(kept.filter((m) => m.pinned)).toEqual(context.filter((m) => m.pinned));
+					// 保留的消息保持原顺序
+					const order = kept.map((m) => Number(m.content));
+					expect([...order].sort((a, b) => a - b)).toEqual(order);
+					if (contextTokens(kept) > limit) {
+						expect(kept.every((m) => m.pinned)).toBe(true);
+					}
+					if (contextTokens(context) <= limit) expect(dropped).toBe(0);
+				}
+			)
+		);
+	});
+});
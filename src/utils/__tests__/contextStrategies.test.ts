@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 上下文策略测试
+ *
+ * - 就近优先：超出预算时截断最近的放不下的节点，其余进入溢出
+ * - 按相关度：优先选择与问题相关的祖先，跳过放不下的节点
+ * - 当前节点与固定节点总是优先包含
+ */
+
+import { estimateTokens } from "../../openai/usage";
+import {
+	ContextCandidate,
+	formatTranscript,
+	isNodePinned,
+	selectContext,
+} from "../contextStrategies";
+
+const candidate = (
+	depth: number,
+	text: string,
+	overrides: Partial<ContextCandidate> = {}
+): ContextCandidate => ({
+	nodeId: `n${depth}`,
+	role: depth % 2 ? "assistant" : "user",
+	text,
+	depth,
+	pinned: false,
+	...overrides,
+});
+
+const words = (word: string, count: number) =>
+	Array.from({ length: count }, () => word).join(" ");
+
+const ids = (candidates: ContextCandidate[]) => candidates.map((c) => c.nodeId);
+
+describe("selectContext", () => {
+	const chain = [
+		candidate(0, "What about the budget?"),
+		candidate(1, words("cats", 50)),
+		candidate(2, words("dogs", 50)),
+		candidate(3, "The project budget is 3000 dollars for the whole year."),
+	];
+	const cost = (c: ContextCandidate) => estimateTokens(c.text);
+
+	it("keeps everything that fits, farthest first", () => {
+		const { selected, overflow } = selectContext(chain, 10_000);
+
+		expect(ids(selected)).toEqual(["n3", "n2", "n1", "n0"]);
+		expect(overflow).toEqual([]);
+	});
+
+	it("truncates the nearest node that does not fit and stops there", () => {
+		const budget = cost(chain[0]) + cost(chain[1]) + 10;
+		const { selected, overflow } = selectContext(chain, budget);
+
+		expect(ids(selected)).toEqual(["n2", "n1", "n0"]);
+		expect(selected[0].truncatedFrom).toBe(chain[2].text.length);
+		expect(selected[0].tokens).toBeLessThan(10);
+		expect(ids(overflow)).toEqual(["n3"]);
+	});
+
+	it("leaves whole nodes out when truncation is off", () => {
+		const budget = cost(chain[0]) + cost(chain[1]) + 10;
+		const { selected, overflow } = selectContext(chain, budget, { truncate: false });
+
+		expect(ids(selected)).toEqual(["n1", "n0"]);
+		expect(ids(overflow)).toEqual(["n3", "n2"]);
+	});
+
+	it("prefers ancestors relevant to the query", () => {
+		const budget = cost(chain[0]) + cost(chain[3]) + 5;
+		const { selected, overflow } = selectContext(chain, budget, {
+			strategy: "relevance",
+			query: "How large is the budget?",
+		});
+
+		expect(ids(selected)).toEqual(["n3", "n0"]);
+		expect(ids(overflow)).toEqual(["n2", "n1"]);
+	});
+
+	it("always includes pinned nodes, even far away", () => {
+		const pinned = candidate(Infinity, "Style guide: answer briefly.", {
+			nodeId: "pinned",
+			pinned: true,
+		});
+		const budget = cost(chain[0]) + cost(pinned) + 5;
+		const { selected } = selectContext([...chain, pinned], budget);
+
+		expect(ids(selected)).toEqual(["pinned", "n1", "n0"]);
+	});
+
+	it("counts edge labels in the budget", () => {
+		const labelled = [
+			candidate(0, "Question"),
+			candidate(1, "Answer", { edgeLabel: words("why", 30) }),
+		];
+		const { selected } = selectContext(labelled, cost(labelled[0]) + 10, {
+			truncate: false,
+		});
+
+		expect(ids(selected)).toEqual(["n0"]);
+	});
+
+	it("counts images in the budget and never cuts them", () => {
+		const image = { path: "a.png", mimeType: "image/png", data: "", tokens: 765 };
+		const withImage = [
+			candidate(0, "What does the diagram show?"),
+			candidate(1, "Image: a.png", { role: "user", image }),
+		];
+
+		const { selected, overflow } = selectContext(withImage, cost(withImage[0]) + 500);
+		expect(ids(selected)).toEqual(["n0"]);
+		expect(ids(overflow)).toEqual(["n1"]);
+
+		const fits = selectContext(withImage, cost(withImage[0]) + 1000).selected;
+		expect(fits[0].tokens).toBe(765 + cost(withImage[1]));
+	});
+});
+
+describe("helpers", () => {
+	it("formats candidates as a transcript", () => {
+		expect(
+			formatTranscript([
+				candidate(1, "Paris.", { edgeLabel: "And Italy?" }),
+				candidate(0, "Rome."),
+			])
+		).toBe("assistant: Paris.\nuser: And Italy?\n\nuser: Rome.");
+	});
+
+	it("reads the pinned flag from the node data", () => {
+		expect(isNodePinned({ unknownData: { ai_pinned: true } })).toBe(true);
+		expect(isNodePinned({ unknownData: {} })).toBe(false);
+	});
+});
@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 闪卡格式测试
+ *
+ * - Spaced Repetition：单行、多行、双向和填空闪卡，牌组标签
+ * - Anki 导入文件的文件头与字段转义
+ * - AnkiConnect addNotes 请求体
+ * - 读取已有闪卡文件、去重并追加新闪卡
+ */
+
+import { estimateTokens } from "../../openai/usage";
+import {
+	Flashcard,
+	FlashcardFormat,
+	FlashcardOptions,
+	appendFlashcards,
+	flashcardBatches,
+	flashcardFileName,
+	flashcardSides,
+	formatFlashcards,
+	newFlashcards,
+	parseFlashcardFile,
+	parseFlashcards,
+	toAnkiConnect,
+} from "../flashcardFormats";
+
+const options = (changes: Partial<FlashcardOptions> = {}): FlashcardOptions => ({
+	format: "spaced-repetition",
+	type: "basic",
+	folder: "Flashcards",
+	deck: "",
+	tags: [],
+	placeOnCanvas: false,
+	...changes,
+});
+
+const cards: Flashcard[] = [
+	{ front: "Capital of France?", back: "Paris" },
+	{ front: "Steps of the cycle?", back: "1. Evaporation\n\n2. Condensation" },
+];
+
+const cloze: Flashcard[] = [
+	{ front: "{{c1::Paris}} is the capital of {{c2::France::country}}.", back: "Since 987" },
+];
+
+describe("Spaced Repetition", () => {
+	it("writes single and multi-line cards under the deck tag", () => {
+		expect(formatFlashcards(cards, options({ deck: "Geo Facts", tags: ["#travel"] }))).toBe(
+			"#flashcards/Geo-Facts #travel\n\n" +
+				"Capital of France?::Paris\n\n" +
+				"Steps of the cycle?\n?\n1. Evaporation\n2. Condensation\n"
+		);
+	});
+
+	it("uses the reversible separators", () => {
+		expect(formatFlashcards(cards, options({ type: "reversible" }))).toBe(
+			"#flashcards\n\n" +
+				"Capital of France?:::Paris\n\n" +
+				"Steps of the cycle?\n??\n1. Evaporation\n2. Condensation\n"
+		);
+	});
+
+	it("turns cloze deletions into highlights", () => {
+		expect(formatFlashcards(cloze, options({ type: "cloze" }))).toBe(
+			"#flashcards\n\n==Paris== is the capital of ==France==.\n"
+		);
+	});
+});
+
+describe("Anki import file", () => {
+	it("sets the note type, deck and tags in the headers", () => {
+		const text = formatFlashcards(
+			[{ front: 'Say "hi", then <wave>', back: "a\tb" }],
+			options({ format: "anki-csv", type: "reversible", deck: "Lang", tags: ["greetings"] })
+		);
+
+		expect(text).toBe(
+			[
+				"#separator:Comma",
+				"#html:true",
+				"#notetype:Basic (and reversed card)",
+				"#deck:Lang",
+				"#tags:greetings",
+				'"Say ""hi"", then &lt;wave&gt;",a\tb',
+				"",
+			].join("\n")
+		);
+	});
+
+	it("keeps cloze markers and breaks lines with <br> in TSV", () => {
+		const text = formatFlashcards(
+			[...cloze, { front: "Line 1\nLine 2", back: "" }],
+			options({ format: "anki-tsv", type: "cloze" })
+		);
+
+		expect(text.split("\n").slice(2)).toEqual([
+			"#notetype:Cloze",
+			"#deck:Default",
+			"{{c1::Paris}} is the capital of {{c2::France::country}}.\tSince 987",
+			"Line 1<br>Line 2\t",
+			"",
+		]);
+	});
+});
+
+describe("AnkiConnect", () => {
+	it("builds an addNotes request with the fields of the note type", () => {
+		expect(toAnkiConnect(cloze, options({ type: "cloze", deck: "Geo", tags: ["a b"] }))).toEqual({
+			action: "addNotes",
+			version: 6,
+			params: {
+				notes: [
+					{
+						deckName: "Geo",
+						modelName: "Cloze",
+						fields: {
+							Text: "{{c1::Paris}} is the capital of {{c2::France::country}}.",
+							"Back Extra": "Since 987",
+						},
+						tags: ["a-b"],
+						options: { allowDuplicate: false },
+					},
+				],
+			},
+		});
+	});
+});
+
+describe("parsing", () => {
+	it("keeps cards with a front and names files safely", () => {
+		expect(
+			parseFlashcards({ flashcards: [{ front: " Q ", back: 42 }, { front: "", back: "x" }, null] })
+		).toEqual([{ front: "Q", back: "42" }]);
+		expect(parseFlashcards({})).toEqual([]);
+		expect(flashcardFileName('Cells: "mitosis" / meiosis')).toBe("Cells mitosis meiosis");
+		expect(flashcardFileName("")).toBe("Flashcards");
+	});
+});
+
+describe("existing decks", () => {
+	const formats: FlashcardFormat[] = ["spaced-repetition", "anki-csv", "anki-tsv", "anki-connect"];
+
+	it.each(formats)("reads back the cards written as %s", (format) => {
+		const written = formatFlashcards(
+			[...cards, { front: 'Quote "this", a < b', back: "x" }],
+			options({ format, tags: ["t"] })
+		);
+
+		expect(parseFlashcardFile(written, format).map((card) => card.front)).toEqual([
+			"Capital of France?",
+			"Steps of the cycle?",
+			'Quote "this", a < b',
+		]);
+	});
+
+	it("reads reversible and cloze Spaced Repetition cards", () => {
+		const note = "#flashcards\n\nA:::B\n\nLong\nfront\n??\nback\n\n==Paris== is a city.\n\nJust a paragraph.";
+
+		expect(parseFlashcardFile(note, "spaced-repetition")).toEqual([
+			{ front: "A", back: "B" },
+			{ front: "Long\nfront", back: "back" },
+			{ front: "==Paris== is a city.", back: "" },
+		]);
+	});
+
+	it("leaves out cards already in the deck or repeated, ignoring case and cloze markup", () => {
+		const existing = [{ front: "capital of France", back: "" }, { front: "==Paris== is a city.", back: "" }];
+		const generated = [
+			{ front: "Capital of France?", back: "Paris" },
+			{ front: "{{c1::Paris}} is a city.", back: "" },
+			{ front: "Capital of Italy?", back: "Rome" },
+			{ front: "CAPITAL of Italy ?", back: "Rome" },
+		];
+
+		expect(newFlashcards(generated, existing)).toEqual([{ front: "Capital of Italy?", back: "Rome" }]);
+	});
+
+	it("appends cards after those of the file", () => {
+		const added = [{ front: "Capital of Italy?", back: "Rome" }];
+		const sr = appendFlashcards(formatFlashcards(cards, options()), added, options());
+		const json = appendFlashcards(
+			formatFlashcards(cards, options({ format: "anki-connect" })),
+			added,
+			options({ format: "anki-connect" })
+		);
+		const tsv = appendFlashcards(
+			formatFlashcards(cards, options({ format: "anki-tsv" })),
+			added,
+			options({ format: "anki-tsv" })
+		);
+
+		expect(sr.endsWith("2. Condensation\n\nCapital of Italy?::Rome\n")).toBe(true);
+		expect(parseFlashcardFile(json, "anki-connect")).toHaveLength(3);
+		expect(tsv.endsWith("Condensation\nCapital of Italy?\tRome\n")).toBe(true);
+	});
+});
+
+describe("canvas and batches", () => {
+	it("hides cloze terms on the question node", () => {
+		expect(flashcardSides(cloze[0], "cloze")).toEqual({
+			question: "[...] is the capital of [country].",
+			answer: "**Paris** is the capital of **France**.\n\nSince 987",
+		});
+		expect(flashcardSides(cards[0], "basic")).toEqual({ question: "Capital of France?", answer: "Paris" });
+	});
+
+	it("packs texts into batches and splits texts too large for one", () => {
+		const small = "word ".repeat(20).trim();
+		const large = `# Big\n\n${"a ".repeat(60).trim()}\n\n${"b ".repeat(60).trim()}`;
+		const batches = flashcardBatches([small, small, large], 70);
+
+		expect(batches[0]).toBe(`${small}\n\n${small}`);
+		expect(batches.slice(1).join("\n\n")).toContain("# Big");
+		batches.forEach((batch) => expect(estimateTokens(batch)).toBeLessThanOrEqual(80));
+	});
+});
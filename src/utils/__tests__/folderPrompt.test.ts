@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 文件夹提示词测试
+ *
+ * - glob 包含与排除
+ * - 文件数上限与 token 限额
+ * - 分批处理（map-reduce）与汇总消息
+ */
+
+import { estimateTokens } from "../../openai/usage";
+import {
+	FolderDocument,
+	folderDocument,
+	globToRegExp,
+	mapConcurrently,
+	matchesGlobs,
+	parseGlobList,
+	planFolderRun,
+	reduceMessages,
+	selectFolderFiles,
+} from "../folderPrompt";
+
+const document = (path: string, tokens: number): FolderDocument => ({
+	path,
+	content: `${path} `.repeat(tokens),
+	tokens,
+});
+
+const paths = (documents: FolderDocument[]) => documents.map((d) => d.path);
+
+describe("globs", () => {
+	it("matches names, folders and alternatives", () => {
+		expect(globToRegExp("*.md").test("note.md")).toBe(true);
+		expect(globToRegExp("*.md").test("sub/note.md")).toBe(false);
+		expect(globToRegExp("**/*.md").test("note.md")).toBe(true);
+		expect(globToRegExp("**/*.md").test("a/b/note.md")).toBe(true);
+		expect(globToRegExp("notes/*.{md,pdf}").test("notes/paper.pdf")).toBe(true);
+		expect(globToRegExp("notes/?.md").test("notes/ab.md")).toBe(false);
+		expect(globToRegExp("a+b (1).md").test("a+b (1).md")).toBe(true);
+	});
+
+	it("matches bare names in any folder and applies exclusions last", () => {
+		expect(matchesGlobs("a/b/note.md", ["*.md"], [])).toBe(true);
+		expect(matchesGlobs("archive/note.md", [], ["archive/**"])).toBe(false);
+		expect(matchesGlobs("image.png", ["*.md"], [])).toBe(false);
+		expect(matchesGlobs("image.png", [], [])).toBe(true);
+	});
+
+	it("parses one glob per line or comma, keeping braces whole", () => {
+		expect(parseGlobList("*.md, notes/*.{md,pdf}\n\n archive/** ")).toEqual([
+			"*.md",
+			"notes/*.{md,pdf}",
+			"archive/**",
+		]);
+	});
+});
+
+describe("selectFolderFiles", () => {
+	it("filters the paths, then stops at the file limit", () => {
+		const { selected, skipped } = selectFolderFiles(
+			["a.md", "b.png", "c.md", "d.md"],
+			{ include: ["*.md"], exclude: [], maxFiles: 2 }
+		);
+
+		expect(selected).toEqual(["a.md", "c.md"]);
+		expect(skipped).toEqual([
+			{ path: "b.png", reason: "filtered" },
+			{ path: "d.md", reason: "max-files" },
+		]);
+	});
+});
+
+describe("planFolderRun", () => {
+	const documents = [document("a", 40), document("b", 70), document("c", 30)];
+
+	it("sends the documents that fit the budget in one request", () => {
+		const plan = planFolderRun(documents, "single", 100);
+
+		expect(plan.batches.map(paths)).toEqual([["a", "c"]]);
+		expect(plan.skipped).toEqual([{ path: "b", reason: "max-tokens" }]);
+		expect(plan.tokens).toBe(70);
+	});
+
+	it("splits the documents into batches in map-reduce mode", () => {
+		const plan = planFolderRun(documents, "map-reduce", 100);
+
+		expect(plan.batches.map(paths)).toEqual([["a"], ["b", "c"]]);
+		expect(plan.skipped).toEqual([]);
+		expect(plan.tokens).toBe(140);
+	});
+
+	it("sends each document on its own in per-file mode", () => {
+		const plan = planFolderRun(documents, "per-file", 100);
+
+		expect(plan.batches.map(paths)).toEqual([["a"], ["b"], ["c"]]);
+	});
+
+	it("cuts a document larger than a batch", () => {
+		const large = folderDocument("big.md", "word ".repeat(500));
+		const plan = planFolderRun([large], "map-reduce", 100);
+		const [cut] = plan.batches[0];
+
+		expect(cut.tokens).toBe(100);
+		expect(cut.truncatedFrom).toBe(large.content.length);
+		expect(estimateTokens(cut.content)).toBeLessThanOrEqual(100);
+		expect(cut.content.startsWith("# big.md\n\nword")).toBe(true);
+	});
+});
+
+describe("reduceMessages", () => {
+	it("numbers the answers and cuts them to a share of the budget", () => {
+		const [system, user] = reduceMessages("Summarize.", ["First", "x ".repeat(500)], 100);
+
+		expect(system.content).toMatch(/^Summarize\.\n\n/);
+		expect(user.content).toMatch(/^## Part 1\n\nFirst\n\n## Part 2\n\n/);
+		expect(estimateTokens(user.content as string)).toBeLessThan(120);
+	});
+
+	it("titles the answers with their files", () => {
+		const [, user] = reduceMessages("Summarize.", ["A", "B"], 100, ["notes/a.md", "notes/b.md"]);
+
+		expect(user.content).toBe("## notes/a.md\n\nA\n\n## notes/b.md\n\nB");
+	});
+});
+
+describe("mapConcurrently", () => {
+	it("runs at most `limit` calls at once and keeps the order", async () => {
+		let running = 0;
+		let most = 0;
+		const results = await mapConcurrently([30, 10, 20, 0, 5], 2, async (ms) => {
+			most = Math.max(most, ++running);
+			await new Promise((resolve) => setTimeout(resolve, ms));
+			running--;
+			return ms * 2;
+		});
+
+		expect(results).toEqual([60, 20, 40, 0, 10]);
+		expect(most).toBe(2);
+	});
+});
@@ -0,0 +1,54 @@
+/**
+ * 文件夹结果布局测试
+ *
+ * - 每行左侧为源文件节点，右侧为结果节点
+ * - 下一行位于上一行下方，Group 包含所有行，汇总节点在 Group 右侧
+ */
+
+import { DEFAULT_CONFIG } from "../groupGeneration/config";
+import { FolderResultsLayout, RESULT_NODE_WIDTH } from "../folderResultsLayout";
+
+describe("FolderResultsLayout", () => {
+	const config = { ...DEFAULT_CONFIG, groupPadding: 40 };
+	const top = 1000 + config.groupHeaderHeight + config.groupPadding;
+
+	it("places the source and result of a row side by side", () => {
+		const layout = new FolderResultsLayout(1000, 1000, config);
+
+		expect(layout.addRow(0, 200)).toEqual({
+			source: { x: 1040, y: top, width: config.nodeWidth, height: 200 },
+			result: {
+				x: 1040 + config.nodeWidth + config.horizontalGap,
+				y: top,
+				width: RESULT_NODE_WIDTH,
+				height: 200,
+			},
+		});
+	});
+
+	it("stacks rows below the previous row", () => {
+		const layout = new FolderResultsLayout(1000, 1000, config);
+		layout.addRow(0, 200);
+		layout.addRow(1, 500);
+
+		const { source, result } = layout.rowPosition(2);
+		const expectedY = top + 200 + config.verticalGap + 500 + config.verticalGap;
+		expect(source.y).toBe(expectedY);
+		expect(result.y).toBe(expectedY);
+	});
+
+	it("grows the group around the rows and keeps the synthesis node outside it", () => {
+		const layout = new FolderResultsLayout(1000, 1000, config);
+		const empty = layout.groupBounds();
+		const { result } = layout.addRow(0, 300);
+		const group = layout.groupBounds();
+
+		expect(group.width).toBe(empty.width);
+		expect(group.x + group.width).toBeGreaterThanOrEqual(result.x + result.width);
+		expect(group.y + group.height).toBeGreaterThanOrEqual(result.y + result.height);
+		expect(layout.synthesisPosition()).toEqual({
+			x: group.x + group.width + config.horizontalGap,
+			y: 1000,
+		});
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * 生成控制测试
+ *
+ * 验证停止按钮的渲染与移除、单个停止与"停止所有生成"命令的中止信号。
+ */
+
+import { CanvasNode } from "../../obsidian/canvas-internal";
+import { activeGenerationCount, startGeneration, stopAllGenerations } from "../generationControl";
+
+const createNode = () => ({ nodeEl: document.createElement("div") }) as unknown as CanvasNode;
+
+const stopButton = (node: CanvasNode) =>
+	node.nodeEl.querySelector<HTMLButtonElement>(".augmented-canvas-stop-button");
+
+describe("startGeneration", () => {
+	it("renders a stop button that aborts the request", () => {
+		const node = createNode();
+		const generation = startGeneration(node);
+
+		const button = stopButton(node);
+		expect(button).not.toBeNull();
+
+		button!.click();
+		expect(generation.signal.aborted).toBe(true);
+
+		generation.finish();
+		expect(stopButton(node)).toBeNull();
+	});
+
+	it("moves the button when attached to another node", () => {
+		const placeholder = createNode();
+		const result = createNode();
+		const generation = startGeneration(placeholder);
+
+		generation.attachTo(result);
+
+		expect(stopButton(placeholder)).toBeNull();
+		expect(stopButton(result)).not.toBeNull();
+		generation.finish();
+	});
+});
+
+describe("stopAllGenerations", () => {
+	it("aborts every running generation and forgets finished ones", () => {
+		const first = startGeneration();
+		const second = startGeneration(createNode());
+		const finished = startGeneration();
+		finished.finish();
+
+		expect(activeGenerationCount()).toBe(2);
+		expect(stopAllGenerations()).toBe(2);
+		expect(first.signal.aborted).toBe(true);
+		expect(second.signal.aborted).toBe(true);
+		expect(finished.signal.aborted).toBe(false);
+
+		first.finish();
+		second.finish();
+		expect(activeGenerationCount()).toBe(0);
+	});
+});
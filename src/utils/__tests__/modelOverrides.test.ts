@@ -0,0 +1,130 @@
+/**
+ * 节点模型覆盖测试
+ *
+ * 验证节点元数据与文本头部中的 model / temperature / max_tokens 覆盖，
+ * 以及沿祖先链按字段就近继承的解析规则。
+ */
+
+import { CanvasNode } from "../../obsidian/canvas-internal";
+import { DEFAULT_SETTINGS } from "../../settings/AugmentedCanvasSettings";
+import {
+	MODEL_OVERRIDES_KEY,
+	applyModelOverrides,
+	nodeOverrides,
+	parseOverrideHeader,
+	resolveModelOverrides,
+	setNodeOverrides,
+} from "../modelOverrides";
+
+/**
+ * Build a chain of text nodes, the first one being the child
+ */
+function createChain(...specs: { text?: string; overrides?: Record<string, unknown> }[]) {
+	const parents = new Map<string, CanvasNode>();
+	const canvas = {
+		requestSave: jest.fn(),
+		getEdgesForNode: (node: CanvasNode) => {
+			const parent = parents.get(node.id);
+			return parent ? [{ from: { node: parent }, to: { node } }] : [];
+		},
+	};
+
+	const nodes = specs.map(
+		(spec, index) =>
+			({
+				id: `n${index}`,
+				x: 0,
+				canvas,
+				unknownData: spec.overrides ? { [MODEL_OVERRIDES_KEY]: spec.overrides } : {},
+				getData: () => ({ type: "text", text: spec.text || `note ${index}` }),
+			}) as unknown as CanvasNode
+	);
+	nodes.forEach((node, index) => {
+		if (nodes[index + 1]) parents.set(node.id, nodes[index + 1]);
+	});
+
+	return nodes;
+}
+
+describe("parseOverrideHeader", () => {
+	it("reads the header and strips it from the text", () => {
+		const { overrides, body } = parseOverrideHeader(
+			"---\nmodel: gpt-4o\ntemperature: 0.2\nmax_tokens: 1500\n---\nSummarize the branch."
+		);
+
+		expect(overrides).toEqual({ model: "gpt-4o", temperature: 0.2, max_tokens: 1500 });
+		expect(body).toBe("Summarize the branch.");
+	});
+
+	it("leaves blocks without override fields untouched", () => {
+		const text = "---\ntitle: Notes\n---\nBody";
+		expect(parseOverrideHeader(text)).toEqual({ overrides: {}, body: text });
+	});
+
+	it("ignores invalid values", () => {
+		const { overrides } = parseOverrideHeader("---\nmodel: \ntemperature: 3\nmax_tokens: many\n---\nBody");
+		expect(overrides).toEqual({});
+	});
+
+	it("accepts a temperature of zero", () => {
+		expect(parseOverrideHeader("---\ntemperature: 0\n---\n").overrides).toEqual({ temperature: 0 });
+	});
+});
+
+describe("resolveModelOverrides", () => {
+	it("takes each field from the nearest node that sets it", async () => {
+		const [child] = createChain(
+			{ overrides: { temperature: 0.1 } },
+			{ text: "---\nmodel: cheap-model\n---\nBrainstorm" },
+			{ overrides: { model: "strong-model", max_tokens: 4000 } }
+		);
+
+		expect(await resolveModelOverrides(child)).toEqual({
+			temperature: 0.1,
+			model: "cheap-model",
+			max_tokens: 4000,
+		});
+	});
+
+	it("reads headers from text nodes only", async () => {
+		const [child, file] = createChain({ text: "Question" }, { overrides: { model: "file-model" } });
+		// The node has no app: reading its file would throw
+		file.getData = () => ({ type: "file", file: "book.pdf" }) as ReturnType<CanvasNode["getData"]>;
+
+		expect(await resolveModelOverrides(child)).toEqual({ model: "file-model" });
+	});
+
+	it("lets the text header win over the node metadata", () => {
+		const [node] = createChain({
+			text: "---\nmodel: header-model\n---\nBody",
+			overrides: { model: "data-model", temperature: 1.5 },
+		});
+		expect(nodeOverrides(node, (node.getData() as { text: string }).text)).toEqual({
+			model: "header-model",
+			temperature: 1.5,
+		});
+	});
+});
+
+describe("applyModelOverrides", () => {
+	it("falls back to the global settings", () => {
+		expect(applyModelOverrides(DEFAULT_SETTINGS, { temperature: 0 })).toEqual({
+			model: DEFAULT_SETTINGS.apiModel,
+			temperature: 0,
+			max_tokens: undefined,
+		});
+	});
+});
+
+describe("setNodeOverrides", () => {
+	it("stores overrides in unknownData and removes them when cleared", async () => {
+		const [node] = createChain({});
+
+		await setNodeOverrides(node, { model: "gpt-4o" });
+		expect(node.unknownData[MODEL_OVERRIDES_KEY]).toEqual({ model: "gpt-4o" });
+
+		await setNodeOverrides(node, {});
+		expect(node.unknownData[MODEL_OVERRIDES_KEY]).toBeUndefined();
+		expect(node.canvas.requestSave).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,73 @@
+/**
+ * 相关问题测试
+ *
+ * - 按标题或笔记名匹配问题引用的来源
+ * - Group 内先排列问题，再排列新加入画布的来源笔记
+ */
+
+import {
+	QUESTION_NODE_HEIGHT,
+	QUESTION_NODE_WIDTH,
+	QuestionSource,
+	SOURCE_NODE_HEIGHT,
+	formatQuestionSources,
+	matchQuestionSources,
+	questionsGroupLayout,
+} from "../relevantQuestions";
+
+const sources: QuestionSource[] = [
+	{ title: "Projects/Garden.md", text: "Tomatoes\n", path: "Projects/Garden.md" },
+	{ title: "Taxes.md", text: "April", path: "Taxes.md" },
+	{ title: "Card 1", text: "An idea", nodeId: "n1" },
+];
+
+describe("matchQuestionSources", () => {
+	it("matches titles, note names and wikilinks, ignoring case", () => {
+		const cited = (titles: string[]) =>
+			matchQuestionSources({ question: "?", sources: titles }, sources).map((s) => s.title);
+
+		expect(cited(["Projects/Garden.md"])).toEqual(["Projects/Garden.md"]);
+		expect(cited(["[[garden]]", "card 1"])).toEqual(["Projects/Garden.md", "Card 1"]);
+		expect(cited(["# Taxes", "Unknown.md"])).toEqual(["Taxes.md"]);
+		expect(matchQuestionSources({ question: "?" }, sources)).toEqual([]);
+	});
+
+	it("writes each source under its title", () => {
+		expect(formatQuestionSources(sources.slice(0, 2))).toBe(
+			"# Projects/Garden.md\n\nTomatoes\n\n# Taxes.md\n\nApril"
+		);
+	});
+});
+
+describe("questionsGroupLayout", () => {
+	const spacing = { padding: 20, gap: 10 };
+
+	it("places the questions in rows of three", () => {
+		const layout = questionsGroupLayout(4, 0, spacing);
+
+		expect(layout.questions[2]).toEqual({
+			x: 20 + 2 * (QUESTION_NODE_WIDTH + 10),
+			y: 20,
+			width: QUESTION_NODE_WIDTH,
+			height: QUESTION_NODE_HEIGHT,
+		});
+		expect(layout.questions[3]).toMatchObject({ x: 20, y: 20 + QUESTION_NODE_HEIGHT + 10 });
+		expect(layout.width).toBe(40 + 3 * QUESTION_NODE_WIDTH + 20);
+		expect(layout.height).toBe(40 + 2 * QUESTION_NODE_HEIGHT + 10);
+	});
+
+	it("puts the new source notes below the questions", () => {
+		const layout = questionsGroupLayout(2, 1, spacing);
+
+		expect(layout.width).toBe(40 + 2 * QUESTION_NODE_WIDTH + 10);
+		expect(layout.sources).toEqual([
+			{
+				x: 20,
+				y: 20 + QUESTION_NODE_HEIGHT + 10,
+				width: QUESTION_NODE_WIDTH,
+				height: SOURCE_NODE_HEIGHT,
+			},
+		]);
+		expect(layout.height).toBe(40 + QUESTION_NODE_HEIGHT + 10 + SOURCE_NODE_HEIGHT);
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * 结构化输出测试
+ *
+ * - 修复代码块、多余文字和结尾逗号
+ * - 按 schema 校验并给出出错的位置
+ * - 错误卡片的文本
+ */
+
+import {
+	JSONSchema,
+	StructuredOutputError,
+	errorNodeText,
+	parseJSONAnswer,
+	validateJSON,
+} from "../structuredOutput";
+
+const FLASHCARDS: JSONSchema = {
+	type: "object",
+	properties: {
+		filename: { type: "string" },
+		flashcards: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { front: { type: "string" }, back: { type: "string" } },
+				required: ["front", "back"],
+			},
+			minItems: 1,
+		},
+	},
+	required: ["flashcards"],
+};
+
+describe("parseJSONAnswer", () => {
+	it("parses valid JSON as is", () => {
+		expect(parseJSONAnswer('{"a": [1, 2]}')).toEqual({ a: [1, 2] });
+	});
+
+	it("strips code fences and the text around the JSON", () => {
+		expect(parseJSONAnswer('Sure!\n```json\n{"a": 1}\n```\nAnything else?')).toEqual({ a: 1 });
+		expect(parseJSONAnswer('The list: ["x", "y"].')).toEqual(["x", "y"]);
+	});
+
+	it("drops trailing commas but not commas inside strings", () => {
+		expect(parseJSONAnswer('{"a": ["x, ]", "y",], "b": {"c": 1,},}')).toEqual({
+			a: ["x, ]", "y"],
+			b: { c: 1 },
+		});
+	});
+
+	it("throws with the answer when it cannot be repaired", () => {
+		expect(() => parseJSONAnswer("No JSON here")).toThrow(StructuredOutputError);
+		try {
+			parseJSONAnswer('{"a": ');
+		} catch (error) {
+			expect(error.raw).toBe('{"a": ');
+		}
+	});
+});
+
+describe("validateJSON", () => {
+	it("accepts values matching the schema, extra keys included", () => {
+		expect(
+			validateJSON({ flashcards: [{ front: "Q", back: "A", extra: 1 }] }, FLASHCARDS)
+		).toEqual([]);
+	});
+
+	it("lists every difference with its path", () => {
+		expect(
+			validateJSON(
+				{ filename: 3, flashcards: [{ front: "Q" }, { front: null, back: "A" }] },
+				FLASHCARDS
+			)
+		).toEqual([
+			"$.filename should be string, got number",
+			"$.flashcards[0].back is required",
+			"$.flashcards[1].front should be string, got null",
+		]);
+		expect(validateJSON({ flashcards: [] }, FLASHCARDS)).toEqual([
+			"$.flashcards should have at least 1 items",
+		]);
+		expect(validateJSON([], FLASHCARDS)).toEqual(["$ should be object, got array"]);
+	});
+});
+
+describe("errorNodeText", () => {
+	it("shows the message, and the answer that could not be used", () => {
+		expect(errorNodeText("失败", new Error("offline"))).toBe("> [!error] 失败\n> offline");
+		expect(
+			errorNodeText("失败", new StructuredOutputError("bad", "```json\n{\n```"))
+		).toBe("> [!error] 失败\n> bad\n\nAI 的回答：\n\n```\nʼʼʼjson\n{\nʼʼʼ\n```");
+	});
+});
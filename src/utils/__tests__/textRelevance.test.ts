@@ -0,0 +1,40 @@
+/**
+ * 文本相关度测试
+ *
+ * - 分词：英文单词与中文二元组
+ * - BM25 打分
+ */
+
+import { bm25Scores, tokenizeText } from "../textRelevance";
+
+describe("tokenizeText", () => {
+	it("splits words and CJK bigrams", () => {
+		expect(tokenizeText("Hello, World_2!")).toEqual(["hello", "world_2"]);
+		expect(tokenizeText("预算多少")).toEqual(["预算", "算多", "多少"]);
+		expect(tokenizeText("年 AI 预算")).toEqual(["年", "ai", "预算"]);
+	});
+});
+
+describe("bm25Scores", () => {
+	it("ranks documents sharing rare query terms first", () => {
+		const scores = bm25Scores("project budget", [
+			"the cat sat on the mat",
+			"the budget of the project is small",
+			"the project starts in May",
+		]);
+
+		expect(scores[0]).toBe(0);
+		expect(scores[1]).toBeGreaterThan(scores[2]);
+		expect(scores[2]).toBeGreaterThan(0);
+	});
+
+	it("works on Chinese text", () => {
+		const scores = bm25Scores("项目预算是多少", ["今天天气很好", "项目预算为三千元"]);
+
+		expect(scores[1]).toBeGreaterThan(scores[0]);
+	});
+
+	it("scores nothing for an empty query", () => {
+		expect(bm25Scores("", ["a", "b"])).toEqual([0, 0]);
+	});
+});
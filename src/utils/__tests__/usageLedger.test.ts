@@ -0,0 +1,210 @@
+/**
+ * 用量账本测试
+ *
+ * - 持久化读写
+ * - 按日期 / 模型 / 画布汇总
+ * - 月度预算的提醒与阻止
+ */
+
+import { Notice } from "obsidian";
+import {
+	BudgetExceededError,
+	UsageEntry,
+	UsageLedger,
+	checkBudget,
+	entryDay,
+	initUsageLedger,
+	monthlySpend,
+	recordUsage,
+	rollUpUsage,
+	summarizeUsage,
+} from "../usageLedger";
+import { DEFAULT_SETTINGS } from "../../settings/AugmentedCanvasSettings";
+
+/**
+ * 内存中的 DataAdapter
+ */
+const memoryAdapter = (files: Record<string, string> = {}) => ({
+	files,
+	exists: jest.fn(async (path: string) => path in files),
+	read: jest.fn(async (path: string) => files[path]),
+	write: jest.fn(async (path: string, data: string) => {
+		files[path] = data;
+	}),
+});
+
+const entry = (overrides: Partial<UsageEntry> = {}): UsageEntry => ({
+	time: new Date(2024, 4, 15, 10).getTime(),
+	provider: "openai",
+	model: "gpt-4o",
+	action: "ask-ai",
+	canvasPath: "a.canvas",
+	promptTokens: 1000,
+	completionTokens: 100,
+	estimated: false,
+	cost: 0.01,
+	...overrides,
+});
+
+const PATH = "plugins/augmented-canvas/usage.json";
+
+describe("UsageLedger", () => {
+	it("saves entries and loads them back", async () => {
+		const adapter = memoryAdapter();
+		const ledger = new UsageLedger(adapter, PATH);
+		await ledger.add(entry());
+
+		const reloaded = new UsageLedger(adapter, PATH);
+		await reloaded.load();
+		expect(reloaded.entries).toEqual([entry()]);
+	});
+
+	it("starts empty when the file is missing or corrupt", async () => {
+		const missing = new UsageLedger(memoryAdapter(), PATH);
+		await missing.load();
+		expect(missing.entries).toEqual([]);
+
+		jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const corrupt = new UsageLedger(memoryAdapter({ [PATH]: "{" }), PATH);
+		await corrupt.load();
+		expect(corrupt.entries).toEqual([]);
+	});
+});
+
+describe("rollUpUsage", () => {
+	it("keeps two months of requests and sums older ones per month", () => {
+		const march = (day: number, overrides: Partial<UsageEntry> = {}) =>
+			entry({ time: new Date(2024, 2, day).getTime(), ...overrides });
+		const april = entry({ time: new Date(2024, 3, 2).getTime() });
+
+		const entries = rollUpUsage(
+			[march(3), march(9, { cost: 0.02 }), march(10, { model: "gpt-4o-mini" }), april, entry()],
+			new Date(2024, 4, 20)
+		);
+
+		expect(entries).toHaveLength(4);
+		expect(entries[0]).toMatchObject({
+			time: new Date(2024, 2, 1).getTime(),
+			calls: 2,
+			promptTokens: 2000,
+			cost: 0.03,
+		});
+		expect(entries.slice(2)).toEqual([april, entry()]);
+		expect(summarizeUsage(entries, (e) => e.model)[0].calls).toBe(4);
+	});
+
+	it("rolls up on every add", async () => {
+		const ledger = new UsageLedger(memoryAdapter(), PATH);
+		ledger.entries = [entry(), entry()];
+
+		await ledger.add(entry({ time: new Date(2024, 7, 1).getTime() }));
+
+		expect(ledger.entries.map((e) => e.calls)).toEqual([2, undefined]);
+	});
+});
+
+describe("summarizeUsage", () => {
+	const entries = [
+		entry(),
+		entry({ model: "gpt-4o-mini", cost: 0.001, time: new Date(2024, 4, 16, 9).getTime() }),
+		entry({ canvasPath: "b.canvas", cost: undefined }),
+	];
+
+	it("sums usage per model, most expensive first", () => {
+		const rows = summarizeUsage(entries, (e) => e.model);
+
+		expect(rows.map((row) => row.key)).toEqual(["gpt-4o", "gpt-4o-mini"]);
+		expect(rows[0]).toMatchObject({
+			calls: 2,
+			promptTokens: 2000,
+			completionTokens: 200,
+			cost: 0.01,
+			unpriced: true,
+		});
+		expect(rows[1].unpriced).toBe(false);
+	});
+
+	it("groups by local day and canvas", () => {
+		expect(summarizeUsage(entries, entryDay).map((row) => row.key).sort()).toEqual([
+			"2024-05-15",
+			"2024-05-16",
+		]);
+		expect(summarizeUsage(entries, (e) => e.canvasPath || "").map((row) => row.calls)).toEqual([2, 1]);
+	});
+
+	it("only counts this month's spend", () => {
+		const now = new Date(2024, 4, 20);
+		const lastMonth = entry({ time: new Date(2024, 3, 30).getTime(), cost: 5 });
+
+		expect(monthlySpend([...entries, lastMonth], now)).toBeCloseTo(0.011);
+	});
+});
+
+describe("budget", () => {
+	const now = new Date(2024, 4, 20);
+	let ledger: UsageLedger;
+
+	beforeEach(() => {
+		ledger = new UsageLedger(memoryAdapter(), PATH);
+		ledger.entries = [entry({ cost: 3 })];
+		(Notice as unknown as jest.Mock).mockClear();
+	});
+
+	it("does nothing without a budget", () => {
+		initUsageLedger(ledger, null, { ...DEFAULT_SETTINGS, monthlyBudget: 0 });
+		expect(() => checkBudget(now)).not.toThrow();
+		expect(Notice).not.toHaveBeenCalled();
+	});
+
+	it("blocks requests once the budget is spent", () => {
+		initUsageLedger(ledger, null, { ...DEFAULT_SETTINGS, monthlyBudget: 2, budgetAction: "block" });
+		expect(() => checkBudget(now)).toThrow(BudgetExceededError);
+
+		initUsageLedger(ledger, null, { ...DEFAULT_SETTINGS, monthlyBudget: 5, budgetAction: "block" });
+		expect(() => checkBudget(now)).not.toThrow();
+	});
+
+	it("warns once a month", () => {
+		initUsageLedger(ledger, null, { ...DEFAULT_SETTINGS, monthlyBudget: 2, budgetAction: "warn" });
+		checkBudget(now);
+		checkBudget(now);
+		expect(Notice).toHaveBeenCalledTimes(1);
+
+		checkBudget(new Date(2024, 5, 1));
+		expect(Notice).toHaveBeenCalledTimes(1); // 新的月份还没有花费
+
+		ledger.entries.push(entry({ time: new Date(2024, 5, 2).getTime(), cost: 3 }));
+		checkBudget(new Date(2024, 5, 3));
+		expect(Notice).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("recordUsage", () => {
+	it("prices entries with the model registry", async () => {
+		const ledger = new UsageLedger(memoryAdapter(), PATH);
+		initUsageLedger(ledger, null, DEFAULT_SETTINGS);
+
+		await recordUsage({
+			provider: "openai",
+			model: "gpt-4o",
+			action: "generate-group",
+			canvasPath: "plan.canvas",
+			promptTokens: 1_000_000,
+			completionTokens: 100_000,
+			estimated: false,
+		});
+		await recordUsage({
+			provider: "custom",
+			model: "local-model",
+			action: "ask-ai",
+			promptTokens: 10,
+			completionTokens: 10,
+			estimated: true,
+		});
+
+		// gpt-4o: $2.5 / $10 每百万 tokens
+		expect(ledger.entries[0].cost).toBeCloseTo(3.5);
+		expect(ledger.entries[0].canvasPath).toBe("plan.canvas");
+		expect(ledger.entries[1].cost).toBeUndefined();
+	});
+});
@@ -0,0 +1,138 @@
+import { NodeType, getTypeDescription, getTypeForColor } from "./typeMapping";
+
+/**
+ * What is exported from the selected node: the conversation leading to it,
+ * or everything below it
+ */
+export type ExportScope = "branch" | "subtree";
+
+export interface BranchExportOptions {
+	/**
+	 * Write colored nodes as callouts of their node type
+	 */
+	callouts: boolean;
+	/**
+	 * Folder of the exported notes, empty for the folder of the canvas
+	 */
+	folder: string;
+}
+
+export const DEFAULT_BRANCH_EXPORT_OPTIONS: BranchExportOptions = {
+	callouts: true,
+	folder: "",
+};
+
+/**
+ * A node of the exported conversation
+ */
+export interface ExportedNode {
+	text: string;
+	role: "user" | "assistant";
+	color?: string;
+}
+
+/**
+ * A turn of a branch, with the label of the edge to the next turn
+ */
+export interface ExportedTurn extends ExportedNode {
+	edgeLabel?: string;
+}
+
+/**
+ * A node of a subtree with its children, each reached through a labelled
+ * or unlabelled edge
+ */
+export interface ExportedTree extends ExportedNode {
+	edgeLabel?: string;
+	children: ExportedTree[];
+}
+
+/**
+ * Callout of each node type, none for plain nodes
+ */
+const TYPE_TO_CALLOUT: Record<NodeType, string | null> = {
+	default: null,
+	concept: "abstract",
+	step: "example",
+	resource: "quote",
+	warning: "warning",
+	insight: "tip",
+	question: "question",
+};
+
+const ROLE_LABELS: Record<ExportedNode["role"], string> = {
+	user: "用户",
+	assistant: "AI",
+};
+
+/**
+ * Longest heading made of the start of a node
+ */
+const HEADING_LENGTH = 60;
+
+/**
+ * Text of a node, in a callout of its type when `callouts` is set
+ */
+export function nodeMarkdown(node: ExportedNode, callouts: boolean) {
+	const text = node.text.trim();
+	const type = getTypeForColor(node.color);
+	const callout = TYPE_TO_CALLOUT[type];
+	if (!callouts || !callout) return text;
+	return `> [!${callout}] ${getTypeDescription(type)}\n${text.replace(/^/gm, "> ")}`;
+}
+
+/**
+ * First line of a text, without Markdown markers, for titles and headings
+ */
+export function textTitle(text: string) {
+	const line =
+		text
+			.split("\n")
+			.map((line) => line.replace(/^\s*(#+|>|[-*+]|\d+\.)\s*/, "").trim())
+			.find(Boolean) || "";
+	return line.length > HEADING_LENGTH ? `${line.slice(0, HEADING_LENGTH).trim()}…` : line;
+}
+
+/**
+ * File name from a title, without characters file systems reject
+ */
+export const exportFileName = (title: string) =>
+	title
+		.replace(/[\\/:*?"<>|#^[\]\r\n]+/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 80)
+		.trim() || "Canvas";
+
+/**
+ * A conversation as alternating user and AI sections, oldest turn first,
+ * edge labels as transitions between turns
+ */
+export function branchToMarkdown(turns: ExportedTurn[], options: BranchExportOptions) {
+	const title = textTitle(turns[0]?.text || "");
+	const sections = turns.map((turn, index) => {
+		const section = `## ${ROLE_LABELS[turn.role]}\n\n${nodeMarkdown(turn, options.callouts)}`;
+		const label = turn.edgeLabel?.trim();
+		return label && index < turns.length - 1 ? `${section}\n\n*↳ ${label}*` : section;
+	});
+	return `# ${title}\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * A subtree as nested headings: each node under a heading one level below
+ * its parent's, titled with the label of the edge to it or its first line.
+ * Headings stop at level 6.
+ */
+export function subtreeToMarkdown(tree: ExportedTree, options: BranchExportOptions) {
+	const sections: string[] = [];
+	const visit = (node: ExportedTree, level: number) => {
+		const title = node.edgeLabel?.trim() || textTitle(node.text) || ROLE_LABELS[node.role];
+		sections.push(
+			`${"#".repeat(Math.min(level, 6))} ${title}`,
+			nodeMarkdown(node, options.callouts)
+		);
+		node.children.forEach((child) => visit(child, level + 1));
+	};
+	visit(tree, 1);
+	return `${sections.filter(Boolean).join("\n\n")}\n`;
+}
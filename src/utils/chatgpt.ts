@@ -1,6 +1,42 @@
-import OpenAI from "openai";
-import { ChatCompletionMessageParam } from "openai/resources";
+import OpenAI, { APIConnectionError } from "openai";
+import {
+	ChatCompletionMessageParam,
+	CompletionUsage,
+	ImageGenerateParams,
+} from "openai/resources";
+import { base64ToArrayBuffer, requestUrl } from "obsidian";
 import { logDebug } from "src/logDebug";
+import { ProviderConfig } from "src/openai/providers";
+import { getAdapter } from "src/openai/adapters";
+import { ModelInfo, parseModelListing } from "src/openai/models";
+import {
+	DEFAULT_RETRY_POLICY,
+	OverlapTrimmer,
+	continuationMessages,
+	isRetryableError,
+	retryDelay,
+	sleep,
+	withRetry,
+} from "src/openai/retry";
+import {
+	TokenUsage,
+	addUsage,
+	estimateMessagesTokens,
+	estimateTokens,
+} from "src/openai/usage";
+import {
+	JSONSchema,
+	StructuredOutputError,
+	parseJSONAnswer,
+	repairPrompt,
+	validateJSON,
+} from "src/utils/structuredOutput";
+import {
+	UsageAction,
+	activeCanvasPath,
+	checkBudget,
+	recordUsage,
+} from "src/utils/usageLedger";
 
 export type Message = {
 	role: string;
@@ -9,57 +45,296 @@ export type Message = {
 
 export type StreamCallback = (chunk: string | null, error?: Error) => void;
 
+/**
+ * Build an OpenAI-protocol client for the given provider.
+ * Throws without a base URL: the SDK would send the key to api.openai.com.
+ */
+export const createClient = (provider: ProviderConfig) => {
+	if (!provider.baseURL) {
+		throw new Error(`请在插件设置中填写 ${provider.name} 的接口地址`);
+	}
+
+	const headers: Record<string, string | null> = {};
+	if (provider.authStyle === "api-key") {
+		headers["api-key"] = provider.apiKey;
+		headers["Authorization"] = null;
+	} else if (provider.authStyle === "none") {
+		headers["Authorization"] = null;
+	}
+
+	return new OpenAI({
+		// The SDK refuses to start without a key, even when it is not sent
+		apiKey: provider.apiKey || "none",
+		baseURL: provider.baseURL,
+		defaultHeaders: headers,
+		defaultQuery: provider.defaultQuery,
+		dangerouslyAllowBrowser: true,
+		// Retries follow `provider.retry`, see streamResponse / getResponse
+		maxRetries: 0,
+	});
+};
+
+/**
+ * The SDK wraps network failures and timeouts in `APIConnectionError`
+ */
+const isRetryable = (error: unknown) =>
+	error instanceof APIConnectionError || isRetryableError(error);
+
+type StreamOptions = {
+	max_tokens?: number;
+	model?: string;
+	temperature?: number;
+	/**
+	 * Stops the request. The stream then ends normally with `cb(null)`,
+	 * callers check `signal.aborted` to tell a stop from a completion.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Feature making the request, for the usage ledger
+	 */
+	action?: UsageAction;
+};
+
+const toTokenUsage = (
+	usage?: CompletionUsage | null
+): TokenUsage | undefined => {
+	if (!usage) return undefined;
+	return {
+		promptTokens: usage.prompt_tokens,
+		completionTokens: usage.completion_tokens,
+	};
+};
+
+/**
+ * One streaming request, calling `onText` for every text delta.
+ * Rejects on HTTP, network and stream errors.
+ */
+const streamAttempt = async (
+	provider: ProviderConfig,
+	messages: ChatCompletionMessageParam[],
+	{ max_tokens, model, temperature, signal }: StreamOptions,
+	onText: (text: string) => void,
+	onUsage: (usage: TokenUsage) => void
+) => {
+	const adapter = getAdapter(provider.protocol);
+	if (adapter) {
+		await adapter.stream(
+			provider,
+			messages,
+			{ model, max_tokens, temperature, signal, onUsage },
+			(text) => {
+				logDebug("AI chunk", { text });
+				onText(text);
+			}
+		);
+		return;
+	}
+
+	const openai = createClient(provider);
+
+	if (!provider.capabilities.streaming) {
+		// Provider cannot stream: deliver the whole completion as one chunk
+		const completion = await openai.chat.completions.create(
+			{
+				model: model || provider.models[0],
+				messages,
+				max_tokens,
+				temperature,
+			},
+			{ signal }
+		);
+		const usage = toTokenUsage(completion.usage);
+		if (usage) onUsage(usage);
+		onText(completion.choices[0]?.message?.content || "");
+		return;
+	}
+
+	const stream = await openai.chat.completions.create(
+		{
+			model: model || provider.models[0],
+			messages,
+			stream: true,
+			max_tokens,
+			temperature,
+			// The last chunk then carries the usage, with no choices
+			...(provider.capabilities.streamUsage
+				? { stream_options: { include_usage: true } }
+				: {}),
+		},
+		{ signal }
+	);
+	for await (const chunk of stream) {
+		logDebug("AI chunk", { chunk });
+		const usage = toTokenUsage(
+			(chunk as { usage?: CompletionUsage | null }).usage
+		);
+		if (usage) onUsage(usage);
+		onText(chunk.choices[0]?.delta?.content || "");
+	}
+};
+
+/**
+ * Add a request to the usage ledger. Tokens the provider did not report are
+ * estimated; requests that produced nothing are not recorded.
+ */
+const recordRequest = (
+	provider: ProviderConfig,
+	{ model, action }: StreamOptions,
+	canvasPath: string | undefined,
+	messages: ChatCompletionMessageParam[],
+	completion: string,
+	reported?: TokenUsage
+) => {
+	if (!reported && !completion) return;
+
+	recordUsage({
+		provider: provider.id,
+		model: model || provider.models[0] || "unknown",
+		action: action || "other",
+		canvasPath,
+		...(reported || {
+			promptTokens: estimateMessagesTokens(messages),
+			completionTokens: estimateTokens(completion),
+		}),
+		estimated: !reported,
+	});
+};
+
+/**
+ * Stream a completion to `cb`, ending with `cb(null)`.
+ *
+ * Failed requests are retried according to `provider.retry`. When the stream
+ * breaks after some text was received, the text is resubmitted as the start of
+ * the answer and only the continuation is passed to `cb`, so callers parsing
+ * the stream incrementally see one uninterrupted answer.
+ */
 export const streamResponse = async (
-	apiKey: string,
+	provider: ProviderConfig,
 	messages: ChatCompletionMessageParam[],
-	{
-		max_tokens,
-		model,
-		temperature,
-	}: {
-		max_tokens?: number;
-		model?: string;
-		temperature?: number;
-	} = {},
+	options: StreamOptions = {},
 	cb: StreamCallback
 ) => {
+	const { max_tokens, model, temperature, signal } = options;
 	logDebug("Calling AI :", {
+		provider: provider.id,
 		messages,
 		model,
 		max_tokens,
 		temperature,
 		isJSON: false,
 	});
-	const openai = new OpenAI({
-		apiKey: apiKey,
-		baseURL: "https://api.deepseek.com/v1",
-		dangerouslyAllowBrowser: true,
-	});
 
 	try {
-		const stream = await openai.chat.completions.create({
-			model: model || "deepseek-chat",
-			messages,
-			stream: true,
-			max_tokens,
-			temperature,
-		});
-		for await (const chunk of stream) {
-			logDebug("AI chunk", { chunk });
-			cb(chunk.choices[0]?.delta?.content || "");
+		checkBudget();
+	} catch (error) {
+		cb(null, error);
+		return;
+	}
+
+	const canvasPath = activeCanvasPath();
+	const policy = { ...DEFAULT_RETRY_POLICY, ...provider.retry };
+	// Text already passed to the callback
+	let partial = "";
+	// Usage reported by the provider, summed over attempts
+	let reported: TokenUsage | undefined;
+	const onUsage = (usage: TokenUsage) => {
+		reported = reported ? addUsage(reported, usage) : usage;
+	};
+	const end = (error?: Error) => {
+		recordRequest(provider, options, canvasPath, messages, partial, reported);
+		if (error) cb(null, error);
+		else cb(null);
+	};
+
+	for (let attempt = 0; ; attempt++) {
+		const trimmer = partial ? new OverlapTrimmer(partial) : undefined;
+		let callbackFailed = false;
+		const emit = (text: string) => {
+			if (!text) return;
+			partial += text;
+			try {
+				cb(text);
+			} catch (error) {
+				callbackFailed = true;
+				throw error;
+			}
+		};
+
+		try {
+			await streamAttempt(
+				provider,
+				partial
+					? continuationMessages(provider.protocol, messages, partial)
+					: messages,
+				options,
+				(text) => emit(trimmer ? trimmer.push(text) : text),
+				onUsage
+			);
+			if (trimmer) emit(trimmer.flush());
+			// Stream completed successfully
+			end();
+			return;
+		} catch (error: any) {
+			if (signal?.aborted) {
+				// Stopped by the user: end the stream without an error
+				logDebug("Stream aborted");
+				end();
+				return;
+			}
+
+			const canRetry =
+				!callbackFailed &&
+				attempt < policy.retries &&
+				(!partial || policy.resume) &&
+				isRetryable(error);
+			if (canRetry) {
+				const delay = retryDelay(attempt, error, policy);
+				logDebug(
+					`Stream error, ${partial ? "resuming" : "retrying"} in ${Math.round(delay)}ms:`,
+					error
+				);
+				await sleep(delay, signal);
+				if (!signal?.aborted) continue;
+				end();
+				return;
+			}
+
+			logDebug("Stream error:", error);
+			const errorObj = error instanceof Error ? error : new Error(error?.message || String(error));
+			// Pass error to callback instead of throwing
+			end(errorObj);
+			return;
 		}
-		// Stream completed successfully
-		cb(null);
-	} catch (error: any) {
-		logDebug("Stream error:", error);
-		const errorObj = error instanceof Error ? error : new Error(error?.message || String(error));
-		// Pass error to callback instead of throwing
-		cb(null, errorObj);
 	}
 };
 
-export const getResponse = async (
-	apiKey: string,
+type ResponseOptions = {
+	model?: string;
+	max_tokens?: number;
+	temperature?: number;
+	isJSON?: boolean;
+	signal?: AbortSignal;
+	/**
+	 * Feature making the request, for the usage ledger
+	 */
+	action?: UsageAction;
+};
+
+/**
+ * Answer of the model: its text, or the parsed JSON value with `isJSON`
+ */
+export function getResponse(
+	provider: ProviderConfig,
+	messages: ChatCompletionMessageParam[],
+	options: ResponseOptions & { isJSON: true }
+): Promise<unknown>;
+export function getResponse(
+	provider: ProviderConfig,
+	messages: ChatCompletionMessageParam[],
+	options?: ResponseOptions & { isJSON?: false }
+): Promise<string>;
+export async function getResponse(
+	provider: ProviderConfig,
 	// prompt: string,
 	messages: ChatCompletionMessageParam[],
 	{
@@ -67,14 +342,12 @@ export const getResponse = async (
 		max_tokens,
 		temperature,
 		isJSON,
-	}: {
-		model?: string;
-		max_tokens?: number;
-		temperature?: number;
-		isJSON?: boolean;
-	} = {}
-) => {
+		signal,
+		action,
+	}: ResponseOptions = {}
+): Promise<unknown> {
 	logDebug("Calling AI :", {
+		provider: provider.id,
 		messages,
 		model,
 		max_tokens,
@@ -82,11 +355,35 @@ export const getResponse = async (
 		isJSON,
 	});
 
-	const openai = new OpenAI({
-		apiKey: apiKey,
-		baseURL: "https://api.deepseek.com/v1",
-		dangerouslyAllowBrowser: true,
-	});
+	checkBudget();
+
+	const canvasPath = activeCanvasPath();
+	const policy = { ...DEFAULT_RETRY_POLICY, ...provider.retry };
+	const onRetry = (error: unknown, delay: number) =>
+		logDebug(`AI error, retrying in ${Math.round(delay)}ms:`, error);
+
+	const adapter = getAdapter(provider.protocol);
+	if (adapter) {
+		let reported: TokenUsage | undefined;
+		const content = await withRetry(
+			() =>
+				adapter.complete(provider, messages, {
+					model,
+					max_tokens,
+					temperature,
+					isJSON: isJSON && provider.capabilities.jsonMode,
+					signal,
+					onUsage: (usage) => (reported = usage),
+				}),
+			policy,
+			{ signal, isRetryable, onRetry }
+		);
+		logDebug("AI response", { content });
+		recordRequest(provider, { model, action }, canvasPath, messages, content, reported);
+		return isJSON ? parseJSONAnswer(content) : content;
+	}
+
+	const openai = createClient(provider);
 
 	// const totalTokens =
 	// 	openaiMessages.reduce(
@@ -95,17 +392,205 @@ export const getResponse = async (
 	// 	) * 2;
 	// console.log({ totalTokens });
 
-	const completion = await openai.chat.completions.create({
-		// model: "gpt-3.5-turbo",
-		model: model || "deepseek-chat",
+	const completion = await withRetry(
+		() =>
+			openai.chat.completions.create(
+				{
+					// model: "gpt-3.5-turbo",
+					model: model || provider.models[0],
+					messages,
+					max_tokens,
+					temperature,
+					// Providers without JSON mode rely on the prompt asking for JSON
+					response_format: provider.capabilities.jsonMode
+						? { type: isJSON ? "json_object" : "text" }
+						: undefined,
+				},
+				{ signal }
+			),
+		policy,
+		{ signal, isRetryable, onRetry }
+	);
+
+	logDebug("AI response", { completion });
+	const choice = completion.choices[0];
+	const content = choice?.message?.content;
+	recordRequest(
+		provider,
+		{ model, action },
+		canvasPath,
 		messages,
-		max_tokens,
-		temperature,
-		response_format: { type: isJSON ? "json_object" : "text" },
+		content || "",
+		toTokenUsage(completion.usage)
+	);
+	if (typeof content !== "string") {
+		throw new Error(
+			`AI 没有返回内容${choice?.finish_reason ? `（finish_reason: ${choice.finish_reason}）` : ""}`
+		);
+	}
+	return isJSON ? parseJSONAnswer(content) : content;
+}
+
+/**
+ * Times the model is asked again after an answer that cannot be parsed or
+ * does not match the schema
+ */
+const STRUCTURED_REPAIR_ATTEMPTS = 1;
+
+/**
+ * JSON answer checked against a schema. An invalid answer is sent back to the
+ * model with what is wrong with it; rejects with a `StructuredOutputError`
+ * when the last answer is still invalid.
+ */
+export const getStructuredResponse = async <T>(
+	provider: ProviderConfig,
+	messages: ChatCompletionMessageParam[],
+	schema: JSONSchema,
+	options: Omit<ResponseOptions, "isJSON"> = {}
+): Promise<T> => {
+	let conversation = messages;
+	for (let attempt = 0; ; attempt++) {
+		let raw: string;
+		let problem: string;
+		try {
+			const value = await getResponse(provider, conversation, {
+				...options,
+				isJSON: true,
+			});
+			const errors = validateJSON(value, schema);
+			if (!errors.length) return value as T;
+			raw = JSON.stringify(value);
+			problem = errors.join("; ");
+		} catch (error) {
+			if (!(error instanceof StructuredOutputError)) throw error;
+			raw = error.raw;
+			problem = error.message;
+		}
+
+		logDebug("Invalid structured answer:", { problem, raw });
+		if (attempt >= STRUCTURED_REPAIR_ATTEMPTS || options.signal?.aborted) {
+			throw new StructuredOutputError(`AI 返回的 JSON 不符合要求: ${problem}`, raw);
+		}
+		conversation = [
+			...messages,
+			{ role: "assistant", content: raw },
+			{ role: "user", content: repairPrompt(problem, schema) },
+		];
+	}
+};
+
+/**
+ * Generate one image from a prompt with an OpenAI-images-compatible endpoint
+ * and return the file content. Images returned as a URL are downloaded.
+ */
+export const generateImage = async (
+	provider: ProviderConfig,
+	prompt: string,
+	{
+		model,
+		size,
+		signal,
+	}: {
+		model: string;
+		size?: string;
+		signal?: AbortSignal;
+	}
+): Promise<ArrayBuffer> => {
+	logDebug("Generating image:", { provider: provider.id, model, size, prompt });
+
+	checkBudget();
+
+	const policy = { ...DEFAULT_RETRY_POLICY, ...provider.retry };
+	const openai = createClient(provider);
+	const response = await withRetry(
+		() =>
+			openai.images.generate(
+				{
+					model,
+					prompt,
+					n: 1,
+					size: (size || undefined) as ImageGenerateParams["size"],
+					// gpt-image models always answer in base64 and reject the parameter
+					response_format: model.startsWith("gpt-image")
+						? undefined
+						: "b64_json",
+				},
+				{ signal }
+			),
+		policy,
+		{
+			signal,
+			isRetryable,
+			onRetry: (error, delay) =>
+				logDebug(`Image error, retrying in ${Math.round(delay)}ms:`, error),
+		}
+	);
+
+	const image = response.data?.[0];
+	// DALL-E 3 rewrites prompts
+	logDebug("Image generated", { revisedPrompt: image?.revised_prompt });
+	if (image?.b64_json) {
+		return base64ToArrayBuffer(image.b64_json);
+	}
+	if (image?.url) {
+		return (await requestUrl({ url: image.url })).arrayBuffer;
+	}
+	throw new Error("The image endpoint returned no image");
+};
+
+/**
+ * Embed texts with an OpenAI-compatible `/embeddings` endpoint, one vector per text
+ */
+export const getEmbeddings = async (
+	provider: ProviderConfig,
+	texts: string[],
+	{ model, signal }: { model: string; signal?: AbortSignal }
+): Promise<number[][]> => {
+	logDebug("Embedding texts:", { provider: provider.id, model, count: texts.length });
+
+	checkBudget();
+
+	const policy = { ...DEFAULT_RETRY_POLICY, ...provider.retry };
+	const openai = createClient(provider);
+	const response = await withRetry(
+		() => openai.embeddings.create({ model, input: texts }, { signal }),
+		policy,
+		{
+			signal,
+			isRetryable,
+			onRetry: (error, delay) =>
+				logDebug(`Embedding error, retrying in ${Math.round(delay)}ms:`, error),
+		}
+	);
+
+	recordUsage({
+		provider: provider.id,
+		model,
+		action: "vault-index",
+		promptTokens:
+			response.usage?.prompt_tokens ??
+			texts.reduce((total, text) => total + estimateTokens(text), 0),
+		completionTokens: 0,
+		estimated: !response.usage,
 	});
+	return [...response.data]
+		.sort((a, b) => a.index - b.index)
+		.map((item) => item.embedding);
+};
 
-	logDebug("AI response", { completion });
-	return isJSON
-		? JSON.parse(completion.choices[0].message!.content!)
-		: completion.choices[0].message!.content!;
+/**
+ * List the models the provider offers for the configured API key
+ */
+export const listModels = async (
+	provider: ProviderConfig
+): Promise<ModelInfo[]> => {
+	const adapter = getAdapter(provider.protocol);
+	if (adapter) {
+		return adapter.listModels(provider);
+	}
+
+	const openai = createClient(provider);
+	const page = await openai.models.list();
+	logDebug("AI models", { models: page.data });
+	return page.data.map(parseModelListing);
 };
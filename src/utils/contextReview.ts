@@ -0,0 +1,131 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { estimateTokens } from "../openai/usage";
+import { ContextImage, imageDataUrl } from "../obsidian/imageUtil";
+
+/**
+ * Where a message of the request comes from
+ * - system: system prompt
+ * - node: text of the node or one of its ancestors
+ * - edge: label of the edge leading to a node
+ * - prompt: question or instruction of the action
+ * - summary: summary of ancestors that did not fit the token budget
+ * - related: node of the same group, or connected by an outgoing or undirected edge
+ * - link: note linked with a [[wikilink]] from a node
+ * - vault: chunk of a note of the vault relevant to the prompt
+ */
+export type ContextSource =
+	| "system"
+	| "node"
+	| "edge"
+	| "prompt"
+	| "summary"
+	| "related"
+	| "link"
+	| "vault";
+
+export const CONTEXT_SOURCE_LABELS: Record<ContextSource, string> = {
+	system: "系统提示词",
+	node: "节点",
+	edge: "连线标签",
+	prompt: "提问",
+	summary: "较早笔记摘要",
+	related: "相关节点",
+	link: "链接笔记",
+	vault: "知识库片段",
+};
+
+/**
+ * A message of the request, with what the context review modal shows about it
+ */
+export interface ContextMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+	source: ContextSource;
+	/**
+	 * Canvas node the message was read from
+	 */
+	nodeId?: string;
+	tokens: number;
+	/**
+	 * Length in characters before the text was cut to fit the token budget
+	 */
+	truncatedFrom?: number;
+	/**
+	 * Kept when the context is trimmed to the token budget
+	 */
+	pinned?: boolean;
+	/**
+	 * Image of an image file node, `content` being its caption
+	 */
+	image?: ContextImage;
+}
+
+export const contextMessage = (
+	message: Omit<ContextMessage, "tokens">
+): ContextMessage => ({
+	...message,
+	tokens: estimateTokens(message.content) + (message.image?.tokens || 0),
+});
+
+export const contextTokens = (context: ContextMessage[]) =>
+	context.reduce((total, message) => total + message.tokens, 0);
+
+/**
+ * Messages of the request. Images become content parts of user messages.
+ */
+export const toChatMessages = (
+	context: ContextMessage[]
+): ChatCompletionMessageParam[] =>
+	context.map(({ role, content, image }) =>
+		image && role === "user"
+			? {
+				role,
+				content: [
+					{ type: "text", text: content },
+					{ type: "image_url", image_url: { url: imageDataUrl(image) } },
+				],
+			}
+			: { role, content }
+	);
+
+/**
+ * Move a message up (`offset` < 0) or down, staying within the list
+ */
+export function moveContextMessage(
+	context: ContextMessage[],
+	index: number,
+	offset: number
+): ContextMessage[] {
+	const target = Math.max(0, Math.min(context.length - 1, index + offset));
+	if (target === index || !context[index]) return context;
+
+	const moved = [...context];
+	const [message] = moved.splice(index, 1);
+	moved.splice(target, 0, message);
+	return moved;
+}
+
+/**
+ * Drop unpinned messages, oldest first, until the context fits `limit`.
+ * Pinned messages are always kept, so the result may still exceed the limit.
+ */
+export function fitContextToBudget(
+	context: ContextMessage[],
+	limit: number
+): { context: ContextMessage[]; dropped: number } {
+	const kept = [...context];
+	let total = contextTokens(kept);
+	let dropped = 0;
+
+	for (let i = 0; i < kept.length && total > limit; ) {
+		if (kept[i].pinned) {
+			i++;
+			continue;
+		}
+		total -= kept[i].tokens;
+		kept.splice(i, 1);
+		dropped++;
+	}
+
+	return { context: kept, dropped };
+}
@@ -0,0 +1,201 @@
+import { CanvasNode } from "../obsidian/canvas-internal";
+import { estimateTokens, truncateToTokens } from "../openai/usage";
+import { bm25Scores } from "./textRelevance";
+import { ContextSource } from "./contextReview";
+import { ContextImage } from "../obsidian/imageUtil";
+
+/**
+ * How ancestor nodes are chosen when they do not all fit the token budget
+ * - nearest: nearest ancestors first, stop at the first one that does not fit
+ * - summarize: nearest first, ancestors that do not fit are summarized by a model call
+ * - relevance: ancestors most relevant to the prompt first
+ *
+ * The requesting node and pinned nodes are always included first.
+ */
+export type ContextStrategy = "nearest" | "summarize" | "relevance";
+
+export const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, string> = {
+	nearest: "就近优先",
+	summarize: "摘要较早的笔记",
+	relevance: "按与问题的相关度",
+};
+
+/**
+ * Key of the pinned flag in a node's `unknownData` (saved in the .canvas file)
+ */
+export const PINNED_CONTEXT_KEY = "ai_pinned";
+
+export const isNodePinned = (node: Pick<CanvasNode, "unknownData">) =>
+	!!node.unknownData?.[PINNED_CONTEXT_KEY];
+
+/**
+ * Pin a node so it is included in the context of every request on its canvas
+ */
+export async function setNodePinned(node: CanvasNode, pinned: boolean) {
+	if (pinned) {
+		node.unknownData[PINNED_CONTEXT_KEY] = true;
+	} else {
+		delete node.unknownData[PINNED_CONTEXT_KEY];
+	}
+	await node.canvas.requestSave();
+}
+
+/**
+ * A node that may be sent with a request
+ */
+export interface ContextCandidate {
+	/**
+	 * Unset for linked notes and vault chunks
+	 */
+	nodeId?: string;
+	role: "user" | "assistant";
+	text: string;
+	/**
+	 * Label of the edge leading from this node towards the requesting node
+	 */
+	edgeLabel?: string;
+	/**
+	 * Distance from the requesting node, Infinity for pinned nodes that are not
+	 * ancestors and for vault chunks
+	 */
+	depth: number;
+	pinned: boolean;
+	/**
+	 * `node` (default) for the node and its ancestors
+	 */
+	source?: Extract<ContextSource, "node" | "related" | "link" | "vault">;
+	/**
+	 * Note the text was read from, for file nodes and linked notes
+	 */
+	path?: string;
+	/**
+	 * Image of an image file node, `text` being its caption
+	 */
+	image?: ContextImage;
+}
+
+export interface SelectedCandidate extends ContextCandidate {
+	/**
+	 * Tokens of the (possibly truncated) text and of the image
+	 */
+	tokens: number;
+	/**
+	 * Length in characters before the text was cut to fit the budget
+	 */
+	truncatedFrom?: number;
+}
+
+export interface ContextSelection {
+	/**
+	 * Candidates to send, farthest first
+	 */
+	selected: SelectedCandidate[];
+	/**
+	 * Candidates left out, farthest first
+	 */
+	overflow: ContextCandidate[];
+}
+
+/**
+ * Choose the candidates that fit `budget` tokens.
+ *
+ * @param candidates in visit order, nearest first
+ * @param query text relevance is measured against
+ * @param truncate cut the text of the nearest candidate that does not fit,
+ * instead of leaving it out. Images are never cut.
+ */
+export function selectContext(
+	candidates: ContextCandidate[],
+	budget: number,
+	{
+		strategy = "nearest",
+		query = "",
+		truncate = true,
+	}: {
+		strategy?: Exclude<ContextStrategy, "summarize">;
+		query?: string;
+		truncate?: boolean;
+	} = {}
+): ContextSelection {
+	let remaining = budget;
+	const selected = new Map<number, SelectedCandidate>();
+	const overflow = new Set<number>();
+
+	/**
+	 * Add a candidate if it fits, or its start when `cut`. Returns whether it fit whole.
+	 */
+	const take = (index: number, cut: boolean) => {
+		const candidate = candidates[index];
+		const tokens =
+			estimateTokens(candidate.text) + (candidate.image?.tokens || 0);
+		const edgeTokens = estimateTokens(candidate.edgeLabel || "");
+
+		if (tokens + edgeTokens <= remaining) {
+			selected.set(index, { ...candidate, tokens });
+			remaining -= tokens + edgeTokens;
+			return true;
+		}
+
+		// Keep 1 token of margin for edge cases
+		const room = remaining - edgeTokens - 1;
+		if (cut && room > 0 && !candidate.image) {
+			const text = truncateToTokens(candidate.text, room);
+			const kept = estimateTokens(text);
+			selected.set(index, {
+				...candidate,
+				text,
+				tokens: kept,
+				truncatedFrom: candidate.text.length,
+			});
+			remaining -= kept + edgeTokens;
+		} else {
+			overflow.add(index);
+		}
+		return false;
+	};
+
+	const indexes = candidates.map((_, index) => index);
+	const isRequired = (index: number) =>
+		candidates[index].depth === 0 || candidates[index].pinned;
+
+	indexes.filter(isRequired).forEach((index) => take(index, true));
+
+	let rest = indexes.filter((index) => !isRequired(index));
+	if (strategy === "relevance") {
+		const scores = bm25Scores(
+			query,
+			candidates.map((candidate) => candidate.text)
+		);
+		// Stable sort: equally relevant candidates stay nearest first
+		rest = [...rest].sort((a, b) => scores[b] - scores[a]);
+		rest.forEach((index) => take(index, false));
+	} else {
+		let full = false;
+		for (const index of rest) {
+			if (full) overflow.add(index);
+			else full = !take(index, truncate);
+		}
+	}
+
+	const farthestFirst = (a: number, b: number) => b - a;
+	return {
+		selected: Array.from(selected.keys())
+			.sort(farthestFirst)
+			.map((index) => selected.get(index)!),
+		overflow: Array.from(overflow)
+			.sort(farthestFirst)
+			.map((index) => candidates[index]),
+	};
+}
+
+/**
+ * Candidates as a plain-text conversation, for the summary request
+ */
+export const formatTranscript = (candidates: ContextCandidate[]) =>
+	candidates
+		.map(
+			(candidate) =>
+				`${candidate.role}: ${candidate.text}` +
+				(candidate.edgeLabel ? `\nuser: ${candidate.edgeLabel}` : "")
+		)
+		.join("\n\n");
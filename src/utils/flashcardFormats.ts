@@ -0,0 +1,459 @@
+import { estimateTokens } from "../openai/usage";
+import { chunkMarkdown } from "../obsidian/vaultIndex";
+
+/**
+ * File the flashcards are written to
+ * - spaced-repetition: Markdown note for the Spaced Repetition plugin
+ * - anki-csv / anki-tsv: text file for Anki's File > Import
+ * - anki-connect: `addNotes` request body for the AnkiConnect add-on
+ */
+export type FlashcardFormat =
+	| "spaced-repetition"
+	| "anki-csv"
+	| "anki-tsv"
+	| "anki-connect";
+
+export const FLASHCARD_FORMAT_LABELS: Record<FlashcardFormat, string> = {
+	"spaced-repetition": "Spaced Repetition 笔记 (.md)",
+	"anki-csv": "Anki 导入文件 (.csv)",
+	"anki-tsv": "Anki 导入文件 (.tsv)",
+	"anki-connect": "AnkiConnect JSON (.json)",
+};
+
+/**
+ * Kind of cards asked from the model
+ * - basic: question on the front, answer on the back
+ * - reversible: also reviewed from the back to the front
+ * - cloze: sentences with hidden terms
+ */
+export type FlashcardType = "basic" | "reversible" | "cloze";
+
+export const FLASHCARD_TYPE_LABELS: Record<FlashcardType, string> = {
+	basic: "问答",
+	reversible: "双向问答",
+	cloze: "填空（Cloze）",
+};
+
+export interface FlashcardOptions {
+	format: FlashcardFormat;
+	type: FlashcardType;
+	/**
+	 * Vault folder the flashcard files are created in
+	 */
+	folder: string;
+	/**
+	 * Anki deck, or Spaced Repetition deck under `#flashcards`. Empty for the default deck.
+	 */
+	deck: string;
+	tags: string[];
+	/**
+	 * Also add the new cards to the canvas as question / answer node pairs in a group
+	 */
+	placeOnCanvas: boolean;
+}
+
+export const DEFAULT_FLASHCARD_OPTIONS: FlashcardOptions = {
+	format: "spaced-repetition",
+	type: "basic",
+	folder: "Home/Flashcards",
+	deck: "",
+	tags: [],
+	placeOnCanvas: false,
+};
+
+export interface Flashcard {
+	/**
+	 * Question, or for cloze cards the text with `{{c1::hidden}}` terms
+	 */
+	front: string;
+	/**
+	 * Answer, or for cloze cards extra context shown with the answer
+	 */
+	back: string;
+}
+
+/**
+ * How the model writes the cards of each type, added to the system prompt
+ */
+export const FLASHCARD_TYPE_INSTRUCTIONS: Record<FlashcardType, string> = {
+	basic: "",
+	reversible:
+		"Each flashcard is also reviewed reversed: the front must be the only answer to the back.",
+	cloze:
+		'Each flashcard is a cloze deletion: "front" is a sentence of the text with its key terms ' +
+		"wrapped as {{c1::term}}, numbered c1, c2... within the sentence, " +
+		'and "back" is optional extra context, or an empty string.',
+};
+
+const FILE_EXTENSIONS: Record<FlashcardFormat, string> = {
+	"spaced-repetition": "md",
+	"anki-csv": "csv",
+	"anki-tsv": "tsv",
+	"anki-connect": "json",
+};
+
+const ANKI_NOTE_TYPES: Record<FlashcardType, string> = {
+	basic: "Basic",
+	reversible: "Basic (and reversed card)",
+	cloze: "Cloze",
+};
+
+const ANKI_FIELDS: Record<FlashcardType, [string, string]> = {
+	basic: ["Front", "Back"],
+	reversible: ["Front", "Back"],
+	cloze: ["Text", "Back Extra"],
+};
+
+const ANKI_DEFAULT_DECK = "Default";
+
+const CLOZE_REGEX = /\{\{c\d+::(.*?)(?:::[^}]*)?\}\}/g;
+
+/**
+ * Tags and deck names as tags: no leading `#`, no spaces
+ */
+const toTag = (text: string) => text.trim().replace(/^#/, "").replace(/\s+/g, "-");
+
+/**
+ * File name from the model's title, without characters file systems reject
+ */
+export const flashcardFileName = (title: string) =>
+	title
+		.replace(/[\\/:*?"<>|#^[\]\r\n]+/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 80)
+		.trim() || "Flashcards";
+
+export const flashcardFileExtension = (format: FlashcardFormat) =>
+	FILE_EXTENSIONS[format];
+
+/**
+ * Cards the model returned, without those missing a front
+ */
+export function parseFlashcards(response: unknown): Flashcard[] {
+	const cards = (response as { flashcards?: unknown })?.flashcards;
+	if (!Array.isArray(cards)) return [];
+	return cards
+		.map((card) => ({
+			front: String(card?.front ?? "").trim(),
+			back: String(card?.back ?? "").trim(),
+		}))
+		.filter((card) => card.front);
+}
+
+// A blank line ends a card: keep the lines of a side together
+const srSide = (text: string) => text.replace(/\n\s*\n/g, "\n");
+
+/**
+ * One card of a Spaced Repetition note: `front::back` or `front:::back`
+ * (reversible), `?` / `??` separators for cards on several lines, cloze terms
+ * as ==highlights==
+ */
+const spacedRepetitionCard = ({ front, back }: Flashcard, type: FlashcardType) => {
+	if (type === "cloze") return srSide(front.replace(CLOZE_REGEX, "==$1=="));
+	const multiline = front.includes("\n") || back.includes("\n");
+	const separator =
+		type === "reversible"
+			? multiline ? "\n??\n" : ":::"
+			: multiline ? "\n?\n" : "::";
+	return `${srSide(front)}${separator}${srSide(back)}`;
+};
+
+/**
+ * Cards as a Spaced Repetition note, under a deck tag
+ */
+export function toSpacedRepetition(
+	cards: Flashcard[],
+	{ type, deck, tags }: Pick<FlashcardOptions, "type" | "deck" | "tags">
+): string {
+	const header = [
+		deck.trim() ? `#flashcards/${toTag(deck)}` : "#flashcards",
+		...tags.map((tag) => `#${toTag(tag)}`),
+	].join(" ");
+
+	return (
+		[header, ...cards.map((card) => spacedRepetitionCard(card, type))].join("\n\n") +
+		"\n"
+	);
+}
+
+/**
+ * A field of a delimited file, quoted when it holds the separator, a quote or a line break
+ */
+const delimitedField = (value: string, separator: string) =>
+	value.includes(separator) || /["\n\r]/.test(value)
+		? `"${value.replace(/"/g, '""')}"`
+		: value;
+
+const toHtml = (text: string) =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\n/g, "<br>");
+
+const ankiRow = ({ front, back }: Flashcard, separator: string) =>
+	[front, back].map((field) => delimitedField(toHtml(field), separator)).join(separator);
+
+/**
+ * Cards as an Anki import file, with the file headers setting the separator,
+ * note type, deck and tags (Anki 2.1.54 and later)
+ */
+export function toAnkiText(
+	cards: Flashcard[],
+	{ type, deck, tags }: Pick<FlashcardOptions, "type" | "deck" | "tags">,
+	separator: "," | "\t"
+): string {
+	const headers = [
+		`#separator:${separator === "\t" ? "Tab" : "Comma"}`,
+		"#html:true",
+		`#notetype:${ANKI_NOTE_TYPES[type]}`,
+		`#deck:${deck.trim() || ANKI_DEFAULT_DECK}`,
+		...(tags.length ? [`#tags:${tags.map(toTag).join(" ")}`] : []),
+	];
+	return [...headers, ...cards.map((card) => ankiRow(card, separator))].join("\n") + "\n";
+}
+
+interface AnkiConnectNote {
+	deckName: string;
+	modelName: string;
+	fields: Record<string, string>;
+	tags: string[];
+	options: { allowDuplicate: boolean };
+}
+
+/**
+ * Cards as the body of an AnkiConnect `addNotes` request
+ */
+export function toAnkiConnect(
+	cards: Flashcard[],
+	{ type, deck, tags }: Pick<FlashcardOptions, "type" | "deck" | "tags">
+) {
+	const [frontField, backField] = ANKI_FIELDS[type];
+	return {
+		action: "addNotes",
+		version: 6,
+		params: {
+			notes: cards.map(({ front, back }): AnkiConnectNote => ({
+				deckName: deck.trim() || ANKI_DEFAULT_DECK,
+				modelName: ANKI_NOTE_TYPES[type],
+				fields: { [frontField]: toHtml(front), [backField]: toHtml(back) },
+				tags: tags.map(toTag),
+				options: { allowDuplicate: false },
+			})),
+		},
+	};
+}
+
+const FORMATTERS: Record<
+	FlashcardFormat,
+	(cards: Flashcard[], options: FlashcardOptions) => string
+> = {
+	"spaced-repetition": toSpacedRepetition,
+	"anki-csv": (cards, options) => toAnkiText(cards, options, ","),
+	"anki-tsv": (cards, options) => toAnkiText(cards, options, "\t"),
+	"anki-connect": (cards, options) =>
+		JSON.stringify(toAnkiConnect(cards, options), null, 2) + "\n",
+};
+
+/**
+ * Content of the flashcard file in the chosen format
+ */
+export const formatFlashcards = (cards: Flashcard[], options: FlashcardOptions) =>
+	(FORMATTERS[options.format] || toSpacedRepetition)(cards, options);
+
+const fromHtml = (text: string) =>
+	text
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&amp;/g, "&");
+
+/**
+ * Fields of a row of a delimited file
+ */
+const parseDelimitedRow = (row: string, separator: string) => {
+	const fields: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < row.length; i++) {
+		const char = row[i];
+		if (quoted) {
+			if (char === '"' && row[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && !field) {
+			quoted = true;
+		} else if (char === separator) {
+			fields.push(field);
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	fields.push(field);
+	return fields;
+};
+
+/**
+ * Cards of a Spaced Repetition note: blocks with a separator, or cloze
+ * paragraphs with ==highlights==
+ */
+const parseSpacedRepetition = (content: string): Flashcard[] =>
+	content
+		.split(/\n\s*\n/)
+		.map((block) => block.trim())
+		.filter((block) => block && !/^(#[^\s#]+\s*)+$/.test(block))
+		.map((block) => {
+			const lines = block.split("\n");
+			const multiline = lines.findIndex((line) => /^\?\??$/.test(line.trim()));
+			if (multiline > 0) {
+				return {
+					front: lines.slice(0, multiline).join("\n"),
+					back: lines.slice(multiline + 1).join("\n"),
+				};
+			}
+			const inline = block.match(/^([\s\S]*?):::?([\s\S]*)$/);
+			if (inline) return { front: inline[1], back: inline[2] };
+			return { front: /==[^=]+==/.test(block) ? block : "", back: "" };
+		})
+		.filter((card) => card.front.trim());
+
+/**
+ * Cards already in a flashcard file written in the format. Unreadable files have none.
+ */
+export function parseFlashcardFile(content: string, format: FlashcardFormat): Flashcard[] {
+	if (format === "spaced-repetition") return parseSpacedRepetition(content);
+
+	if (format === "anki-connect") {
+		try {
+			const notes: AnkiConnectNote[] = JSON.parse(content)?.params?.notes || [];
+			return notes.map((note) => {
+				const [front = "", back = ""] = Object.values(note.fields || {});
+				return { front: fromHtml(front), back: fromHtml(back) };
+			});
+		} catch (error) {
+			console.error("Failed to read the AnkiConnect flashcards:", error);
+			return [];
+		}
+	}
+
+	const separator = format === "anki-tsv" ? "\t" : ",";
+	return content
+		.split("\n")
+		.filter((line) => line.trim() && !line.startsWith("#"))
+		.map((line) => {
+			const [front = "", back = ""] = parseDelimitedRow(line, separator);
+			return { front: fromHtml(front), back: fromHtml(back) };
+		});
+}
+
+/**
+ * Text a card is recognized by: its front without cloze markup, case,
+ * punctuation and spacing
+ */
+export const flashcardKey = (front: string) =>
+	fromHtml(front)
+		.replace(CLOZE_REGEX, "$1")
+		.replace(/==([^=]+)==/g, "$1")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, "");
+
+/**
+ * Cards whose front is neither in `existing` nor repeated among `cards`
+ */
+export function newFlashcards(cards: Flashcard[], existing: Flashcard[]): Flashcard[] {
+	const seen = new Set(existing.map((card) => flashcardKey(card.front)));
+	return cards.filter((card) => {
+		const key = flashcardKey(card.front);
+		if (!key || seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/**
+ * File content with the cards added after the cards already in it
+ */
+export function appendFlashcards(
+	content: string,
+	cards: Flashcard[],
+	options: FlashcardOptions
+): string {
+	if (!content.trim()) return formatFlashcards(cards, options);
+
+	switch (options.format) {
+	case "anki-csv":
+	case "anki-tsv": {
+		const separator = options.format === "anki-tsv" ? "\t" : ",";
+		return `${content.trimEnd()}\n${cards.map((card) => ankiRow(card, separator)).join("\n")}\n`;
+	}
+	case "anki-connect": {
+		try {
+			const request = JSON.parse(content);
+			request.params.notes.push(...toAnkiConnect(cards, options).params.notes);
+			return JSON.stringify(request, null, 2) + "\n";
+		} catch (error) {
+			console.error("Failed to read the AnkiConnect flashcards:", error);
+			return formatFlashcards(cards, options);
+		}
+	}
+	default:
+		return `${content.trimEnd()}\n\n${cards
+			.map((card) => spacedRepetitionCard(card, options.type))
+			.join("\n\n")}\n`;
+	}
+}
+
+/**
+ * Question and answer nodes of a card: cloze cards show the text with the
+ * hidden terms as `[...]`, then with the terms in bold
+ */
+export function flashcardSides({ front, back }: Flashcard, type: FlashcardType) {
+	if (type !== "cloze") return { question: front, answer: back };
+	const answer = front.replace(CLOZE_REGEX, "**$1**");
+	return {
+		question: front.replace(/\{\{c\d+::.*?(?:::([^}]*))?\}\}/g, (_, hint) =>
+			hint ? `[${hint}]` : "[...]"
+		),
+		answer: back ? `${answer}\n\n${back}` : answer,
+	};
+}
+
+/**
+ * Texts sent in requests of at most `budget` tokens: whole texts packed
+ * together, texts too large for one request split at headings and paragraphs
+ */
+export function flashcardBatches(texts: string[], budget: number): string[] {
+	const pieces = texts.flatMap((text) =>
+		estimateTokens(text) <= budget
+			? [text]
+			: chunkMarkdown(text, budget).map((chunk) =>
+				chunk.heading ? `# ${chunk.heading}\n\n${chunk.text}` : chunk.text
+			)
+	);
+
+	const batches: string[] = [];
+	let batch: string[] = [];
+	let tokens = 0;
+	for (const piece of pieces) {
+		const size = estimateTokens(piece);
+		if (batch.length && tokens + size > budget) {
+			batches.push(batch.join("\n\n"));
+			batch = [];
+			tokens = 0;
+		}
+		batch.push(piece);
+		tokens += size;
+	}
+	if (batch.length) batches.push(batch.join("\n\n"));
+
+	return batches;
+}
@@ -0,0 +1,286 @@
+import { ChatCompletionMessageParam } from "openai/resources";
+import { estimateTokens, truncateToTokens } from "../openai/usage";
+
+/**
+ * How a folder prompt is sent
+ * - single: the files that fit the token budget in one request
+ * - map-reduce: the files in batches that each fit the budget, then one
+ *   request combining the answers for the batches
+ * - per-file: one request and one result node per file, then a synthesis node
+ */
+export type FolderPromptMode = "single" | "map-reduce" | "per-file";
+
+export const FOLDER_PROMPT_MODE_LABELS: Record<FolderPromptMode, string> = {
+	single: "一次发送（超出限额的文件跳过）",
+	"map-reduce": "分批处理后汇总",
+	"per-file": "每个文件一个结果节点，再汇总",
+};
+
+export interface FolderPromptOptions {
+	/**
+	 * Globs of the files to read, relative to the folder. Empty reads every file.
+	 */
+	include: string[];
+	exclude: string[];
+	/**
+	 * Files read at most, 0 for no limit
+	 */
+	maxFiles: number;
+	/**
+	 * Input tokens of a request, 0 for the model's limit
+	 */
+	maxTokens: number;
+	mode: FolderPromptMode;
+}
+
+export const DEFAULT_FOLDER_PROMPT_OPTIONS: FolderPromptOptions = {
+	include: [],
+	exclude: [],
+	maxFiles: 50,
+	maxTokens: 0,
+	mode: "single",
+};
+
+export type FolderSkipReason = "filtered" | "max-files" | "max-tokens" | "unreadable";
+
+export const FOLDER_SKIP_REASON_LABELS: Record<FolderSkipReason, string> = {
+	filtered: "被过滤",
+	"max-files": "超出文件数上限",
+	"max-tokens": "超出 token 限额",
+	unreadable: "读取失败",
+};
+
+export interface FolderSkippedFile {
+	path: string;
+	reason: FolderSkipReason;
+}
+
+/**
+ * A file of the folder as sent, with its heading
+ */
+export interface FolderDocument {
+	path: string;
+	content: string;
+	tokens: number;
+	/**
+	 * Length of the content before it was cut to fit a batch
+	 */
+	truncatedFrom?: number;
+}
+
+export interface FolderPlan {
+	batches: FolderDocument[][];
+	skipped: FolderSkippedFile[];
+	tokens: number;
+}
+
+/**
+ * Glob as a regular expression matching whole paths:
+ * `**` matches across folders, `*` and `?` within a name, `{a,b}` either
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*" && glob[i + 1] === "*") {
+			// `**/` also matches no folder at all
+			const slash = glob[i + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			braces++;
+			source += "(?:";
+		} else if (char === "}" && braces) {
+			braces--;
+			source += ")";
+		} else if (char === "," && braces) {
+			source += "|";
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Globs written one per line or separated by commas outside braces
+ */
+export const parseGlobList = (text: string) =>
+	text
+		.split(/\n|,(?![^{]*\})/)
+		.map((glob) => glob.trim())
+		.filter(Boolean);
+
+/**
+ * Whether a path matches the filters. A glob without a folder, like `*.md`,
+ * matches the file name in any folder.
+ */
+export function matchesGlobs(
+	path: string,
+	include: string[],
+	exclude: string[]
+) {
+	const matches = (glob: string) =>
+		globToRegExp(glob.includes("/") ? glob : `**/${glob}`).test(path);
+	return (!include.length || include.some(matches)) && !exclude.some(matches);
+}
+
+/**
+ * Files to read: those matching the filters, up to the file limit.
+ * Paths are relative to the folder.
+ */
+export function selectFolderFiles(
+	paths: string[],
+	{ include, exclude, maxFiles }: Pick<FolderPromptOptions, "include" | "exclude" | "maxFiles">
+) {
+	const selected: string[] = [];
+	const skipped: FolderSkippedFile[] = [];
+	for (const path of paths) {
+		if (!matchesGlobs(path, include, exclude)) {
+			skipped.push({ path, reason: "filtered" });
+		} else if (maxFiles && selected.length >= maxFiles) {
+			skipped.push({ path, reason: "max-files" });
+		} else {
+			selected.push(path);
+		}
+	}
+	return { selected, skipped };
+}
+
+/**
+ * `map` over the items with at most `limit` calls running at once, results in
+ * the order of the items
+ */
+export async function mapConcurrently<T, R>(
+	items: T[],
+	limit: number,
+	map: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await map(items[index]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+export const folderDocument = (path: string, content: string): FolderDocument => {
+	const text = `# ${path}\n\n${content}`.trim();
+	return { path, content: text, tokens: estimateTokens(text) };
+};
+
+/**
+ * Split the documents into requests of at most `budget` tokens. In single mode
+ * documents that do not fit are skipped; in the other modes documents larger
+ * than a whole batch are cut to fit one.
+ */
+export function planFolderRun(
+	documents: FolderDocument[],
+	mode: FolderPromptMode,
+	budget: number
+): FolderPlan {
+	const batches: FolderDocument[][] = [];
+	const skipped: FolderSkippedFile[] = [];
+	let batch: FolderDocument[] = [];
+	let batchTokens = 0;
+
+	for (const document of documents) {
+		const fits = batchTokens + document.tokens <= budget;
+		if (mode === "single") {
+			if (fits) {
+				batch.push(document);
+				batchTokens += document.tokens;
+			} else {
+				skipped.push({ path: document.path, reason: "max-tokens" });
+			}
+			continue;
+		}
+
+		if ((!fits || mode === "per-file") && batch.length) {
+			batches.push(batch);
+			batch = [];
+			batchTokens = 0;
+		}
+		const sized =
+			document.tokens > budget
+				? {
+					...document,
+					content: truncateToTokens(document.content, budget),
+					tokens: budget,
+					truncatedFrom: document.content.length,
+				}
+				: document;
+		batch.push(sized);
+		batchTokens += sized.tokens;
+	}
+	if (batch.length) batches.push(batch);
+
+	return {
+		batches,
+		skipped,
+		tokens: batches.flat().reduce((total, document) => total + document.tokens, 0),
+	};
+}
+
+export const formatDocuments = (documents: FolderDocument[]) =>
+	documents.map((document) => document.content).join("\n\n");
+
+/**
+ * Request for one batch of a map-reduce run
+ */
+export const mapMessages = (
+	systemPrompt: string,
+	batch: FolderDocument[],
+	index: number,
+	count: number
+): ChatCompletionMessageParam[] => [
+	{
+		role: "system",
+		content:
+			`${systemPrompt}\n\n` +
+			`The files below are part ${index + 1} of ${count} of a folder. ` +
+			"Answer for these files only: your answer will be combined with the answers for the other parts.",
+	},
+	{ role: "user", content: formatDocuments(batch) },
+];
+
+/**
+ * Request combining the answers for the batches into the final answer.
+ * Each answer is cut to its share of the budget, and titled with its label
+ * (the file of per-file runs) or its part number.
+ */
+export const reduceMessages = (
+	systemPrompt: string,
+	answers: string[],
+	budget: number,
+	labels: string[] = []
+): ChatCompletionMessageParam[] => {
+	const share = Math.floor(budget / Math.max(answers.length, 1));
+	return [
+		{
+			role: "system",
+			content:
+				`${systemPrompt}\n\n` +
+				"The files of a folder were processed in parts. Combine the answers for the parts below " +
+				"into one final answer to the instructions above, merging repeated points.",
+		},
+		{
+			role: "user",
+			content: answers
+				.map(
+					(answer, index) =>
+						`## ${labels[index] || `Part ${index + 1}`}\n\n${truncateToTokens(answer, share)}`
+				)
+				.join("\n\n"),
+		},
+	];
+};
@@ -0,0 +1,134 @@
+import { GroupGenerationConfig } from "./groupGeneration/config";
+import {
+	calculateGroupBounds,
+	calculateNodePosition,
+	registerNodeInColumn,
+} from "./groupGeneration/layoutEngine";
+import {
+	AnchorState,
+	ColumnTrack,
+	GroupBounds,
+	NodeBounds,
+	NodePosition,
+} from "./groupGeneration/types";
+
+const SOURCE_COLUMN = 0;
+const RESULT_COLUMN = 1;
+
+export const RESULT_NODE_WIDTH = 500;
+export const SYNTHESIS_NODE_WIDTH = 800;
+
+/**
+ * Layout of the per-file results of a folder prompt: a group with one row per
+ * file, the source file node on the left and its result on the right, and the
+ * synthesis node to the right of the group.
+ *
+ * Rows are added once their result is known, so each row sits below the
+ * tallest node of the row above.
+ */
+export class FolderResultsLayout {
+	anchor: AnchorState;
+	config: GroupGenerationConfig;
+	columnTracks = new Map<number, ColumnTrack>();
+	members: NodeBounds[] = [];
+
+	constructor(x: number, y: number, config: GroupGenerationConfig) {
+		this.config = config;
+		this.anchor = {
+			anchorX: x,
+			anchorY: y,
+			anchorLocked: true,
+			minRowSeen: 0,
+			minColSeen: 0,
+			edgeDirection: "right",
+		};
+		// Column widths are known up front: the group never gets wider
+		this.columnTracks.set(SOURCE_COLUMN, {
+			col: SOURCE_COLUMN,
+			nodes: [],
+			maxWidth: config.nodeWidth,
+		});
+		this.columnTracks.set(RESULT_COLUMN, {
+			col: RESULT_COLUMN,
+			nodes: [],
+			maxWidth: RESULT_NODE_WIDTH,
+		});
+	}
+
+	/**
+	 * Top left corners of the source and result nodes of a row
+	 */
+	rowPosition(row: number): { source: NodePosition; result: NodePosition } {
+		const position = (col: number) =>
+			calculateNodePosition(
+				`${col}:${row}`,
+				row,
+				col,
+				this.anchor,
+				this.columnTracks,
+				this.config
+			);
+		// Both nodes of a row start below the taller node of the previous row
+		const source = position(SOURCE_COLUMN);
+		const result = position(RESULT_COLUMN);
+		const y = Math.max(source.y, result.y);
+		return { source: { x: source.x, y }, result: { x: result.x, y } };
+	}
+
+	/**
+	 * Register a row with the height of its nodes, so the next row goes below it
+	 */
+	addRow(row: number, height: number): { source: NodeBounds; result: NodeBounds } {
+		const { source, result } = this.rowPosition(row);
+		const boxes = {
+			source: { ...source, width: this.config.nodeWidth, height },
+			result: { ...result, width: RESULT_NODE_WIDTH, height },
+		};
+		for (const [col, box] of [
+			[SOURCE_COLUMN, boxes.source],
+			[RESULT_COLUMN, boxes.result],
+		] as const) {
+			registerNodeInColumn(
+				`${col}:${row}`,
+				col,
+				row,
+				box.y,
+				box.height,
+				box.width,
+				this.columnTracks,
+				this.config.nodeWidth
+			);
+			this.members.push(box);
+		}
+		return boxes;
+	}
+
+	/**
+	 * Group holding the rows added so far, at least as wide as both columns
+	 */
+	groupBounds(): GroupBounds {
+		const { groupPadding, horizontalGap, groupHeaderHeight, nodeWidth } = this.config;
+		const minimum = {
+			x: this.anchor.anchorX,
+			y: this.anchor.anchorY,
+			width: groupPadding * 2 + nodeWidth + horizontalGap + RESULT_NODE_WIDTH,
+			height: groupHeaderHeight + groupPadding * 2,
+		};
+		return {
+			x: minimum.x,
+			y: minimum.y,
+			...calculateGroupBounds(minimum, this.members, this.anchor, this.config),
+		};
+	}
+
+	/**
+	 * Top left corner of the synthesis node, right of the group
+	 */
+	synthesisPosition(): NodePosition {
+		const group = this.groupBounds();
+		return {
+			x: group.x + group.width + this.config.horizontalGap,
+			y: group.y,
+		};
+	}
+}
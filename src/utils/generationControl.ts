@@ -0,0 +1,97 @@
+import { CanvasNode } from "../obsidian/canvas-internal";
+
+/**
+ * What happens to the generated content when a generation is stopped
+ * - keep: keep the partial text / nodes received so far
+ * - remove: remove the node(s) created for the generation
+ */
+export type AbortBehavior = "keep" | "remove";
+
+/**
+ * A running AI request that can be stopped from the canvas or the command palette
+ */
+export interface Generation {
+	/**
+	 * Signal to pass to `streamResponse` / `getResponse`
+	 */
+	signal: AbortSignal;
+
+	/**
+	 * Stop the request
+	 */
+	abort(): void;
+
+	/**
+	 * Render the "Stop generating" button on the node receiving the output
+	 */
+	attachTo(node: CanvasNode): void;
+
+	/**
+	 * Unregister the generation and remove its stop button.
+	 * Call it once the request is over, stopped or not.
+	 */
+	finish(): void;
+}
+
+const activeGenerations = new Set<Generation>();
+
+const STOP_BUTTON_CLASS = "augmented-canvas-stop-button";
+
+function createStopButton(onClick: () => void) {
+	const button = document.createElement("button");
+	button.className = STOP_BUTTON_CLASS;
+	button.textContent = "停止生成";
+	// The canvas would otherwise select / drag the node
+	button.addEventListener("pointerdown", (event) => event.stopPropagation());
+	button.addEventListener("click", (event) => {
+		event.preventDefault();
+		event.stopPropagation();
+		onClick();
+	});
+	return button;
+}
+
+/**
+ * Register a new generation
+ *
+ * @param node - Node receiving the output, if it already exists
+ */
+export function startGeneration(node?: CanvasNode): Generation {
+	const controller = new AbortController();
+	let button: HTMLButtonElement | null = null;
+
+	const generation: Generation = {
+		signal: controller.signal,
+		abort: () => controller.abort(),
+		attachTo: (target: CanvasNode) => {
+			button?.remove();
+			button = createStopButton(() => generation.abort());
+			target.nodeEl?.appendChild(button);
+		},
+		finish: () => {
+			button?.remove();
+			button = null;
+			activeGenerations.delete(generation);
+		},
+	};
+
+	activeGenerations.add(generation);
+	if (node) generation.attachTo(node);
+
+	return generation;
+}
+
+/**
+ * Stop every running generation
+ *
+ * @returns The number of generations stopped
+ */
+export function stopAllGenerations(): number {
+	const generations = Array.from(activeGenerations);
+	generations.forEach((generation) => generation.abort());
+	return generations.length;
+}
+
+export function activeGenerationCount(): number {
+	return activeGenerations.size;
+}
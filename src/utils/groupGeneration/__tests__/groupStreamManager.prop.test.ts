@@ -485,6 +485,28 @@ describe("State Query Methods", () => {
 	});
 });
 
+// ============================================================================
+// 中止测试
+// ============================================================================
+
+describe("Abort", () => {
+	it("should cancel the API request through the signal passed to the stream function", async () => {
+		let signal: AbortSignal | undefined;
+		const manager = new GroupStreamManager({}, async (_apiKey, _messages, config, callback) => {
+			signal = config.signal;
+			callback(createNodeChunk("n1", 0, 0, "partial"));
+			manager.abort();
+			// 与 streamResponse 相同：请求被取消后正常结束流
+			callback(null);
+		});
+
+		await manager.startGeneration("key", [{ role: "user", content: "plan" }], { model: "m" });
+
+		expect(signal?.aborted).toBe(true);
+		expect(manager.getState().status).toBe("idle");
+	});
+});
+
 // ============================================================================
 // 回调设置测试
 // ============================================================================
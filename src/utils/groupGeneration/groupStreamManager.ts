@@ -48,6 +48,7 @@
  * ```
  */
 
+import { ChatCompletionContentPart } from "openai/resources";
 import { NodeXML, EdgeXML } from "../../types/xml.d";
 import { IncrementalXMLParser } from "../incrementalXMLParser";
 import {
@@ -70,16 +71,16 @@ export type StreamCallback = (chunk: string | null, error?: Error) => void;
 export type StreamResponseFunction = (
 	apiKey: string,
 	messages: ChatMessage[],
-	config: { max_tokens?: number; model?: string; temperature?: number },
+	config: { max_tokens?: number; model?: string; temperature?: number; signal?: AbortSignal },
 	callback: StreamCallback
 ) => Promise<void>;
 
 /**
- * 聊天消息类型
+ * 聊天消息类型（图片节点以内容片段数组发送）
  */
 export interface ChatMessage {
 	role: string;
-	content: string;
+	content: string | ChatCompletionContentPart[];
 }
 
 /**
@@ -316,6 +317,8 @@ export class GroupStreamManager {
 					model: modelConfig.model,
 					max_tokens: modelConfig.max_tokens,
 					temperature: modelConfig.temperature,
+					// Requirements: 6.4 - abort() 同时取消 API 请求
+					signal: this.abortController?.signal,
 				},
 				(chunk: string | null, error?: Error) => {
 					// 检查是否已中止
@@ -0,0 +1,172 @@
+import { CanvasNode } from "../obsidian/canvas-internal";
+import { visitNodeAndAncestors } from "../obsidian/canvasUtil";
+import { AugmentedCanvasSettings } from "../settings/AugmentedCanvasSettings";
+
+/**
+ * Key of the overrides in a node's `unknownData` (saved in the .canvas file)
+ */
+export const MODEL_OVERRIDES_KEY = "ai_overrides";
+
+/**
+ * Model settings a node can set for itself and its descendants
+ */
+export interface ModelOverrides {
+	model?: string;
+	temperature?: number;
+	max_tokens?: number;
+}
+
+/**
+ * Model settings sent with a request
+ */
+export interface RequestModelConfig {
+	model: string;
+	temperature: number;
+	max_tokens?: number;
+}
+
+const OVERRIDE_FIELDS: (keyof ModelOverrides)[] = [
+	"model",
+	"temperature",
+	"max_tokens",
+];
+
+const HEADER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Keep only valid override values
+ */
+export function sanitizeOverrides(raw: Record<string, unknown> = {}): ModelOverrides {
+	const overrides: ModelOverrides = {};
+
+	const model = typeof raw.model === "string" ? raw.model.trim() : "";
+	if (model) overrides.model = model;
+
+	const temperature = parseFloat(String(raw.temperature));
+	if (temperature >= 0 && temperature <= 2) {
+		overrides.temperature = temperature;
+	}
+
+	const maxTokens = Number(raw.max_tokens);
+	if (Number.isInteger(maxTokens) && maxTokens > 0) {
+		overrides.max_tokens = maxTokens;
+	}
+
+	return overrides;
+}
+
+export const hasOverrides = (overrides: ModelOverrides) =>
+	OVERRIDE_FIELDS.some((field) => overrides[field] !== undefined);
+
+/**
+ * Parse a front-matter-like header at the top of a note:
+ *
+ * ---
+ * model: gpt-4o
+ * temperature: 0.2
+ * max_tokens: 2000
+ * ---
+ *
+ * Returns the overrides and the text without the header.
+ * A block without any override field is left in the text.
+ */
+export function parseOverrideHeader(text: string): {
+	overrides: ModelOverrides;
+	body: string;
+} {
+	const match = HEADER_REGEX.exec(text.trimStart());
+	if (!match) return { overrides: {}, body: text };
+
+	const raw: Record<string, string> = {};
+	for (const line of match[1].split(/\r?\n/)) {
+		const colon = line.indexOf(":");
+		if (colon === -1) continue;
+		raw[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+	}
+
+	const overrides = sanitizeOverrides(raw);
+	if (!hasOverrides(overrides)) return { overrides: {}, body: text };
+
+	return {
+		overrides,
+		body: text.trimStart().slice(match[0].length),
+	};
+}
+
+/**
+ * Overrides set on the node itself: the text header wins over the node metadata
+ */
+export function nodeOverrides(
+	node: Pick<CanvasNode, "unknownData">,
+	text?: string | null
+): ModelOverrides {
+	return {
+		...sanitizeOverrides(node.unknownData?.[MODEL_OVERRIDES_KEY]),
+		...(text ? parseOverrideHeader(text).overrides : {}),
+	};
+}
+
+/**
+ * Store overrides in the node metadata, removing them when empty
+ */
+export async function setNodeOverrides(
+	node: CanvasNode,
+	overrides: ModelOverrides
+) {
+	const clean = sanitizeOverrides(overrides as Record<string, unknown>);
+	if (hasOverrides(clean)) {
+		node.unknownData[MODEL_OVERRIDES_KEY] = clean;
+	} else {
+		delete node.unknownData[MODEL_OVERRIDES_KEY];
+	}
+	await node.canvas.requestSave();
+}
+
+/**
+ * Overrides in effect for a node: each field comes from the node itself
+ * or from the nearest ancestor that sets it. Headers are only read from text
+ * nodes, other nodes only set overrides in their metadata.
+ */
+export async function resolveModelOverrides(
+	node: CanvasNode
+): Promise<ModelOverrides> {
+	let resolved: ModelOverrides = {};
+
+	await visitNodeAndAncestors(node, async (n) => {
+		const current = n as CanvasNode;
+		const data = current.getData();
+		const overrides = nodeOverrides(current, data.type === "text" ? data.text : null);
+		// Nearer nodes were visited first and keep their values
+		resolved = { ...overrides, ...resolved };
+		return !OVERRIDE_FIELDS.every((field) => resolved[field] !== undefined);
+	});
+
+	return resolved;
+}
+
+/**
+ * Apply overrides over the global settings
+ */
+export function applyModelOverrides(
+	settings: AugmentedCanvasSettings,
+	overrides: ModelOverrides = {}
+): RequestModelConfig {
+	return {
+		model: overrides.model || settings.apiModel,
+		temperature: overrides.temperature ?? settings.temperature,
+		max_tokens: overrides.max_tokens || settings.maxResponseTokens || undefined,
+	};
+}
+
+/**
+ * Model settings for a request made from a node
+ */
+export async function getNodeModelConfig(
+	settings: AugmentedCanvasSettings,
+	node?: CanvasNode
+): Promise<RequestModelConfig> {
+	return applyModelOverrides(
+		settings,
+		node ? await resolveModelOverrides(node) : {}
+	);
+}
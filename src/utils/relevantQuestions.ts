@@ -0,0 +1,143 @@
+import { Rect } from "./spatialAnalyzer";
+
+/**
+ * Notes the relevant questions are asked about
+ */
+export type RelevantQuestionsSource = "recent-files" | "canvas" | "folder" | "search";
+
+export const RELEVANT_QUESTIONS_SOURCE_LABELS: Record<RelevantQuestionsSource, string> = {
+	"recent-files": "最近修改的笔记",
+	canvas: "当前画布（或所选卡片）",
+	folder: "当前画布所在文件夹的笔记",
+	search: "搜索结果",
+};
+
+export interface RelevantQuestionsOptions {
+	/**
+	 * Questions asked for
+	 */
+	count: number;
+	source: RelevantQuestionsSource;
+	/**
+	 * Query of the search source. Empty searches with the text of the canvas.
+	 */
+	query: string;
+}
+
+export const DEFAULT_RELEVANT_QUESTIONS_OPTIONS: RelevantQuestionsOptions = {
+	count: 6,
+	source: "recent-files",
+	query: "",
+};
+
+/**
+ * A note or canvas node the questions may be derived from
+ */
+export interface QuestionSource {
+	/**
+	 * Heading of the source in the prompt, cited back by the model
+	 */
+	title: string;
+	text: string;
+	/**
+	 * Note of the source, linked to its file node
+	 */
+	path?: string;
+	/**
+	 * Canvas node of the source
+	 */
+	nodeId?: string;
+}
+
+export interface RelevantQuestion {
+	question: string;
+	/**
+	 * Titles of the sources the question comes from
+	 */
+	sources?: string[];
+}
+
+export const QUESTION_NODE_WIDTH = 500;
+export const QUESTION_NODE_HEIGHT = 150;
+export const SOURCE_NODE_HEIGHT = 300;
+const QUESTIONS_PER_ROW = 3;
+
+export const formatQuestionSources = (sources: QuestionSource[]) =>
+	sources.map((source) => `# ${source.title}\n\n${source.text.trim()}`).join("\n\n");
+
+const normalizeTitle = (title: string) =>
+	title
+		.trim()
+		.replace(/^#+\s*/, "")
+		.replace(/^\[\[|\]\]$/g, "")
+		.replace(/\.md$/i, "")
+		.toLowerCase();
+
+/**
+ * Sources cited by a question, matched by their title or by the name of their
+ * note, as models often drop the folders
+ */
+export function matchQuestionSources(
+	question: RelevantQuestion,
+	sources: QuestionSource[]
+): QuestionSource[] {
+	const cited = new Set((question.sources || []).map(normalizeTitle));
+	return sources.filter((source) => {
+		const title = normalizeTitle(source.title);
+		const name = title.split("/").pop()!;
+		return cited.has(title) || cited.has(name);
+	});
+}
+
+export interface QuestionsLayout {
+	width: number;
+	height: number;
+	/**
+	 * Question nodes, relative to the top left corner of the group
+	 */
+	questions: Rect[];
+	/**
+	 * File nodes of the cited notes not on the canvas yet, below the questions
+	 */
+	sources: Rect[];
+}
+
+/**
+ * Grid of the relevant questions group: rows of questions, then rows of the
+ * notes they come from
+ */
+export function questionsGroupLayout(
+	questionCount: number,
+	sourceCount: number,
+	{ padding, gap }: { padding: number; gap: number }
+): QuestionsLayout {
+	const columns = Math.max(
+		1,
+		Math.min(QUESTIONS_PER_ROW, Math.max(questionCount, sourceCount))
+	);
+	let top = padding;
+	const grid = (count: number, height: number) => {
+		const rects: Rect[] = [];
+		for (let index = 0; index < count; index++) {
+			const column = index % columns;
+			const row = Math.floor(index / columns);
+			rects.push({
+				x: padding + column * (QUESTION_NODE_WIDTH + gap),
+				y: top + row * (height + gap),
+				width: QUESTION_NODE_WIDTH,
+				height,
+			});
+		}
+		if (count) top += Math.ceil(count / columns) * (height + gap);
+		return rects;
+	};
+
+	const questions = grid(questionCount, QUESTION_NODE_HEIGHT);
+	const sources = grid(sourceCount, SOURCE_NODE_HEIGHT);
+	return {
+		width: padding * 2 + columns * QUESTION_NODE_WIDTH + (columns - 1) * gap,
+		height: top - gap + padding,
+		questions,
+		sources,
+	};
+}
@@ -0,0 +1,148 @@
+/**
+ * Shape of a JSON answer, a subset of JSON Schema
+ */
+export type JSONSchema =
+	| { type: "string" | "number" | "boolean" }
+	| { type: "array"; items: JSONSchema; minItems?: number }
+	| { type: "object"; properties: Record<string, JSONSchema>; required?: string[] };
+
+/**
+ * Answer the model was asked to give as JSON that cannot be parsed or does
+ * not match its schema
+ */
+export class StructuredOutputError extends Error {
+	constructor(
+		message: string,
+		/**
+		 * Text of the answer
+		 */
+		public raw: string
+	) {
+		super(message);
+		this.name = "StructuredOutputError";
+	}
+}
+
+/**
+ * Drop the commas before a closing bracket, outside strings
+ */
+const removeTrailingCommas = (text: string) => {
+	let result = "";
+	let inString = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (char === "\\") {
+				result += char + (text[++i] ?? "");
+				continue;
+			}
+			if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === ",") {
+			const next = text.slice(i + 1).match(/^\s*(.)/)?.[1];
+			if (next === "}" || next === "]") continue;
+		}
+		result += char;
+	}
+	return result;
+};
+
+/**
+ * Parse the JSON of an answer, repairing what models commonly get wrong:
+ * Markdown code fences, text around the JSON and trailing commas.
+ */
+export function parseJSONAnswer(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		// Repaired below
+	}
+
+	let json = text.trim();
+	const fenced = json.match(/```(?:json)?\s*\n?([\s\S]*?)\n?\s*```/i);
+	if (fenced) json = fenced[1].trim();
+	const start = json.search(/[{[]/);
+	const end = Math.max(json.lastIndexOf("}"), json.lastIndexOf("]"));
+	if (start >= 0 && end > start) json = json.slice(start, end + 1);
+
+	try {
+		return JSON.parse(removeTrailingCommas(json));
+	} catch (error) {
+		throw new StructuredOutputError(
+			`AI 返回的内容不是有效的 JSON: ${error?.message || error}`,
+			text
+		);
+	}
+}
+
+const typeOf = (value: unknown) =>
+	value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * Differences between a value and its schema, one message per difference
+ * with the path of the value, e.g. `$.flashcards[2].front`
+ */
+export function validateJSON(
+	value: unknown,
+	schema: JSONSchema,
+	path = "$"
+): string[] {
+	if (typeOf(value) !== schema.type) {
+		return [`${path} should be ${schema.type}, got ${typeOf(value)}`];
+	}
+
+	if (schema.type === "array") {
+		const items = value as unknown[];
+		const errors =
+			schema.minItems && items.length < schema.minItems
+				? [`${path} should have at least ${schema.minItems} items`]
+				: [];
+		return errors.concat(
+			items.flatMap((item, index) => validateJSON(item, schema.items, `${path}[${index}]`))
+		);
+	}
+
+	if (schema.type === "object") {
+		const object = value as Record<string, unknown>;
+		const missing = (schema.required || [])
+			.filter((key) => object[key] === undefined)
+			.map((key) => `${path}.${key} is required`);
+		return missing.concat(
+			Object.entries(schema.properties)
+				.filter(([key]) => object[key] !== undefined)
+				.flatMap(([key, property]) => validateJSON(object[key], property, `${path}.${key}`))
+		);
+	}
+
+	return [];
+}
+
+/**
+ * Message asking the model to answer again after an invalid answer
+ */
+export const repairPrompt = (problem: string, schema: JSONSchema) =>
+	`Your answer could not be used: ${problem}
+
+Answer again with only a JSON value matching this JSON Schema, without code fences or comments:
+${JSON.stringify(schema)}`;
+
+/**
+ * Characters of the unusable answer shown in an error node
+ */
+const ERROR_ANSWER_CHARS = 1000;
+
+/**
+ * Text of a canvas node explaining why an action failed, with the answer of
+ * the model when it could not be used
+ */
+export const errorNodeText = (title: string, error: unknown) => {
+	const message = (error as Error)?.message || String(error);
+	const text = `> [!error] ${title}\n> ${message.replace(/\n/g, "\n> ")}`;
+	if (!(error instanceof StructuredOutputError) || !error.raw.trim()) return text;
+
+	const raw = error.raw.trim();
+	const shown =
+		raw.length > ERROR_ANSWER_CHARS ? `${raw.slice(0, ERROR_ANSWER_CHARS)}…` : raw;
+	return `${text}\n\nAI 的回答：\n\n\`\`\`\n${shown.replace(/```/g, "ʼʼʼ")}\n\`\`\``;
+};
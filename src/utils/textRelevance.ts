@@ -0,0 +1,65 @@
+/**
+ * Latin words and digits, or runs of CJK characters
+ */
+const TERM_REGEX = /[\p{L}\p{N}_]+/gu;
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Search terms of a text: lowercased words, and character bigrams for CJK
+ * text, which has no spaces between words
+ */
+export function tokenizeText(text: string): string[] {
+	const terms: string[] = [];
+
+	for (const word of text.toLowerCase().match(TERM_REGEX) || []) {
+		if (!CJK_REGEX.test(word)) {
+			terms.push(word);
+			continue;
+		}
+		const chars = Array.from(word);
+		if (chars.length === 1) terms.push(word);
+		for (let i = 0; i < chars.length - 1; i++) {
+			terms.push(chars[i] + chars[i + 1]);
+		}
+	}
+
+	return terms;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Okapi BM25 score of each document for the query, the documents being the corpus
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+	const queryTerms = Array.from(new Set(tokenizeText(query)));
+	const docs = documents.map(tokenizeText);
+	if (!queryTerms.length || !docs.length) return documents.map(() => 0);
+
+	const avgLength =
+		docs.reduce((total, terms) => total + terms.length, 0) / docs.length || 1;
+	const frequencies = docs.map((terms) => {
+		const counts = new Map<string, number>();
+		terms.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+		return counts;
+	});
+
+	const idf = new Map<string, number>();
+	for (const term of queryTerms) {
+		const withTerm = frequencies.filter((counts) => counts.has(term)).length;
+		idf.set(
+			term,
+			Math.log(1 + (docs.length - withTerm + 0.5) / (withTerm + 0.5))
+		);
+	}
+
+	return frequencies.map((counts, index) =>
+		queryTerms.reduce((score, term) => {
+			const tf = counts.get(term) || 0;
+			if (!tf) return score;
+			const norm = K1 * (1 - B + (B * docs[index].length) / avgLength);
+			return score + (idf.get(term)! * tf * (K1 + 1)) / (tf + norm);
+		}, 0)
+	);
+}
@@ -60,6 +60,19 @@ export function getColorForType(type: string | undefined): string | null {
 	return null;
 }
 
+/**
+ * Node type shown by a node color, "default" for colors no type uses
+ *
+ * @param color - Obsidian color code
+ * @returns Node type
+ */
+export function getTypeForColor(color: string | undefined): NodeType {
+	const entry = Object.entries(TYPE_TO_COLOR).find(
+		([, typeColor]) => typeColor !== null && typeColor === color
+	);
+	return entry ? (entry[0] as NodeType) : "default";
+}
+
 /**
  * Get Obsidian color code for a given node type, with guaranteed non-null result
  * Always returns a valid color code to ensure nodes have solid backgrounds
@@ -0,0 +1,314 @@
+import { App, DataAdapter, Notice } from "obsidian";
+import { AugmentedCanvasSettings } from "../settings/AugmentedCanvasSettings";
+import { TokenUsage, usageCost } from "../openai/usage";
+
+/**
+ * Feature a request was made for
+ */
+export type UsageAction =
+	| "ask-ai"
+	| "ask-question"
+	| "generate-group"
+	| "regenerate"
+	| "smart-connect"
+	| "smart-grouping"
+	| "flashcards"
+	| "relevant-questions"
+	| "folder-prompt"
+	| "summarize-context"
+	| "vault-index"
+	| "test-connection"
+	| "other";
+
+export const USAGE_ACTION_LABELS: Record<UsageAction, string> = {
+	"ask-ai": "AI 问答",
+	"ask-question": "针对卡片提问",
+	"generate-group": "生成 Group",
+	regenerate: "重新生成",
+	"smart-connect": "智能连线",
+	"smart-grouping": "智能分组",
+	flashcards: "闪卡",
+	"relevant-questions": "相关问题",
+	"folder-prompt": "文件夹提示词",
+	"summarize-context": "上下文摘要",
+	"vault-index": "知识库索引",
+	"test-connection": "测试连接",
+	other: "其他",
+};
+
+/**
+ * What happens to a request once the monthly budget is spent
+ * - warn: show a notice and send the request
+ * - block: refuse the request
+ */
+export type BudgetAction = "warn" | "block";
+
+/**
+ * One request in the ledger
+ */
+export interface UsageEntry extends TokenUsage {
+	/**
+	 * Unix time in ms
+	 */
+	time: number;
+	provider: string;
+	model: string;
+	action: UsageAction;
+	/**
+	 * Canvas active when the request was made
+	 */
+	canvasPath?: string;
+	/**
+	 * Token counts come from the local tokenizer, the provider reported none
+	 */
+	estimated: boolean;
+	/**
+	 * USD, unset when the model has no known pricing
+	 */
+	cost?: number;
+	/**
+	 * Requests summed in this entry, set on the monthly totals of older months
+	 */
+	calls?: number;
+}
+
+/**
+ * Totals of a group of entries
+ */
+export interface UsageTotals extends TokenUsage {
+	key: string;
+	calls: number;
+	cost: number;
+	/**
+	 * Some entries have no known pricing, the cost is a lower bound
+	 */
+	unpriced: boolean;
+}
+
+export class BudgetExceededError extends Error {
+	constructor(spent: number, budget: number) {
+		super(
+			`本月 AI 费用 $${spent.toFixed(2)} 已达到预算 $${budget.toFixed(2)}，请求已取消`
+		);
+		this.name = "BudgetExceededError";
+	}
+}
+
+type LedgerSettings = Pick<
+	AugmentedCanvasSettings,
+	| "providerId"
+	| "apiBaseUrl"
+	| "customModels"
+	| "modelCache"
+	| "monthlyBudget"
+	| "budgetAction"
+>;
+
+/**
+ * Requests made with the plugin, saved as JSON in the plugin folder
+ */
+export class UsageLedger {
+	entries: UsageEntry[] = [];
+
+	constructor(
+		private adapter: Pick<DataAdapter, "exists" | "read" | "write">,
+		private path: string
+	) {}
+
+	async load() {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.adapter.read(this.path));
+				this.entries = Array.isArray(data?.entries) ? data.entries : [];
+			}
+		} catch (error) {
+			console.error("Failed to load the usage ledger:", error);
+			this.entries = [];
+		}
+	}
+
+	async add(entry: UsageEntry) {
+		this.entries = rollUpUsage([...this.entries, entry], new Date(entry.time));
+		await this.save();
+	}
+
+	async clear() {
+		this.entries = [];
+		await this.save();
+	}
+
+	private async save() {
+		try {
+			await this.adapter.write(
+				this.path,
+				JSON.stringify({ version: 1, entries: this.entries })
+			);
+		} catch (error) {
+			console.error("Failed to save the usage ledger:", error);
+		}
+	}
+}
+
+/**
+ * Start of the month of `now`, local time
+ */
+export const monthStart = (now = new Date()) =>
+	new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+/**
+ * Keep the requests of the month of `now` and of the month before, and sum
+ * older ones into one entry per month, provider, model, feature and canvas,
+ * so the ledger does not grow with every request
+ */
+export function rollUpUsage(entries: UsageEntry[], now = new Date()): UsageEntry[] {
+	const keepFrom = monthStart(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+	const kept: UsageEntry[] = [];
+	const totals = new Map<string, UsageEntry>();
+
+	for (const entry of entries) {
+		if (entry.time >= keepFrom) {
+			kept.push(entry);
+			continue;
+		}
+		const time = monthStart(new Date(entry.time));
+		const key = [
+			time,
+			entry.provider,
+			entry.model,
+			entry.action,
+			entry.canvasPath,
+			entry.cost === undefined,
+		].join("\n");
+		const total = totals.get(key);
+		if (!total) {
+			totals.set(key, { ...entry, time, calls: entry.calls || 1 });
+			continue;
+		}
+		total.promptTokens += entry.promptTokens;
+		total.completionTokens += entry.completionTokens;
+		total.estimated = total.estimated || entry.estimated;
+		total.calls = (total.calls || 1) + (entry.calls || 1);
+		if (entry.cost !== undefined) total.cost = (total.cost || 0) + entry.cost;
+	}
+
+	return [...totals.values(), ...kept];
+}
+
+/**
+ * Local date of an entry, e.g. 2024-05-31
+ */
+export const entryDay = (entry: UsageEntry) => {
+	const date = new Date(entry.time);
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Spend since the start of the month
+ */
+export const monthlySpend = (entries: UsageEntry[], now = new Date()) => {
+	const start = monthStart(now);
+	return entries
+		.filter((entry) => entry.time >= start)
+		.reduce((total, entry) => total + (entry.cost || 0), 0);
+};
+
+/**
+ * Group entries and sum their usage, most expensive groups first
+ */
+export function summarizeUsage(
+	entries: UsageEntry[],
+	keyOf: (entry: UsageEntry) => string
+): UsageTotals[] {
+	const groups = new Map<string, UsageTotals>();
+
+	for (const entry of entries) {
+		const key = keyOf(entry);
+		const totals = groups.get(key) || {
+			key,
+			calls: 0,
+			promptTokens: 0,
+			completionTokens: 0,
+			cost: 0,
+			unpriced: false,
+		};
+		totals.calls += entry.calls || 1;
+		totals.promptTokens += entry.promptTokens;
+		totals.completionTokens += entry.completionTokens;
+		totals.cost += entry.cost || 0;
+		totals.unpriced = totals.unpriced || entry.cost === undefined;
+		groups.set(key, totals);
+	}
+
+	return Array.from(groups.values()).sort(
+		(a, b) =>
+			b.cost - a.cost ||
+			b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens)
+	);
+}
+
+let _ledger: UsageLedger | null = null;
+let _app: App | null = null;
+let _settings: LedgerSettings | null = null;
+/**
+ * Month for which the over-budget warning was shown
+ */
+let warnedMonth: number | null = null;
+
+export const initUsageLedger = (
+	ledger: UsageLedger | null,
+	app: App | null,
+	settings: LedgerSettings
+) => {
+	_ledger = ledger;
+	_app = app;
+	_settings = settings;
+	warnedMonth = null;
+};
+
+/**
+ * Path of the file open in the active view, the canvas a request comes from
+ */
+export const activeCanvasPath = () =>
+	_app?.workspace.getActiveFile()?.path;
+
+/**
+ * Check the monthly budget before a request.
+ * Throws `BudgetExceededError` when the budget is spent and requests are blocked.
+ */
+export function checkBudget(now = new Date()) {
+	if (!_ledger || !_settings?.monthlyBudget) return;
+
+	const spent = monthlySpend(_ledger.entries, now);
+	if (spent < _settings.monthlyBudget) return;
+
+	if (_settings.budgetAction === "block") {
+		throw new BudgetExceededError(spent, _settings.monthlyBudget);
+	}
+
+	// Warn once a month, not on every request
+	if (warnedMonth !== monthStart(now)) {
+		warnedMonth = monthStart(now);
+		new Notice(
+			`本月 AI 费用 $${spent.toFixed(2)} 已超出预算 $${_settings.monthlyBudget.toFixed(2)}`
+		);
+	}
+}
+
+/**
+ * Add a request to the ledger, pricing it with the model registry
+ */
+export async function recordUsage(
+	entry: Omit<UsageEntry, "time" | "cost" | "canvasPath"> & {
+		canvasPath?: string;
+	}
+) {
+	if (!_ledger) return;
+
+	await _ledger.add({
+		...entry,
+		time: Date.now(),
+		canvasPath: entry.canvasPath ?? activeCanvasPath(),
+		cost: usageCost(entry, entry.model, _settings || undefined),
+	});
+}